@@ -0,0 +1,98 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { AuthService, Environment } from '../../services/auth.service';
+import { CredentialService } from '../../services/credential.service';
+import { ConfigService, ProfileSource } from '../../services/config.service';
+import { handleCommandError } from '../../utils/errors';
+
+interface ProfileSummary {
+  profile: string;
+  active: boolean;
+  email: string | null;
+  expiresAt: string | null;
+  expired: boolean;
+}
+
+const SOURCE_LABELS: Record<ProfileSource, string> = {
+  flag: '--profile',
+  env: 'EZENV_PROFILE',
+  ezenvrc: '.ezenvrc',
+  active: 'auth switch',
+  default: 'default'
+};
+
+export class ListProfilesCommand {
+  private configService: ConfigService;
+
+  constructor() {
+    this.configService = new ConfigService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('list')
+      .alias('ls')
+      .description('List auth profiles and the accounts they are logged in to')
+      .option('-e, --env <environment>', 'Environment to check', 'production')
+      .option('--json', 'Output in JSON format')
+      .action(async (options) => {
+        try {
+          await this.execute(options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(options: { env: string; json?: boolean }): Promise<void> {
+    await this.configService.init();
+    const authService = new AuthService(CredentialService.getInstance());
+    authService.setEnvironment(options.env as Environment);
+
+    // The active profile was resolved for this run (including --profile)
+    const active = authService.getProfile();
+    const summaries: ProfileSummary[] = [];
+
+    for (const profile of this.configService.listProfiles()) {
+      authService.setProfile(profile);
+      const tokenData = await authService.getStoredTokenData({ ignoreExternal: true });
+      summaries.push({
+        profile,
+        active: profile === active,
+        email: tokenData?.user_email || null,
+        expiresAt: tokenData?.expires_at || null,
+        expired: tokenData ? new Date(tokenData.expires_at) <= new Date() && !tokenData.refresh_token : false
+      });
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(summaries, null, 2));
+      return;
+    }
+
+    console.log(chalk.cyan('\n👤 Auth profiles'));
+    console.log(chalk.gray(`Environment: ${options.env}\n`));
+
+    for (const summary of summaries) {
+      const arrow = summary.active ? chalk.green('→') : ' ';
+      const name = summary.active ? chalk.green(summary.profile) : chalk.white(summary.profile);
+      const account = !summary.expiresAt
+        ? chalk.gray('not logged in')
+        : summary.expired
+          ? chalk.yellow(`${summary.email || 'unknown user'} (expired)`)
+          : chalk.gray(summary.email || 'logged in');
+      console.log(`${arrow} ${name}  ${account}`);
+    }
+
+    const { source } = this.configService.resolveProfile();
+    if (source !== 'default') {
+      const label = active === this.configService.getProfile() ? SOURCE_LABELS[source] : '--profile';
+      console.log(chalk.gray(`\nActive profile selected by ${label}`));
+    }
+
+    const tokenSource = await authService.getTokenSource();
+    if (tokenSource.source !== 'store') {
+      console.log(chalk.yellow(`Note: ${tokenSource.description} overrides all profiles`));
+    }
+  }
+}
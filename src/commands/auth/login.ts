@@ -1,10 +1,23 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
+import ora, { Ora } from 'ora';
 import inquirer from 'inquirer';
-import { AuthService, Environment } from '../../services/auth.service';
+import { AuthService, Environment, MfaOptions } from '../../services/auth.service';
 import { CredentialService } from '../../services/credential.service';
+import { ConfigService, DEFAULT_PROFILE } from '../../services/config.service';
 import { getSupabaseConfig } from '../../config/defaults';
+import { handleCommandError, CLIError } from '../../utils/errors';
+
+interface LoginCommandOptions {
+  env: string;
+  otp?: boolean;
+  withToken?: boolean;
+  web?: boolean;
+  provider: string;
+  ssoDomain?: string;
+  browser: boolean;
+  timeout: string;
+}
 
 export class LoginCommand {
   private authService?: AuthService;
@@ -25,12 +38,19 @@ export class LoginCommand {
       .command('login')
       .description('Authenticate with EzEnv')
       .option('-e, --env <environment>', 'Environment to authenticate with', 'production')
+      .option('--otp', 'Log in with a one-time code sent to your email')
+      .option('--with-token', 'Read an access or service token from stdin instead of prompting')
+      .option('-w, --web', 'Log in through the browser (OAuth/SSO)')
+      .option('--provider <provider>', 'OAuth provider for --web, e.g. github, google', 'github')
+      .option('--sso-domain <domain>', 'Log in with --web through your company SSO')
+      .option('--no-browser', 'Print the login URL instead of opening a browser')
+      .option('--timeout <seconds>', 'How long --web waits for the browser', '300')
       .action(async (options) => {
         await this.execute(options);
       });
   }
 
-  private async execute(options: { env: string }): Promise<void> {
+  private async execute(options: LoginCommandOptions): Promise<void> {
     // Validate and set environment
     const validEnvs: Environment[] = ['development', 'staging', 'production'];
     const environment = options.env as Environment;
@@ -43,14 +63,29 @@ export class LoginCommand {
     
     const authService = this.getAuthService();
     authService.setEnvironment(environment);
-    console.log(chalk.gray(`Authenticating with ${environment} environment`));
+    const profile = authService.getProfile();
+    console.log(chalk.gray(
+      `Authenticating with ${environment} environment${profile === DEFAULT_PROFILE ? '' : ` (profile: ${profile})`}`
+    ));
     
     // Show notice if using hosted service
-    const { isUsingHosted } = getSupabaseConfig();
+    const { isUsingHosted, instance, url } = getSupabaseConfig();
     if (isUsingHosted) {
-      console.log(chalk.gray('Using EzEnv hosted service. Set SUPABASE_URL for self-hosted.'));
+      console.log(chalk.gray('Using EzEnv hosted service. Set SUPABASE_URL or run "ezenv instances add" for self-hosted.'));
+    } else if (instance) {
+      console.log(chalk.gray(`Using instance ${instance} (${url})`));
     }
     
+    if (options.withToken) {
+      await this.loginWithToken(authService, environment);
+      return;
+    }
+
+    if (options.web || options.ssoDomain) {
+      await this.loginWithBrowser(authService, environment, options);
+      return;
+    }
+
     try {
       // Prompt for email
       const { email } = await inquirer.prompt([
@@ -69,24 +104,48 @@ export class LoginCommand {
         }
       ]);
       
-      // Prompt for password (masked input)
-      const { password } = await inquirer.prompt([
-        {
-          type: 'password',
-          name: 'password',
-          message: 'Password:',
-          mask: '*'
+      if (options.otp) {
+        const sendSpinner = ora(`Sending a sign-in code to ${email}...`).start();
+        try {
+          await authService.requestEmailOtp(email);
+          sendSpinner.succeed(`Sign-in code sent to ${email}`);
+        } catch (error) {
+          sendSpinner.fail('Failed to send the sign-in code');
+          throw error;
         }
+      }
+
+      // Prompt for the emailed code or the password (masked input)
+      const { secret } = await inquirer.prompt([
+        options.otp
+          ? {
+              type: 'input',
+              name: 'secret',
+              message: 'Code from the email:',
+              validate: (input: string) => /^\d{6,10}$/.test(input.trim()) || 'Enter the numeric code from the email'
+            }
+          : {
+              type: 'password',
+              name: 'secret',
+              message: 'Password:',
+              mask: '*'
+            }
       ]);
       
       // Authenticate with Supabase
       const spinner = ora('Authenticating...').start();
+      const mfa = this.promptForTotp(spinner);
       
       try {
-        await authService.authenticateWithPassword(email, password);
+        if (options.otp) {
+          await authService.verifyEmailOtp(email, secret.trim(), mfa);
+        } else {
+          await authService.authenticateWithPassword(email, secret, mfa);
+        }
         spinner.succeed('Authentication successful!');
         
         console.log(chalk.green(`✓ Logged in successfully to ${environment} environment`));
+        await this.rememberProfile(authService);
         
         if (this.credentialService?.isUsingMemoryStorage()) {
           console.warn(chalk.yellow('\n⚠️  Using temporary memory storage'));
@@ -117,6 +176,15 @@ export class LoginCommand {
       } else if (err.code === 'RATE_LIMITED') {
         console.error(chalk.red('\nError: Too many authentication attempts'));
         console.log(chalk.gray('Please wait a few minutes before trying again'));
+      } else if (err.code === 'MFA_INVALID_CODE' || err.code === 'OTP_INVALID_CODE') {
+        console.error(chalk.red('\nError: Invalid code'));
+        console.log(chalk.gray('Check the code and try again'));
+      } else if (err.code === 'MFA_EXPIRED' || err.code === 'OTP_EXPIRED') {
+        console.error(chalk.red('\nError: The code has expired'));
+        console.log(chalk.gray('Run "ezenv auth login" again to get a new one'));
+      } else if (err.code === 'OTP_NOT_ALLOWED') {
+        console.error(chalk.red('\nError: Email sign-in codes are not available for this account'));
+        console.log(chalk.gray('Log in with your password or with --web instead'));
       } else if (err.code === 'SERVER_ERROR') {
         console.error(chalk.red('\nError: Server error occurred'));
         console.log(chalk.gray('Please try again later or contact support'));
@@ -130,4 +198,123 @@ export class LoginCommand {
       process.exit(1);
     }
   }
-}
\ No newline at end of file
+
+  /** Records a named profile so `auth list` and `auth switch` know about it */
+  private async rememberProfile(authService: AuthService): Promise<void> {
+    const profile = authService.getProfile();
+    if (profile === DEFAULT_PROFILE) {
+      return;
+    }
+
+    const configService = new ConfigService();
+    await configService.init();
+    await configService.addProfile(profile);
+    console.log(chalk.gray(`Saved as profile "${profile}". Run "ezenv auth switch ${profile}" to use it by default`));
+  }
+
+  /**
+   * Pauses the spinner to ask for an authenticator code when the account
+   * has two-factor authentication enabled.
+   */
+  private promptForTotp(spinner: Ora): MfaOptions {
+    return {
+      getTotpCode: async (attempt: number) => {
+        spinner.stop();
+        if (attempt > 1) {
+          console.log(chalk.yellow('Invalid code, please try again'));
+        }
+        const { code } = await inquirer.prompt([
+          {
+            type: 'input',
+            name: 'code',
+            message: 'Authenticator code:',
+            validate: (input: string) => /^\d{6}$/.test(input.trim()) || 'Enter the 6-digit code from your authenticator app'
+          }
+        ]);
+        spinner.start('Verifying code...');
+        return code;
+      }
+    };
+  }
+
+  private async loginWithToken(authService: AuthService, environment: Environment): Promise<void> {
+    try {
+      if (process.stdin.isTTY) {
+        throw new CLIError(
+          'No token on stdin. Pipe it in, e.g. echo "$EZENV_TOKEN" | ezenv auth login --with-token',
+          'MISSING_TOKEN'
+        );
+      }
+
+      const token = (await this.readStdin()).trim();
+      if (!token) {
+        throw new CLIError('No token received on stdin', 'MISSING_TOKEN');
+      }
+
+      const tokenData = await authService.loginWithToken(token);
+      console.log(chalk.green(`✓ Token stored for ${environment} environment`));
+      await this.rememberProfile(authService);
+      if (tokenData.user_email) {
+        console.log(chalk.gray(`User: ${tokenData.user_email}`));
+      }
+
+      if (this.credentialService?.isUsingMemoryStorage()) {
+        console.warn(chalk.yellow('\n⚠️  Using temporary memory storage'));
+        console.warn(chalk.yellow('Set EZENV_TOKEN instead to authenticate every command in CI'));
+      }
+    } catch (error) {
+      await handleCommandError(error);
+    }
+  }
+
+  private async loginWithBrowser(
+    authService: AuthService,
+    environment: Environment,
+    options: LoginCommandOptions
+  ): Promise<void> {
+    const timeoutSeconds = parseInt(options.timeout, 10);
+    const controller = new AbortController();
+    const onInterrupt = () => controller.abort();
+    process.once('SIGINT', onInterrupt);
+
+    const spinner = ora();
+    try {
+      if (isNaN(timeoutSeconds) || timeoutSeconds <= 0) {
+        throw new CLIError(`Invalid --timeout value: ${options.timeout}`, 'INVALID_OPTION');
+      }
+
+      await authService.authenticateWithBrowser({
+        openBrowser: options.browser,
+        signal: controller.signal,
+        provider: options.provider,
+        ssoDomain: options.ssoDomain,
+        timeoutMs: timeoutSeconds * 1000,
+        onAuthorizeUrl: (url) => {
+          console.log(options.browser
+            ? chalk.gray(`Opening your browser. If it does not open, visit:\n${url}`)
+            : chalk.cyan(`Open this URL in your browser to log in:\n${url}`));
+          spinner.start('Waiting for the browser login...');
+        }
+      });
+
+      spinner.succeed('Authentication successful!');
+      console.log(chalk.green(`✓ Logged in successfully to ${environment} environment`));
+      await this.rememberProfile(authService);
+    } catch (error) {
+      if (spinner.isSpinning) {
+        spinner.fail('Authentication failed');
+      }
+      await handleCommandError(error);
+    } finally {
+      process.removeListener('SIGINT', onInterrupt);
+    }
+  }
+
+  private async readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+}
@@ -0,0 +1,103 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { credentialServiceName, Environment, TOKEN_ACCOUNT } from '../../services/auth.service';
+import { CredentialService } from '../../services/credential.service';
+import { ConfigService } from '../../services/config.service';
+import { HOSTED_INSTANCE } from '../../config/defaults';
+import type { CredentialBackend } from '../../types';
+import { handleCommandError, CLIError } from '../../utils/errors';
+
+const PERSISTENT_BACKENDS: CredentialBackend[] = ['keychain', 'file'];
+const AUTH_ENVIRONMENTS: Environment[] = ['development', 'staging', 'production'];
+
+interface MigrateStoreOptions {
+  from?: string;
+  keep?: boolean;
+}
+
+export class MigrateStoreCommand {
+  private configService: ConfigService;
+
+  constructor() {
+    this.configService = new ConfigService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('migrate-store <backend>')
+      .description('Move stored logins to another credential store (keychain or file)')
+      .option('--from <backend>', 'Store to move logins from (default: the current store)')
+      .option('--keep', 'Keep the logins in the old store as well')
+      .action(async (backend: string, options) => {
+        try {
+          await this.execute(backend, options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(to: string, options: MigrateStoreOptions): Promise<void> {
+    await this.configService.init();
+    const from = options.from || this.configService.getCredentialBackend() || 'keychain';
+
+    for (const backend of [from, to]) {
+      if (!PERSISTENT_BACKENDS.includes(backend as CredentialBackend)) {
+        throw new CLIError(
+          `Cannot migrate with "${backend}": use ${PERSISTENT_BACKENDS.join(' or ')} (the memory store does not persist)`,
+          'INVALID_CREDENTIAL_STORE'
+        );
+      }
+    }
+    if (from === to) {
+      throw new CLIError(`Logins are already in the ${to} store`, 'INVALID_CREDENTIAL_STORE');
+    }
+
+    const source = new CredentialService(from as CredentialBackend);
+    const target = new CredentialService(to as CredentialBackend);
+
+    const spinner = ora(`Moving logins from ${from} to ${to}...`).start();
+    let moved = 0;
+    try {
+      for (const serviceName of this.getServiceNames()) {
+        const data = await source.retrieve(serviceName, TOKEN_ACCOUNT);
+        if (!data) {
+          continue;
+        }
+        await target.store(serviceName, TOKEN_ACCOUNT, data);
+        if (!options.keep) {
+          await source.delete(serviceName, TOKEN_ACCOUNT);
+        }
+        moved++;
+      }
+    } catch (error) {
+      spinner.fail('Failed to migrate logins');
+      throw error;
+    }
+
+    await this.configService.setCredentialBackend(to as CredentialBackend);
+    spinner.succeed(`Moved ${moved} login${moved === 1 ? '' : 's'} from ${from} to ${to}`);
+    console.log(chalk.gray(`Logins are now stored in the ${to} store`));
+
+    if (process.env.EZENV_CREDENTIAL_STORE && process.env.EZENV_CREDENTIAL_STORE !== to) {
+      console.log(chalk.yellow(`Note: EZENV_CREDENTIAL_STORE=${process.env.EZENV_CREDENTIAL_STORE} still overrides this setting`));
+    }
+  }
+
+  // Every login the CLI may have stored: each environment, instance and profile
+  private getServiceNames(): string[] {
+    const instances = this.configService.listInstances()
+      .map(instance => instance.name)
+      .filter(name => name !== HOSTED_INSTANCE);
+    const names: string[] = [];
+    for (const environment of AUTH_ENVIRONMENTS) {
+      for (const instance of [undefined, ...instances]) {
+        for (const profile of this.configService.listProfiles()) {
+          names.push(credentialServiceName(environment, instance, profile));
+        }
+      }
+    }
+    return names;
+  }
+}
@@ -2,6 +2,7 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import { AuthService, Environment } from '../../services/auth.service';
 import { CredentialService } from '../../services/credential.service';
+import { getSupabaseConfig } from '../../config/defaults';
 
 export class StatusCommand {
   private authService?: AuthService;
@@ -63,15 +64,22 @@ export class StatusCommand {
     
     if (!tokenData) {
       console.log(chalk.red(`✗ Not authenticated in ${environment} environment`));
-      console.log(chalk.gray('\nRun "ezenv auth login" to authenticate'));
+      console.log(chalk.gray('\nRun "ezenv auth login" to authenticate, or set EZENV_TOKEN'));
       return;
     }
 
+    const tokenSource = await authService.getTokenSource();
+
     // Check if token is expired
     const isExpired = await authService.isTokenExpired();
     
     if (isExpired) {
       console.log(chalk.yellow(`⚠️  Authentication expired in ${environment} environment`));
+
+      if (tokenSource.source !== 'store') {
+        console.log(chalk.gray(`The token from ${tokenSource.description} cannot be refreshed; replace it`));
+        return;
+      }
       
       // Try to refresh if we have a refresh token
       if (tokenData.refresh_token) {
@@ -98,13 +106,19 @@ export class StatusCommand {
     // Display additional info
     console.log(chalk.gray('\nAuthentication details:'));
     console.log(chalk.gray(`  Environment: ${tokenData.environment}`));
+    console.log(chalk.gray(`  Token source: ${tokenSource.description}`));
+    if (tokenSource.source === 'store') {
+      console.log(chalk.gray(`  Profile: ${authService.getProfile()}`));
+    }
+    const { instance, url } = getSupabaseConfig();
+    console.log(chalk.gray(`  Instance: ${instance ? `${instance} (${url})` : url}`));
     console.log(chalk.gray(`  Expires at: ${new Date(tokenData.expires_at).toLocaleString()}`));
     
     if (tokenData.user_id) {
       console.log(chalk.gray(`  User ID: ${tokenData.user_id}`));
     }
     
-    if (this.credentialService?.isUsingMemoryStorage()) {
+    if (tokenSource.source === 'store' && this.credentialService?.isUsingMemoryStorage()) {
       console.warn(chalk.yellow('\n⚠️  Using temporary memory storage'));
       console.warn(chalk.yellow('Credentials are not persisted across sessions'));
     }
@@ -116,6 +130,11 @@ export class StatusCommand {
 
     console.log(chalk.cyan('Authentication Status:\n'));
 
+    const tokenSource = await this.getAuthService().getTokenSource();
+    if (tokenSource.source !== 'store') {
+      console.log(chalk.gray(`Using the token from ${tokenSource.description} for every environment\n`));
+    }
+
     for (const env of environments) {
       const authService = this.getAuthService();
       authService.setEnvironment(env);
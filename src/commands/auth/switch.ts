@@ -0,0 +1,76 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { ConfigService, isValidProfileName } from '../../services/config.service';
+import { handleCommandError, CLIError } from '../../utils/errors';
+
+export class SwitchCommand {
+  private configService: ConfigService;
+
+  constructor() {
+    this.configService = new ConfigService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('switch [profile]')
+      .description('Switch the auth profile used by default (interactive if no profile provided)')
+      .option('--pin', 'Pin the profile for this project in .ezenvrc instead')
+      .action(async (profile: string | undefined, options) => {
+        try {
+          await this.execute(profile, options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(profile: string | undefined, options: { pin?: boolean }): Promise<void> {
+    await this.configService.init();
+    const profiles = this.configService.listProfiles();
+    const current = this.configService.getProfile();
+
+    if (!profile) {
+      const answer = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'profile',
+          message: 'Switch to profile:',
+          choices: profiles.map(name => ({
+            name: name === current ? `${name} ${chalk.green('[current]')}` : name,
+            value: name,
+            short: name
+          })),
+          default: current
+        }
+      ]);
+      profile = answer.profile as string;
+    }
+
+    if (!isValidProfileName(profile)) {
+      throw new CLIError(`Invalid profile name: ${profile}`, 'INVALID_PROFILE');
+    }
+    if (!profiles.includes(profile)) {
+      throw new CLIError(
+        `Unknown profile "${profile}". Run "ezenv auth login --profile ${profile}" first`,
+        'PROFILE_NOT_FOUND',
+        { available: profiles }
+      );
+    }
+
+    if (options.pin) {
+      await this.configService.pinProfile(profile);
+      console.log(chalk.green(`✓ Pinned profile ${profile} in .ezenvrc`));
+      return;
+    }
+
+    await this.configService.setActiveProfile(profile);
+    console.log(chalk.green(`✓ Switched to profile ${profile}`));
+
+    const { name, source } = this.configService.resolveProfile();
+    if (name !== profile) {
+      const overriddenBy = source === 'env' ? 'EZENV_PROFILE' : '.ezenvrc in this directory';
+      console.log(chalk.yellow(`Note: ${overriddenBy} selects profile ${name} here`));
+    }
+  }
+}
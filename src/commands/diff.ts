@@ -8,8 +8,27 @@ import { ConfigService } from '../services/config.service';
 import { SecretsService } from '../services/secrets.service';
 import { ProjectService } from '../services/project.service';
 import { CredentialService } from '../services/credential.service';
-import { handleCommandError } from '../utils/errors';
-import { DiffOptions } from '../types';
+import { handleCommandError, CLIError } from '../utils/errors';
+import { resolveMaskOptions } from '../utils/mask';
+import { collectOption } from '../utils/glob';
+import {
+  applyKeyRules,
+  describeKeyRules,
+  hasKeyRules,
+  KeyRuleOptions,
+  KeyRules,
+  resolveKeyRules,
+  selectLocalKeys
+} from '../utils/key-rules';
+import { DiffOptions, DiffResult } from '../types';
+
+interface EnvironmentRef {
+  project?: string;
+  environment: string;
+  label: string;
+}
+
+const DIFF_FORMATS: DiffOptions['format'][] = ['inline', 'side-by-side', 'summary', 'json', 'markdown'];
 
 export class DiffCommand {
   private apiService: APIService;
@@ -32,81 +51,227 @@ export class DiffCommand {
 
   register(program: Command): void {
     program
-      .command('diff')
-      .description('Show differences between local and remote environment variables')
+      .command('diff [source] [target]')
+      .description('Show differences between local and remote environment variables, or between two environments')
       .option(
         '-f, --format <format>',
-        'Output format (inline, side-by-side, summary)',
+        'Output format (inline, side-by-side, summary, json, markdown)',
         'inline'
       )
       .option('--no-color', 'Disable colored output')
+      .option('--exit-code', 'Exit with 1 when there are differences and 2 on errors')
+      .option('--mask <style>', 'How to mask values: full, partial, hash (keyed per run, so hashes only match within one run) (default: full)')
+      .option('--reveal <n>', 'Characters shown at each end with --mask partial (default: 3)')
+      .option('--show-values', 'Show secret values in clear text')
+      .option('--keys-only', 'Show only which keys differ, never their values')
       .option('-e, --env <environment>', 'Environment to compare (default: current)')
-      .action(async (options) => {
-        await this.execute(options);
+      .option('--only <glob>', 'Only compare remote keys matching the glob (repeatable)', collectOption)
+      .option('--exclude <glob>', 'Leave out remote keys matching the glob (repeatable)', collectOption)
+      .option('--strip-prefix <prefix>', 'Remove a prefix from remote keys before comparing')
+      .option('--add-prefix <prefix>', 'Add a prefix to remote keys before comparing')
+      .action(async (source: string | undefined, target: string | undefined, options) => {
+        await this.execute(options, source, target);
       });
   }
 
-  private async execute(options: {
-    format: 'inline' | 'side-by-side' | 'summary';
-    color: boolean;
-    env?: string;
-  }): Promise<void> {
+  private async execute(
+    options: KeyRuleOptions & {
+      format: DiffOptions['format'];
+      color: boolean;
+      env?: string;
+      exitCode?: boolean;
+      mask?: string;
+      reveal?: string;
+      showValues?: boolean;
+      keysOnly?: boolean;
+    },
+    source?: string,
+    target?: string
+  ): Promise<void> {
+    const errorExitCode = options.exitCode ? 2 : 1;
+    const machineReadable = options.format === 'json';
+    let hasDrift = false;
+
     try {
+      if (!DIFF_FORMATS.includes(options.format)) {
+        throw new CLIError(
+          `Invalid format: ${options.format}`,
+          'INVALID_OPTION',
+          { validFormats: DIFF_FORMATS }
+        );
+      }
+
+      const mask = resolveMaskOptions(options);
+
       await this.configService.init();
       
       const projectId = this.configService.getSelectedProject();
-      const environmentId = options.env || this.configService.getSelectedEnvironment();
-      
-      if (!projectId) {
-        console.error(chalk.red('No project selected'));
-        console.log(chalk.cyan('Run "ezenv projects select" to choose a project'));
-        process.exit(1);
-      }
 
-      if (!environmentId) {
-        console.error(chalk.red('No environment selected'));
-        console.log(chalk.cyan('Run "ezenv env select" to choose an environment'));
-        process.exit(1);
-      }
+      if (target) {
+        const left = this.parseTarget(source as string, projectId);
+        const right = this.parseTarget(target, projectId);
+        if (!left.project || !right.project) {
+          console.error(chalk.red('No project selected'));
+          console.log(chalk.cyan('Run "ezenv projects select" or use project/env'));
+          process.exit(errorExitCode);
+        }
+        // Only flags apply here; .ezenvrc rules belong to a local file
+        const keyRules = resolveKeyRules(options);
+        hasDrift = await this.compareEnvironments(left, right, keyRules, {
+          format: options.format,
+          colorize: options.color,
+          mask,
+          keysOnly: options.keysOnly
+        });
+      } else {
+        // With a single argument, compare the local file against that environment
+        const environmentRef = source ? this.parseTarget(source, projectId) : undefined;
+        const environmentId = environmentRef?.environment || options.env || this.configService.getSelectedEnvironment();
 
-      const spinner = ora(`Fetching secrets from ${environmentId}...`).start();
+        if (!projectId && !environmentRef?.project) {
+          console.error(chalk.red('No project selected'));
+          console.log(chalk.cyan('Run "ezenv projects select" to choose a project'));
+          process.exit(errorExitCode);
+        }
 
-      try {
-        const project = await this.projectService.getProject(projectId);
-        const remoteSecrets = await this.secretsService.getSecrets(
-          project.name,
-          environmentId
-        );
-        spinner.succeed('Fetched remote secrets');
+        if (!environmentId) {
+          console.error(chalk.red('No environment selected'));
+          console.log(chalk.cyan('Run "ezenv env select" to choose an environment'));
+          process.exit(errorExitCode);
+        }
 
         const localPath = await this.fileService.getEnvPath();
-        const localSecrets = await this.fileService.readEnvFile(localPath);
+        const keyRules = resolveKeyRules(options, this.configService.getOutputRules(localPath));
 
-        const diffResult = this.diffService.compareSecrets(localSecrets, remoteSecrets);
+        const spinner = ora(`Fetching secrets from ${environmentId}...`).start();
 
-        const diffOptions: DiffOptions = {
-          format: options.format,
-          colorize: options.color
-        };
+        try {
+          // An explicit project/env is resolved by SecretsService directly
+          const projectRef = environmentRef && environmentRef.project !== projectId
+            ? environmentRef.project as string
+            : (await this.projectService.getProject(projectId as string)).name;
+          const remoteSecrets = applyKeyRules(
+            await this.secretsService.getSecrets(projectRef, environmentId),
+            keyRules
+          );
+          spinner.succeed('Fetched remote secrets');
+          this.printKeyRules(keyRules, machineReadable);
 
-        const formatted = this.diffService.formatDiff(diffResult, diffOptions);
+          // Local keys the rules could not have produced are not drift
+          const localSecrets = selectLocalKeys(await this.fileService.readEnvFile(localPath), keyRules);
 
-        if (formatted) {
-          console.log(formatted);
-        } else {
-          console.log(chalk.green('✓ No differences found'));
-        }
+          const diffResult = this.diffService.compareSecrets(localSecrets, remoteSecrets);
+          hasDrift = this.hasDrift(diffResult);
+
+          const diffOptions: DiffOptions = {
+            format: options.format,
+            colorize: options.color,
+            mask,
+            keysOnly: options.keysOnly
+          };
 
-        const lastSync = await this.fileService.getLastSyncTime(localPath);
-        if (lastSync) {
-          console.log(chalk.gray(`\nLast synced: ${lastSync}`));
+          this.printDiff(diffResult, diffOptions);
+
+          // Keep JSON output parseable
+          if (!machineReadable) {
+            const lastSync = await this.fileService.getLastSyncTime(localPath);
+            if (lastSync) {
+              console.log(chalk.gray(`\nLast synced: ${lastSync}`));
+            }
+          }
+        } catch (error) {
+          spinner.fail('Failed to compare environments');
+          throw error;
         }
-      } catch (error) {
-        spinner.fail('Failed to compare environments');
-        throw error;
       }
     } catch (error) {
-      await handleCommandError(error);
+      await handleCommandError(error, errorExitCode);
+      return;
+    }
+
+    if (options.exitCode && hasDrift) {
+      process.exit(1);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Compares two remote environments. Changes read from source to target:
+   * "added" keys exist only in the target, "removed" keys only in the source.
+   */
+  private async compareEnvironments(
+    source: EnvironmentRef,
+    target: EnvironmentRef,
+    keyRules: KeyRules,
+    diffOptions: DiffOptions
+  ): Promise<boolean> {
+    const spinner = ora(`Fetching secrets from ${source.label} and ${target.label}...`).start();
+
+    try {
+      const [sourceSecrets, targetSecrets] = await Promise.all([
+        this.secretsService.getSecrets(source.project as string, source.environment),
+        this.secretsService.getSecrets(target.project as string, target.environment)
+      ]);
+      spinner.succeed('Fetched remote secrets');
+      this.printKeyRules(keyRules, diffOptions.format === 'json');
+
+      const diffResult = this.diffService.compareSecrets(
+        applyKeyRules(sourceSecrets, keyRules),
+        applyKeyRules(targetSecrets, keyRules)
+      );
+      this.printDiff(diffResult, {
+        ...diffOptions,
+        labels: { left: source.label, right: target.label }
+      });
+
+      return this.hasDrift(diffResult);
+    } catch (error) {
+      spinner.fail('Failed to compare environments');
+      throw error;
+    }
+  }
+
+  /**
+   * Parses `env` or `project/env`, falling back to the selected project.
+   */
+  private parseTarget(value: string, defaultProject?: string): EnvironmentRef {
+    const slash = value.indexOf('/');
+    if (slash === -1) {
+      return { project: defaultProject, environment: value, label: value };
+    }
+
+    const project = value.slice(0, slash);
+    const environment = value.slice(slash + 1);
+    if (!project || !environment) {
+      throw new CLIError(
+        `Invalid environment reference: ${value}`,
+        'INVALID_ARGUMENT',
+        { expected: 'env or project/env' }
+      );
+    }
+
+    return { project, environment, label: value };
+  }
+
+  private printDiff(diffResult: DiffResult, diffOptions: DiffOptions): void {
+    const formatted = this.diffService.formatDiff(diffResult, diffOptions);
+
+    if (formatted) {
+      console.log(formatted);
+    } else {
+      console.log(chalk.green('✓ No differences found'));
+    }
+  }
+
+  // Keep JSON output parseable
+  private printKeyRules(keyRules: KeyRules, machineReadable: boolean): void {
+    if (hasKeyRules(keyRules) && !machineReadable) {
+      console.log(chalk.gray(`Keys: ${describeKeyRules(keyRules)}`));
+    }
+  }
+
+  private hasDrift(diffResult: DiffResult): boolean {
+    return Object.keys(diffResult.added).length > 0 ||
+      Object.keys(diffResult.modified).length > 0 ||
+      Object.keys(diffResult.removed).length > 0;
+  }
+}
@@ -0,0 +1,97 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { EnvironmentService } from '../../services/environment.service';
+import { ConfigService } from '../../services/config.service';
+import { ProjectService } from '../../services/project.service';
+import { SecretsService } from '../../services/secrets.service';
+import { handleCommandError, CLIError } from '../../utils/errors';
+import { requireRole } from '../../utils/roles';
+
+interface CloneEnvironmentOptions {
+  from: string;
+  project?: string;
+  select?: boolean;
+}
+
+export class CloneEnvironmentCommand {
+  private environmentService: EnvironmentService;
+  private configService: ConfigService;
+  private projectService: ProjectService;
+  private secretsService: SecretsService;
+
+  constructor() {
+    this.configService = new ConfigService();
+    this.environmentService = new EnvironmentService(this.configService);
+    this.projectService = new ProjectService();
+    this.secretsService = new SecretsService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('clone <name>')
+      .description('Create an environment with a copy of another environment\'s secrets')
+      .requiredOption('--from <environment>', 'Environment to copy secrets from')
+      .option('-p, --project <project>', 'Project name or ID (default: current)')
+      .option('--select', 'Select the new environment afterwards')
+      .action(async (name: string, options) => {
+        try {
+          await this.execute(name, options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(name: string, options: CloneEnvironmentOptions): Promise<void> {
+    const project = await this.projectService.resolveProject(options.project);
+    requireRole(project.user_role, 'manager', 'create environments', `project "${project.name}"`);
+
+    const sourceName = this.environmentService.resolveEnvironmentAlias(options.from);
+    const source = await this.environmentService.getEnvironment(project.id, sourceName);
+    if (!source) {
+      throw new CLIError(
+        `Environment "${options.from}" not found in project "${project.name}"`,
+        'ENVIRONMENT_NOT_FOUND'
+      );
+    }
+    if (await this.environmentService.getEnvironment(project.id, name)) {
+      throw new CLIError(
+        `Environment "${name}" already exists in project "${project.name}"`,
+        'ALREADY_EXISTS'
+      );
+    }
+
+    const spinner = ora(`Reading secrets from ${source.name}...`).start();
+    try {
+      const secrets = await this.secretsService.getSecrets(project.id, source.id);
+
+      spinner.text = `Creating environment ${name}...`;
+      const environment = await this.environmentService.createEnvironment(project.id, name);
+
+      const count = Object.keys(secrets).length;
+      if (count > 0) {
+        spinner.text = `Copying ${count} secret(s)...`;
+        try {
+          await this.secretsService.updateSecrets(project.id, environment.id, { upsert: secrets, delete: [] });
+        } catch (error) {
+          spinner.fail(`Created ${environment.name} but failed to copy secrets`);
+          console.log(chalk.cyan(`Retry with "ezenv env promote ${source.name} ${environment.name}"`));
+          throw error;
+        }
+      }
+
+      spinner.succeed(`Cloned ${source.name} → ${chalk.green(environment.name)} (${count} secret(s))`);
+
+      if (options.select) {
+        await this.configService.init();
+        await this.configService.selectEnvironment(environment);
+      }
+    } catch (error) {
+      if (spinner.isSpinning) {
+        spinner.fail('Failed to clone environment');
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { EnvironmentService } from '../../services/environment.service';
+import { ConfigService } from '../../services/config.service';
+import { ProjectService } from '../../services/project.service';
+import { handleCommandError, CLIError } from '../../utils/errors';
+import { requireRole } from '../../utils/roles';
+
+interface CreateEnvironmentOptions {
+  project?: string;
+  select?: boolean;
+}
+
+export class CreateEnvironmentCommand {
+  private environmentService: EnvironmentService;
+  private configService: ConfigService;
+  private projectService: ProjectService;
+
+  constructor() {
+    this.configService = new ConfigService();
+    this.environmentService = new EnvironmentService(this.configService);
+    this.projectService = new ProjectService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('create <name>')
+      .description('Create an empty environment in the current project')
+      .option('-p, --project <project>', 'Project name or ID (default: current)')
+      .option('--select', 'Select the new environment afterwards')
+      .action(async (name: string, options) => {
+        try {
+          await this.execute(name, options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(name: string, options: CreateEnvironmentOptions): Promise<void> {
+    const project = await this.projectService.resolveProject(options.project);
+    requireRole(project.user_role, 'manager', 'create environments', `project "${project.name}"`);
+
+    if (await this.environmentService.getEnvironment(project.id, name)) {
+      throw new CLIError(
+        `Environment "${name}" already exists in project "${project.name}"`,
+        'ALREADY_EXISTS'
+      );
+    }
+
+    const spinner = ora(`Creating environment ${name}...`).start();
+    try {
+      const environment = await this.environmentService.createEnvironment(project.id, name);
+      spinner.succeed(`Created environment ${chalk.green(environment.name)} in ${project.name}`);
+
+      if (options.select) {
+        await this.configService.init();
+        await this.configService.selectEnvironment(environment);
+      }
+    } catch (error) {
+      spinner.fail('Failed to create environment');
+      throw error;
+    }
+  }
+}
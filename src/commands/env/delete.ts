@@ -0,0 +1,80 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { EnvironmentService } from '../../services/environment.service';
+import { ConfigService } from '../../services/config.service';
+import { ProjectService } from '../../services/project.service';
+import { handleCommandError, CLIError } from '../../utils/errors';
+import { requireRole } from '../../utils/roles';
+import { confirmByName } from '../../utils/confirm';
+
+interface DeleteEnvironmentOptions {
+  project?: string;
+  confirm?: string;
+}
+
+export class DeleteEnvironmentCommand {
+  private environmentService: EnvironmentService;
+  private configService: ConfigService;
+  private projectService: ProjectService;
+
+  constructor() {
+    this.configService = new ConfigService();
+    this.environmentService = new EnvironmentService(this.configService);
+    this.projectService = new ProjectService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('delete <environment>')
+      .description('Delete an environment and its secrets (admins only)')
+      .option('-p, --project <project>', 'Project name or ID (default: current)')
+      .option('--confirm <name>', 'Confirm non-interactively by typing the environment name')
+      .action(async (environment: string, options) => {
+        try {
+          await this.execute(environment, options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(envName: string, options: DeleteEnvironmentOptions): Promise<void> {
+    const project = await this.projectService.resolveProject(options.project);
+    requireRole(project.user_role, 'admin', 'delete environments', `project "${project.name}"`);
+
+    const resolvedName = this.environmentService.resolveEnvironmentAlias(envName);
+    const environment = await this.environmentService.getEnvironment(project.id, resolvedName);
+    if (!environment) {
+      throw new CLIError(
+        `Environment "${envName}" not found in project "${project.name}"`,
+        'ENVIRONMENT_NOT_FOUND'
+      );
+    }
+
+    const confirmed = await confirmByName(
+      environment.name,
+      `This permanently deletes ${environment.name} and its secrets from ${project.name}.`,
+      options.confirm
+    );
+    if (!confirmed) {
+      console.log(chalk.gray('Deletion cancelled'));
+      return;
+    }
+
+    const spinner = ora(`Deleting ${environment.name}...`).start();
+    try {
+      await this.environmentService.deleteEnvironment(environment.id);
+      spinner.succeed(`Deleted environment ${environment.name}`);
+    } catch (error) {
+      spinner.fail('Failed to delete environment');
+      throw error;
+    }
+
+    await this.configService.init();
+    if (this.configService.getSelectedEnvironment() === environment.id) {
+      await this.configService.clearSelectedEnvironment();
+      console.log(chalk.gray('Cleared the environment selection'));
+    }
+  }
+}
@@ -0,0 +1,311 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import inquirer from 'inquirer';
+import { promises as fs } from 'fs';
+import { SecretsService, SecretChanges } from '../../services/secrets.service';
+import { ConfigService } from '../../services/config.service';
+import { DiffService, isLocalOnlyKey } from '../../services/diff.service';
+import { Environment, EnvironmentService } from '../../services/environment.service';
+import { ProjectService } from '../../services/project.service';
+import { handleCommandError, CLIError } from '../../utils/errors';
+import { confirmByName } from '../../utils/confirm';
+import { matchesAnyGlob, parseGlobList } from '../../utils/glob';
+import { resolveMaskOptions } from '../../utils/mask';
+import { DiffResult } from '../../types';
+
+export interface PromotionReport {
+  project: string;
+  source: string;
+  target: string;
+  created: string[];
+  updated: string[];
+  deleted: string[];
+  /** Differing keys that were not selected */
+  skipped: string[];
+  /** Keys that only exist in the target and were left untouched */
+  protected: string[];
+  /** Set when the confirmation was declined, so scripts can tell it from "nothing to promote" */
+  cancelled: boolean;
+  promotedAt: string | null;
+}
+
+interface PromoteOptions {
+  project?: string;
+  keys?: string[];
+  interactive?: boolean;
+  prune?: boolean;
+  autoApprove?: boolean;
+  confirm?: string;
+  json?: boolean;
+  report?: string;
+  mask?: string;
+  reveal?: string;
+  showValues?: boolean;
+}
+
+const PRODUCTION_WORDS = new Set(['prod', 'prd', 'production', 'live', 'main']);
+
+/**
+ * Whether an environment name reads as production: one of its words is
+ * prod, prd, production, live or main (so prod-eu, but not preprod).
+ */
+export function isProductionEnvironment(name: string): boolean {
+  return name.toLowerCase().split(/[^a-z0-9]+/).some(word => PRODUCTION_WORDS.has(word));
+}
+
+export class PromoteEnvironmentCommand {
+  private secretsService: SecretsService;
+  private configService: ConfigService;
+  private diffService: DiffService;
+  private projectService: ProjectService;
+  private environmentService: EnvironmentService;
+
+  constructor() {
+    this.configService = new ConfigService();
+    this.secretsService = new SecretsService();
+    this.diffService = new DiffService();
+    this.projectService = new ProjectService();
+    this.environmentService = new EnvironmentService(this.configService);
+  }
+
+  register(program: Command): void {
+    program
+      .command('promote <source> <target>')
+      .description('Copy secrets from one environment to another')
+      .option('-p, --project <project>', 'Project name or ID (default: current)')
+      .option('-k, --keys <globs...>', 'Only promote keys matching these globs (e.g. "API_*")')
+      .option('-i, --interactive', 'Choose which keys to promote')
+      .option('--prune', 'Delete keys that only exist in the target')
+      .option('--auto-approve', 'Skip confirmation prompt (not for production targets)')
+      .option('--confirm <name>', 'Confirm a production target non-interactively by its name')
+      .option('--json', 'Print the promotion report as JSON')
+      .option('--report <file>', 'Write the promotion report to a JSON file')
+      .option('--mask <style>', 'How to mask values: full, partial, hash (keyed per run, so hashes only match within one run) (default: full)')
+      .option('--reveal <n>', 'Characters shown at each end with --mask partial (default: 3)')
+      .option('--show-values', 'Show secret values in clear text')
+      .action(async (source: string, target: string, options) => {
+        try {
+          await this.execute(source, target, options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(sourceRef: string, targetRef: string, options: PromoteOptions): Promise<void> {
+    const mask = resolveMaskOptions(options);
+    // Keep stdout clean for the JSON report
+    const log = options.json ? console.error : console.log;
+
+    // Resolve IDs and aliases up front so the production check sees real names
+    const project = await this.projectService.resolveProject(options.project);
+    const environments = await this.environmentService.listEnvironments(project.id);
+    const sourceEnvironment = this.findEnvironment(environments, sourceRef, project.name);
+    const targetEnvironment = this.findEnvironment(environments, targetRef, project.name);
+    if (sourceEnvironment.id === targetEnvironment.id) {
+      throw new CLIError('Source and target environments must differ', 'INVALID_ARGUMENT');
+    }
+    const source = sourceEnvironment.name;
+    const target = targetEnvironment.name;
+
+    const spinner = ora(`Fetching ${source} and ${target}...`).start();
+    let sourceSecrets: Record<string, string>;
+    let targetSecrets: Record<string, string>;
+    try {
+      [sourceSecrets, targetSecrets] = await Promise.all([
+        this.secretsService.getSecrets(project.id, sourceEnvironment.id),
+        this.secretsService.getSecrets(project.id, targetEnvironment.id)
+      ]);
+      spinner.succeed('Fetched both environments');
+    } catch (error) {
+      spinner.fail('Failed to fetch environments');
+      throw error;
+    }
+
+    // Read as "what the target gains": added/modified come from the source
+    const diff = this.diffService.compareSecrets(targetSecrets, sourceSecrets);
+    const globs = parseGlobList(options.keys);
+    const inScope = (key: string) => !isLocalOnlyKey(key) && (globs.length === 0 || matchesAnyGlob(key, globs));
+
+    const plan: DiffResult = { added: {}, modified: {}, removed: {}, localOnly: {} };
+    const skipped: string[] = [];
+    const targetOnly = [...Object.keys(diff.removed), ...Object.keys(diff.localOnly)];
+
+    for (const [key, value] of Object.entries(diff.added)) {
+      if (inScope(key)) {
+        plan.added[key] = value;
+      } else {
+        skipped.push(key);
+      }
+    }
+    for (const [key, change] of Object.entries(diff.modified)) {
+      if (inScope(key)) {
+        plan.modified[key] = change;
+      } else {
+        skipped.push(key);
+      }
+    }
+    if (options.prune) {
+      for (const key of Object.keys(diff.removed)) {
+        if (inScope(key)) {
+          plan.removed[key] = diff.removed[key];
+        }
+      }
+    }
+
+    if (options.interactive) {
+      skipped.push(...await this.selectKeys(plan));
+    }
+
+    const report: PromotionReport = {
+      project: project.name,
+      source,
+      target,
+      created: Object.keys(plan.added),
+      updated: Object.keys(plan.modified),
+      deleted: Object.keys(plan.removed),
+      skipped,
+      protected: targetOnly.filter(key => !(key in plan.removed)),
+      cancelled: false,
+      promotedAt: null
+    };
+
+    const hasChanges = report.created.length + report.updated.length + report.deleted.length > 0;
+    if (!hasChanges) {
+      log(chalk.green(`✓ Nothing to promote from ${source} to ${target}`));
+      await this.writeReport(report, options);
+      return;
+    }
+
+    log(chalk.cyan(`\nChanges to be promoted from ${source} to ${target}:`));
+    log(this.diffService.formatDiff(plan, { format: 'inline', colorize: true, mask }));
+
+    if (report.protected.length > 0) {
+      log(chalk.gray(`\nKeeping ${report.protected.length} target-only key(s): ${report.protected.join(', ')}`));
+      if (!options.prune) {
+        log(chalk.gray('Use --prune to delete them'));
+      }
+    }
+
+    const confirmed = await this.confirmPromotion(target, options);
+    if (!confirmed) {
+      log(chalk.gray('Promotion cancelled'));
+      report.cancelled = true;
+      await this.writeReport(report, options);
+      return;
+    }
+
+    const changes: SecretChanges = {
+      upsert: { ...plan.added },
+      delete: report.deleted
+    };
+    for (const [key, { new: newValue }] of Object.entries(plan.modified)) {
+      changes.upsert[key] = newValue;
+    }
+
+    const promoteSpinner = ora(`Promoting to ${target}...`).start();
+    try {
+      await this.secretsService.updateSecrets(project.id, targetEnvironment.id, changes);
+      promoteSpinner.succeed(`Promoted ${source} → ${target}`);
+    } catch (error) {
+      promoteSpinner.fail('Promotion failed');
+      throw error;
+    }
+
+    report.promotedAt = new Date().toISOString();
+    log(chalk.green(
+      `✓ Created ${report.created.length}, updated ${report.updated.length}, deleted ${report.deleted.length}`
+    ));
+    await this.writeReport(report, options);
+  }
+
+  /**
+   * Narrows the plan to the keys picked in a checkbox prompt and returns
+   * the keys left out.
+   */
+  private async selectKeys(plan: DiffResult): Promise<string[]> {
+    const choices = [
+      ...Object.keys(plan.added).map(key => ({ name: `${chalk.green('+')} ${key}`, value: key, checked: true })),
+      ...Object.keys(plan.modified).map(key => ({ name: `${chalk.yellow('~')} ${key}`, value: key, checked: true })),
+      ...Object.keys(plan.removed).map(key => ({ name: `${chalk.red('-')} ${key}`, value: key, checked: false }))
+    ];
+    if (choices.length === 0) {
+      return [];
+    }
+
+    const { keys } = await inquirer.prompt([
+      {
+        type: 'checkbox',
+        name: 'keys',
+        message: 'Select the keys to promote:',
+        choices,
+        pageSize: 15
+      }
+    ]);
+
+    const chosen = new Set<string>(keys);
+    const skipped: string[] = [];
+    for (const kind of ['added', 'modified', 'removed'] as const) {
+      for (const key of Object.keys(plan[kind])) {
+        if (!chosen.has(key)) {
+          delete plan[kind][key];
+          skipped.push(key);
+        }
+      }
+    }
+    return skipped;
+  }
+
+  /** Matches an environment by ID, then by name, then by alias (prod, stg, ...) */
+  private findEnvironment(environments: Environment[], ref: string, projectName: string): Environment {
+    const alias = this.environmentService.resolveEnvironmentAlias(ref).toLowerCase();
+    const environment = environments.find(env => env.id === ref)
+      || environments.find(env => env.name.toLowerCase() === ref.toLowerCase())
+      || environments.find(env => env.name.toLowerCase() === alias);
+    if (!environment) {
+      throw new CLIError(
+        `Environment "${ref}" not found in project "${projectName}"`,
+        'ENVIRONMENT_NOT_FOUND'
+      );
+    }
+    return environment;
+  }
+
+  /**
+   * Production targets always need the environment's name typed back, either
+   * at the prompt or through --confirm, however the target was given;
+   * --auto-approve is not enough.
+   */
+  private async confirmPromotion(target: string, options: PromoteOptions): Promise<boolean> {
+    if (isProductionEnvironment(target)) {
+      return confirmByName(target, `${target} is a production environment.`, options.confirm);
+    }
+
+    if (options.autoApprove) {
+      return true;
+    }
+
+    const { confirmed } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'confirmed',
+        message: `Promote these changes to ${target}?`,
+        default: false
+      }
+    ]);
+    return confirmed;
+  }
+
+  private async writeReport(report: PromotionReport, options: PromoteOptions): Promise<void> {
+    const json = JSON.stringify(report, null, 2);
+
+    if (options.report) {
+      await fs.writeFile(options.report, json + '\n');
+    }
+
+    if (options.json) {
+      console.log(json);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { EnvironmentService } from '../../services/environment.service';
+import { ConfigService } from '../../services/config.service';
+import { ProjectService } from '../../services/project.service';
+import { handleCommandError, CLIError } from '../../utils/errors';
+import { requireRole } from '../../utils/roles';
+
+export class RenameEnvironmentCommand {
+  private environmentService: EnvironmentService;
+  private configService: ConfigService;
+  private projectService: ProjectService;
+
+  constructor() {
+    this.configService = new ConfigService();
+    this.environmentService = new EnvironmentService(this.configService);
+    this.projectService = new ProjectService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('rename <environment> <newName>')
+      .description('Rename an environment in the current project')
+      .option('-p, --project <project>', 'Project name or ID (default: current)')
+      .action(async (environment: string, newName: string, options) => {
+        try {
+          await this.execute(environment, newName, options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(envName: string, newName: string, options: { project?: string }): Promise<void> {
+    const project = await this.projectService.resolveProject(options.project);
+    requireRole(project.user_role, 'manager', 'rename environments', `project "${project.name}"`);
+
+    const resolvedName = this.environmentService.resolveEnvironmentAlias(envName);
+    const environment = await this.environmentService.getEnvironment(project.id, resolvedName);
+    if (!environment) {
+      throw new CLIError(
+        `Environment "${envName}" not found in project "${project.name}"`,
+        'ENVIRONMENT_NOT_FOUND'
+      );
+    }
+
+    const existing = await this.environmentService.getEnvironment(project.id, newName);
+    if (existing && existing.id !== environment.id) {
+      throw new CLIError(
+        `Environment "${newName}" already exists in project "${project.name}"`,
+        'ALREADY_EXISTS'
+      );
+    }
+
+    const spinner = ora(`Renaming ${environment.name}...`).start();
+    try {
+      await this.environmentService.renameEnvironment(environment.id, newName);
+      spinner.succeed(`Renamed environment ${environment.name} → ${chalk.green(newName)}`);
+    } catch (error) {
+      spinner.fail('Failed to rename environment');
+      throw error;
+    }
+  }
+}
@@ -15,6 +15,7 @@ import { formatSecrets } from '../utils/formatters';
 import { existsSync, writeFileSync } from 'fs';
 import { resolve } from 'path';
 import { GitignoreManager } from '../utils/gitignore';
+import { PlannedWrite, planFileWrite, printDryRun } from '../utils/dry-run';
 import { Project } from '../services/project.service';
 import { Environment } from '../services/environment.service';
 
@@ -23,6 +24,7 @@ interface InitOptions {
   project?: string;
   environment?: string;
   output?: string;
+  dryRun?: boolean;
 }
 
 interface InitContext {
@@ -31,6 +33,8 @@ interface InitContext {
   selectedEnvironment?: Environment;
   envFilePath: string;
   configFilePath: string;
+  /** Set for --dry-run: writes are recorded here instead of made */
+  plan?: PlannedWrite[];
 }
 
 export class InitCommand {
@@ -82,6 +86,7 @@ export class InitCommand {
       .option('-p, --project <id>', 'project ID (for non-interactive mode)')
       .option('-e, --environment <id>', 'environment ID (for non-interactive mode)')
       .option('-o, --output <path>', 'output file path (default: .env)')
+      .option('--dry-run', 'show which files would be created or changed, without writing them')
       .action(async (options) => {
         await this.execute(options);
       });
@@ -95,7 +100,8 @@ export class InitCommand {
       const context: InitContext = {
         isAuthenticated: false,
         envFilePath: resolve(options.output || '.env'),
-        configFilePath: resolve('.ezenvrc')
+        configFilePath: resolve('.ezenvrc'),
+        plan: options.dryRun ? [] : undefined
       };
 
       // Initialize config service
@@ -132,10 +138,14 @@ export class InitCommand {
       await this.createConfigFile(context);
 
       // Step 6: Update .gitignore
-      await this.updateGitignore();
+      await this.updateGitignore(context);
 
       // Step 7: Display success message
-      this.displaySuccessMessage(context);
+      if (context.plan) {
+        printDryRun(context.plan);
+      } else {
+        this.displaySuccessMessage(context);
+      }
 
     } catch (error) {
       await handleCommandError(error);
@@ -154,7 +164,8 @@ export class InitCommand {
         return true;
       }
 
-      if (options.nonInteractive) {
+      // Logging in stores credentials, so a dry run cannot do it
+      if (options.nonInteractive || options.dryRun) {
         throw new CLIError(
           'Not authenticated. Run "ezenv auth login" first.',
           'AUTH_REQUIRED'
@@ -352,7 +363,7 @@ export class InitCommand {
     }
 
     // Check if .env exists
-    if (existsSync(context.envFilePath) && !options.nonInteractive) {
+    if (existsSync(context.envFilePath) && !options.nonInteractive && !context.plan) {
       const { shouldOverwrite } = await inquirer.prompt([
         {
           type: 'confirm',
@@ -382,6 +393,21 @@ export class InitCommand {
       spinner.text = 'Writing .env file...';
 
       const formattedContent = formatSecrets(secrets, 'env');
+
+      if (context.plan) {
+        spinner.stop();
+        const existing = await this.fileService.readFileIfExists(context.envFilePath);
+        context.plan.push(planFileWrite(context.envFilePath, existing, formattedContent));
+        if (existing !== undefined && !options.nonInteractive) {
+          context.plan.push({
+            path: this.fileService.getBackupPath(context.envFilePath),
+            action: 'create',
+            details: ['backup of the current file, made after you confirm the overwrite']
+          });
+        }
+        return;
+      }
+
       await this.fileService.writeEnvFile(formattedContent, context.envFilePath);
 
       spinner.succeed(`Secrets written to ${chalk.green(context.envFilePath)}`);
@@ -411,12 +437,19 @@ export class InitCommand {
       }
     };
 
+    const content = JSON.stringify(config, null, 2) + '\n';
+    if (context.plan) {
+      const existing = await this.fileService.readFileIfExists(context.configFilePath);
+      context.plan.push(planFileWrite(context.configFilePath, existing, content));
+      return;
+    }
+
     const spinner = ora('Creating .ezenvrc configuration...').start();
 
     try {
       writeFileSync(
         context.configFilePath,
-        JSON.stringify(config, null, 2) + '\n',
+        content,
         'utf-8'
       );
 
@@ -428,13 +461,20 @@ export class InitCommand {
     }
   }
 
-  private async updateGitignore(): Promise<void> {
+  private async updateGitignore(context: InitContext): Promise<void> {
     const gitignoreManager = new GitignoreManager();
     
     if (!gitignoreManager.exists()) {
       return; // No .gitignore, nothing to update
     }
 
+    if (context.plan) {
+      if (!gitignoreManager.hasEntry('.env')) {
+        context.plan.push({ path: resolve('.gitignore'), action: 'update', details: ['+ .env'] });
+      }
+      return;
+    }
+
     try {
       const hadEntry = gitignoreManager.hasEntry('.env');
       const success = gitignoreManager.addEntry('.env', 'EzEnv');
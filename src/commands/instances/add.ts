@@ -0,0 +1,83 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { ConfigService, isValidInstanceName } from '../../services/config.service';
+import { HOSTED_INSTANCE } from '../../config/defaults';
+import { handleCommandError, CLIError } from '../../utils/errors';
+
+interface AddInstanceOptions {
+  anonKey?: string;
+  use?: boolean;
+}
+
+export class AddInstanceCommand {
+  private configService: ConfigService;
+
+  constructor() {
+    this.configService = new ConfigService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('add <name> <url>')
+      .description('Add a self-hosted or additional EzEnv backend')
+      .option('--anon-key <key>', 'Supabase anon key of the instance (prompted if omitted)')
+      .option('--use', 'Switch to the instance after adding it')
+      .action(async (name: string, url: string, options) => {
+        try {
+          await this.execute(name, url, options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(name: string, url: string, options: AddInstanceOptions): Promise<void> {
+    if (!isValidInstanceName(name)) {
+      throw new CLIError(`Invalid instance name: ${name}`, 'INVALID_INSTANCE');
+    }
+    if (name === HOSTED_INSTANCE) {
+      throw new CLIError(`"${HOSTED_INSTANCE}" is the built-in hosted instance and cannot be changed`, 'INSTANCE_RESERVED');
+    }
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new CLIError(`Invalid URL: ${url}`, 'INVALID_URL');
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw new CLIError(`Instance URL must use http or https: ${url}`, 'INVALID_URL');
+    }
+
+    let anonKey = options.anonKey;
+    if (!anonKey) {
+      const answer = await inquirer.prompt([
+        {
+          type: 'password',
+          name: 'anonKey',
+          message: 'Anon key:',
+          mask: '*',
+          validate: (input: string) => input.trim().length > 0 || 'The anon key is required'
+        }
+      ]);
+      anonKey = answer.anonKey as string;
+    }
+
+    await this.configService.init();
+    const existed = !!this.configService.getInstance(name);
+    await this.configService.addInstance(name, {
+      url: parsed.toString().replace(/\/$/, ''),
+      anonKey: anonKey.trim()
+    });
+    console.log(chalk.green(`✓ ${existed ? 'Updated' : 'Added'} instance ${name} (${parsed.origin})`));
+
+    if (options.use) {
+      await this.configService.setActiveInstance(name);
+      console.log(chalk.green(`✓ Switched to instance ${name}`));
+    } else {
+      console.log(chalk.gray(`Run "ezenv instances use ${name}" to use it by default`));
+    }
+    console.log(chalk.gray(`Log in with "ezenv auth login --instance ${name}"`));
+  }
+}
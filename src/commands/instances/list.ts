@@ -0,0 +1,69 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { ConfigService, InstanceSource } from '../../services/config.service';
+import { getSupabaseConfig, HOSTED_INSTANCE } from '../../config/defaults';
+import { handleCommandError } from '../../utils/errors';
+
+const SOURCE_LABELS: Record<InstanceSource, string> = {
+  flag: '--instance',
+  env: 'EZENV_INSTANCE',
+  ezenvrc: '.ezenvrc',
+  active: 'instances use'
+};
+
+export class ListInstancesCommand {
+  private configService: ConfigService;
+
+  constructor() {
+    this.configService = new ConfigService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('list')
+      .alias('ls')
+      .description('List configured backend instances')
+      .option('--json', 'Output in JSON format')
+      .action(async (options) => {
+        try {
+          await this.execute(options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(options: { json?: boolean }): Promise<void> {
+    await this.configService.init();
+    // The instance in use for this run, including --instance
+    const { instance: selected, url: activeUrl, isUsingHosted } = getSupabaseConfig();
+    const active = selected ?? (isUsingHosted ? HOSTED_INSTANCE : undefined);
+    const instances = this.configService.listInstances().map(({ name, url }) => ({
+      name,
+      url,
+      active: name === active
+    }));
+
+    if (options.json) {
+      console.log(JSON.stringify(instances, null, 2));
+      return;
+    }
+
+    console.log(chalk.cyan('\n🌐 Instances\n'));
+    for (const instance of instances) {
+      const arrow = instance.active ? chalk.green('→') : ' ';
+      const name = instance.active ? chalk.green(instance.name) : chalk.white(instance.name);
+      console.log(`${arrow} ${name}  ${chalk.gray(instance.url)}`);
+    }
+
+    if (!selected) {
+      if (!isUsingHosted) {
+        console.log(chalk.gray(`\nUsing SUPABASE_URL from the environment: ${activeUrl}`));
+      }
+      return;
+    }
+    const resolved = this.configService.resolveInstance();
+    const source = resolved && resolved.name === selected ? resolved.source : 'flag';
+    console.log(chalk.gray(`\nActive instance selected by ${SOURCE_LABELS[source]}`));
+  }
+}
@@ -0,0 +1,56 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { AuthService, Environment } from '../../services/auth.service';
+import { CredentialService } from '../../services/credential.service';
+import { ConfigService } from '../../services/config.service';
+import { HOSTED_INSTANCE } from '../../config/defaults';
+import { handleCommandError, CLIError } from '../../utils/errors';
+
+const AUTH_ENVIRONMENTS: Environment[] = ['development', 'staging', 'production'];
+
+export class RemoveInstanceCommand {
+  private configService: ConfigService;
+
+  constructor() {
+    this.configService = new ConfigService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('remove <name>')
+      .alias('rm')
+      .description('Remove a backend instance and the credentials stored for it')
+      .action(async (name: string) => {
+        try {
+          await this.execute(name);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(name: string): Promise<void> {
+    if (name === HOSTED_INSTANCE) {
+      throw new CLIError(`"${HOSTED_INSTANCE}" is the built-in hosted instance and cannot be removed`, 'INSTANCE_RESERVED');
+    }
+
+    await this.configService.init();
+    if (!this.configService.getInstance(name)) {
+      throw new CLIError(`Unknown instance "${name}"`, 'INSTANCE_NOT_FOUND');
+    }
+
+    // Tokens are scoped per instance, so log out of every profile on it
+    const authService = new AuthService(CredentialService.getInstance());
+    authService.setInstance(name);
+    for (const profile of this.configService.listProfiles()) {
+      authService.setProfile(profile);
+      for (const environment of AUTH_ENVIRONMENTS) {
+        authService.setEnvironment(environment);
+        await authService.logout();
+      }
+    }
+
+    await this.configService.removeInstance(name);
+    console.log(chalk.green(`✓ Removed instance ${name}`));
+  }
+}
@@ -0,0 +1,51 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { ConfigService } from '../../services/config.service';
+import { handleCommandError, CLIError } from '../../utils/errors';
+
+export class UseInstanceCommand {
+  private configService: ConfigService;
+
+  constructor() {
+    this.configService = new ConfigService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('use <name>')
+      .description('Switch the backend instance used by default')
+      .option('--pin', 'Pin the instance for this project in .ezenvrc instead')
+      .action(async (name: string, options) => {
+        try {
+          await this.execute(name, options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(name: string, options: { pin?: boolean }): Promise<void> {
+    await this.configService.init();
+    if (!this.configService.getInstance(name)) {
+      throw new CLIError(
+        `Unknown instance "${name}". Run "ezenv instances list" to see the available instances`,
+        'INSTANCE_NOT_FOUND'
+      );
+    }
+
+    if (options.pin) {
+      await this.configService.pinInstance(name);
+      console.log(chalk.green(`✓ Pinned instance ${name} in .ezenvrc`));
+      return;
+    }
+
+    await this.configService.setActiveInstance(name);
+    console.log(chalk.green(`✓ Switched to instance ${name}`));
+
+    const resolved = this.configService.resolveInstance();
+    if (resolved && resolved.name !== name) {
+      const overriddenBy = resolved.source === 'env' ? 'EZENV_INSTANCE' : '.ezenvrc in this directory';
+      console.log(chalk.yellow(`Note: ${overriddenBy} selects instance ${resolved.name} here`));
+    }
+  }
+}
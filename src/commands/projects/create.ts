@@ -0,0 +1,103 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import inquirer from 'inquirer';
+import { ProjectService, Team } from '../../services/project.service';
+import { ConfigService } from '../../services/config.service';
+import { handleCommandError, CLIError } from '../../utils/errors';
+import { requireRole } from '../../utils/roles';
+
+interface CreateProjectOptions {
+  team?: string;
+  select?: boolean;
+}
+
+export class CreateProjectCommand {
+  private projectService: ProjectService;
+  private configService: ConfigService;
+
+  constructor() {
+    this.projectService = new ProjectService();
+    this.configService = new ConfigService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('create <name>')
+      .description('Create a new project in one of your teams')
+      .option('-t, --team <team>', 'Team name or ID (prompted if you belong to several)')
+      .option('--select', 'Select the new project afterwards')
+      .action(async (name: string, options) => {
+        try {
+          await this.execute(name, options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(name: string, options: CreateProjectOptions): Promise<void> {
+    const spinner = ora('Fetching teams...').start();
+    let teams: Team[];
+    try {
+      teams = await this.projectService.listTeams();
+      spinner.stop();
+    } catch (error) {
+      spinner.fail('Failed to fetch teams');
+      throw error;
+    }
+
+    const team = await this.pickTeam(teams, options.team);
+    requireRole(team.role, 'admin', 'create projects', `team "${team.name}"`);
+
+    const createSpinner = ora(`Creating project ${name}...`).start();
+    let projectId: string;
+    try {
+      const project = await this.projectService.createProject(name, team);
+      projectId = project.id;
+      createSpinner.succeed(`Created project ${chalk.green(project.name)} in team ${team.name}`);
+    } catch (error) {
+      createSpinner.fail('Failed to create project');
+      throw error;
+    }
+
+    if (options.select) {
+      await this.configService.init();
+      await this.configService.setSelectedProject(projectId);
+      await this.configService.clearSelectedEnvironment();
+      console.log(chalk.cyan('\nNext: Run "ezenv env create <name>" to add an environment'));
+    } else {
+      console.log(chalk.cyan(`\nNext: Run "ezenv projects select ${name}" to start using it`));
+    }
+  }
+
+  private async pickTeam(teams: Team[], requested?: string): Promise<Team> {
+    if (teams.length === 0) {
+      throw new CLIError('You are not a member of any team', 'NO_TEAMS');
+    }
+
+    if (requested) {
+      const team = teams.find(t => t.id === requested || t.name.toLowerCase() === requested.toLowerCase());
+      if (!team) {
+        throw new CLIError(`Team "${requested}" not found`, 'NOT_FOUND', {
+          available: teams.map(t => t.name)
+        });
+      }
+      return team;
+    }
+
+    if (teams.length === 1) {
+      return teams[0];
+    }
+
+    const { teamId } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'teamId',
+        message: 'Create the project in which team?',
+        choices: teams.map(t => ({ name: `${t.name} ${chalk.gray(`(${t.role})`)}`, value: t.id, short: t.name }))
+      }
+    ]);
+    return teams.find(t => t.id === teamId) as Team;
+  }
+}
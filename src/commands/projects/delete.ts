@@ -0,0 +1,63 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { ProjectService } from '../../services/project.service';
+import { ConfigService } from '../../services/config.service';
+import { handleCommandError } from '../../utils/errors';
+import { requireRole } from '../../utils/roles';
+import { confirmByName } from '../../utils/confirm';
+
+export class DeleteProjectCommand {
+  private projectService: ProjectService;
+  private configService: ConfigService;
+
+  constructor() {
+    this.projectService = new ProjectService();
+    this.configService = new ConfigService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('delete <project>')
+      .description('Delete a project with all its environments and secrets (admins only)')
+      .option('--confirm <name>', 'Confirm non-interactively by typing the project name')
+      .action(async (project: string, options) => {
+        try {
+          await this.execute(project, options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(nameOrId: string, options: { confirm?: string }): Promise<void> {
+    const project = await this.projectService.findProject(nameOrId);
+    requireRole(project.user_role, 'admin', 'delete it', `project "${project.name}"`);
+
+    const confirmed = await confirmByName(
+      project.name,
+      'This permanently deletes the project, its environments and secrets.',
+      options.confirm
+    );
+    if (!confirmed) {
+      console.log(chalk.gray('Deletion cancelled'));
+      return;
+    }
+
+    const spinner = ora(`Deleting ${project.name}...`).start();
+    try {
+      await this.projectService.deleteProject(project.id);
+      spinner.succeed(`Deleted project ${project.name}`);
+    } catch (error) {
+      spinner.fail('Failed to delete project');
+      throw error;
+    }
+
+    await this.configService.init();
+    if (this.configService.getSelectedProject() === project.id) {
+      await this.configService.setSelectedProject('');
+      await this.configService.clearSelectedEnvironment();
+      console.log(chalk.gray('Cleared the project selection'));
+    }
+  }
+}
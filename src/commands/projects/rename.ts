@@ -0,0 +1,41 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { ProjectService } from '../../services/project.service';
+import { handleCommandError } from '../../utils/errors';
+import { requireRole } from '../../utils/roles';
+
+export class RenameProjectCommand {
+  private projectService: ProjectService;
+
+  constructor() {
+    this.projectService = new ProjectService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('rename <project> <newName>')
+      .description('Rename a project (admins only)')
+      .action(async (project: string, newName: string) => {
+        try {
+          await this.execute(project, newName);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(nameOrId: string, newName: string): Promise<void> {
+    const project = await this.projectService.findProject(nameOrId);
+    requireRole(project.user_role, 'admin', 'rename it', `project "${project.name}"`);
+
+    const spinner = ora(`Renaming ${project.name}...`).start();
+    try {
+      await this.projectService.renameProject(project.id, newName);
+      spinner.succeed(`Renamed project ${project.name} → ${chalk.green(newName)}`);
+    } catch (error) {
+      spinner.fail('Failed to rename project');
+      throw error;
+    }
+  }
+}
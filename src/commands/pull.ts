@@ -9,11 +9,23 @@ import { ProjectService } from '../services/project.service';
 import { EnvironmentService } from '../services/environment.service';
 import { FileService } from '../services/file.service';
 import { handleCommandError, CLIError } from '../utils/errors';
-import { formatSecrets, OutputFormat } from '../utils/formatters';
+import { formatSecrets, OutputFormat, OUTPUT_FORMATS, resolveShellFormat } from '../utils/formatters';
+import { PlannedWrite, planFileWrite, printDryRun } from '../utils/dry-run';
+import { collectOption } from '../utils/glob';
+import { applyKeyRules, describeKeyRules, hasKeyRules, KeyRuleOptions, resolveKeyRules } from '../utils/key-rules';
 import { existsSync } from 'fs';
 import { resolve } from 'path';
 import inquirer from 'inquirer';
 
+/** Lowercase DNS-1123 name from free-form project/environment names */
+function toKubernetesName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, 253)
+    .replace(/^-+|-+$/g, '') || 'ezenv-secrets';
+}
+
 export class PullCommand {
   private secretsService: SecretsService;
   private configService: ConfigService;
@@ -35,19 +47,35 @@ export class PullCommand {
     program
       .command('pull')
       .description('Download environment variables for current project/environment')
-      .option('-o, --output <path>', 'output file path (default: .env)')
-      .option('-f, --format <format>', 'output format: env, json, yaml, export (default: env)')
+      .option('-o, --output <path>', 'output file path, or - for stdout (default: .env)')
+      .option('-f, --format <format>', `output format: ${OUTPUT_FORMATS.join(', ')} (default: env)`)
+      .option('--shell <shell>', 'output for a shell instead of --format: auto (from $SHELL), bash, zsh, sh, fish, powershell, nushell')
+      .option('--name <name>', 'metadata.name for k8s-secret/k8s-configmap (default: <project>-<environment>)')
+      .option('--namespace <namespace>', 'metadata.namespace for k8s-secret/k8s-configmap')
       .option('--force', 'skip overwrite confirmation')
+      .option('--dry-run', 'show which file would be written and how, without writing it')
+      .option('--only <glob>', 'only write keys matching the glob (repeatable)', collectOption)
+      .option('--exclude <glob>', 'leave out keys matching the glob (repeatable)', collectOption)
+      .option('--strip-prefix <prefix>', 'remove a prefix from key names, e.g. NEXT_PUBLIC_')
+      .option('--add-prefix <prefix>', 'add a prefix to key names')
       .action(async (options) => {
         await this.execute(options);
       });
   }
 
-  private async execute(options: {
+  private async execute(options: KeyRuleOptions & {
     output?: string;
     format?: string;
+    shell?: string;
+    name?: string;
+    namespace?: string;
     force?: boolean;
+    dryRun?: boolean;
   }): Promise<void> {
+    // With -o -, stdout carries only the secrets; status lines go to stderr
+    const toStdout = options.output === '-';
+    const log = toStdout ? console.error : console.log;
+
     try {
       // Initialize config
       await this.configService.init();
@@ -81,72 +109,107 @@ export class PullCommand {
       }
       
       // Show current context
-      console.log(chalk.cyan('Current context:'));
-      console.log(chalk.gray(`  Project: ${project.name}`));
-      console.log(chalk.gray(`  Environment: ${environment.name}\n`));
+      log(chalk.cyan('Current context:'));
+      log(chalk.gray(`  Project: ${project.name}`));
+      log(chalk.gray(`  Environment: ${environment.name}\n`));
 
       // Determine output path
-      const outputPath = resolve(options.output || '.env');
+      const outputPath = toStdout ? '-' : resolve(options.output || '.env');
+      const keyRules = resolveKeyRules(options, toStdout ? {} : this.configService.getOutputRules(outputPath));
+      if (hasKeyRules(keyRules)) {
+        log(chalk.gray(`Keys: ${describeKeyRules(keyRules)}`));
+      }
       
       // Validate format
-      const format = (options.format || 'env') as OutputFormat;
-      const validFormats: OutputFormat[] = ['env', 'json', 'yaml', 'export'];
-      if (!validFormats.includes(format)) {
+      if (options.format && options.shell) {
+        throw new CLIError('Use either --format or --shell, not both', 'INVALID_OPTION');
+      }
+      const format = options.shell
+        ? resolveShellFormat(options.shell)
+        : (options.format || 'env') as OutputFormat;
+      if (!OUTPUT_FORMATS.includes(format)) {
         throw new CLIError(
           `Invalid format: ${format}`,
           'INVALID_FORMAT',
-          { validFormats }
+          { validFormats: OUTPUT_FORMATS }
         );
       }
 
-      // Check file permissions
-      const hasWritePermission = await this.fileService.checkWritePermission(outputPath);
-      if (!hasWritePermission) {
-        throw new CLIError(
-          `No write permission for: ${outputPath}`,
-          'NO_WRITE_PERMISSION'
-        );
-      }
+      if (!toStdout && !options.dryRun) {
+        // Check file permissions
+        const hasWritePermission = await this.fileService.checkWritePermission(outputPath);
+        if (!hasWritePermission) {
+          throw new CLIError(
+            `No write permission for: ${outputPath}`,
+            'NO_WRITE_PERMISSION'
+          );
+        }
+
+        // Check if file exists and handle overwrite
+        if (existsSync(outputPath) && !options.force) {
+          const { confirmOverwrite } = await inquirer.prompt([
+            {
+              type: 'confirm',
+              name: 'confirmOverwrite',
+              message: `File ${chalk.yellow(outputPath)} already exists. Overwrite?`,
+              default: false
+            }
+          ]);
 
-      // Check if file exists and handle overwrite
-      if (existsSync(outputPath) && !options.force) {
-        const { confirmOverwrite } = await inquirer.prompt([
-          {
-            type: 'confirm',
-            name: 'confirmOverwrite',
-            message: `File ${chalk.yellow(outputPath)} already exists. Overwrite?`,
-            default: false
+          if (!confirmOverwrite) {
+            console.log(chalk.yellow('Pull cancelled.'));
+            return;
           }
-        ]);
 
-        if (!confirmOverwrite) {
-          console.log(chalk.yellow('Pull cancelled.'));
-          return;
+          // Create backup
+          await this.fileService.backupFile(outputPath);
         }
-
-        // Create backup
-        await this.fileService.backupFile(outputPath);
       }
 
-      // Fetch secrets
+      // Fetch secrets (ora draws on stderr)
       const spinner = ora('Fetching secrets...').start();
       
-      const secrets = await this.secretsService.getSecrets(
-        projectId,
-        environmentId
+      const secrets = applyKeyRules(
+        await this.secretsService.getSecrets(projectId, environmentId),
+        keyRules
       );
 
       spinner.text = 'Writing secrets to file...';
 
       // Format and write secrets
-      const formattedContent = formatSecrets(secrets, format);
+      let formattedContent: string;
+      try {
+        formattedContent = formatSecrets(secrets, format, {
+          name: options.name || toKubernetesName(`${project.name}-${environment.name}`),
+          namespace: options.namespace
+        });
+      } catch (error) {
+        spinner.fail(`Cannot write secrets as ${format}`);
+        throw error;
+      }
+
+      const secretCount = Object.keys(secrets).length;
+      const variables = `${secretCount} environment variable${secretCount === 1 ? '' : 's'}`;
+
+      if (options.dryRun) {
+        spinner.stop();
+        await this.printPlan(outputPath, formattedContent, variables, format, options.force, log);
+        return;
+      }
+
+      if (toStdout) {
+        spinner.stop();
+        process.stdout.write(formattedContent && !formattedContent.endsWith('\n') ? `${formattedContent}\n` : formattedContent);
+        log(chalk.gray(`✓ Wrote ${variables} as ${format} to stdout`));
+        return;
+      }
+
       await this.fileService.writeEnvFile(formattedContent, outputPath);
 
       spinner.succeed('Secrets downloaded successfully!');
       
       // Display summary
-      const secretCount = Object.keys(secrets).length;
-      console.log(chalk.green(`\n✓ Downloaded ${secretCount} environment variable${secretCount === 1 ? '' : 's'}`));
+      console.log(chalk.green(`\n✓ Downloaded ${variables}`));
       console.log(chalk.gray(`  File: ${outputPath}`));
       console.log(chalk.gray(`  Format: ${format}`));
       
@@ -154,4 +217,30 @@ export class PullCommand {
       await handleCommandError(error);
     }
   }
-}
\ No newline at end of file
+
+  private async printPlan(
+    outputPath: string,
+    content: string,
+    variables: string,
+    format: OutputFormat,
+    force: boolean | undefined,
+    log: (message: string) => void
+  ): Promise<void> {
+    if (outputPath === '-') {
+      log(chalk.cyan(`Dry run: would write ${variables} as ${format} to stdout`));
+      return;
+    }
+
+    const existing = await this.fileService.readFileIfExists(outputPath);
+    const plan: PlannedWrite[] = [planFileWrite(outputPath, existing, content)];
+    if (existing !== undefined && !force) {
+      plan.push({
+        path: this.fileService.getBackupPath(outputPath),
+        action: 'create',
+        details: ['backup of the current file, made after you confirm the overwrite']
+      });
+    }
+    printDryRun(plan, log);
+    log(chalk.gray(`  ${variables}, format ${format}`));
+  }
+}
@@ -0,0 +1,190 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import * as readline from 'readline';
+import { APIService } from '../services/api.service';
+import { FileService } from '../services/file.service';
+import { DiffService, isLocalOnlyKey } from '../services/diff.service';
+import { ConfigService } from '../services/config.service';
+import { SecretsService, SecretChanges } from '../services/secrets.service';
+import { CredentialService } from '../services/credential.service';
+import { resolveMaskOptions } from '../utils/mask';
+import { handleCommandError } from '../utils/errors';
+import { DiffOptions, DiffResult } from '../types';
+
+export class PushCommand {
+  private apiService: APIService;
+  private fileService: FileService;
+  private diffService: DiffService;
+  private configService: ConfigService;
+  private secretsService: SecretsService;
+  private credentialService: CredentialService;
+
+  constructor() {
+    this.credentialService = CredentialService.getInstance();
+    this.configService = new ConfigService();
+    this.apiService = new APIService(this.credentialService, this.configService);
+    this.fileService = new FileService();
+    this.diffService = new DiffService();
+    this.secretsService = new SecretsService(this.apiService);
+  }
+
+  register(program: Command): void {
+    program
+      .command('push')
+      .description('Upload local environment variable changes to the remote environment')
+      .option('--auto-approve', 'Skip confirmation prompt')
+      .option('-e, --env <environment>', 'Environment to push to (default: current)')
+      .option('--no-delete', 'Keep remote variables that are missing locally')
+      .option('--mask <style>', 'How to mask values: full, partial, hash (keyed per run, so hashes only match within one run) (default: full)')
+      .option('--reveal <n>', 'Characters shown at each end with --mask partial (default: 3)')
+      .option('--show-values', 'Show secret values in clear text')
+      .action(async (options) => {
+        await this.execute(options);
+      });
+  }
+
+  private async execute(options: {
+    autoApprove?: boolean;
+    env?: string;
+    delete: boolean;
+    mask?: string;
+    reveal?: string;
+    showValues?: boolean;
+  }): Promise<void> {
+    try {
+      const mask = resolveMaskOptions(options);
+      await this.configService.init();
+
+      const projectId = this.configService.getSelectedProject();
+      const environmentId = options.env || this.configService.getSelectedEnvironment();
+
+      if (!projectId) {
+        console.error(chalk.red('No project selected'));
+        console.log(chalk.cyan('Run "ezenv projects select" to choose a project'));
+        process.exit(1);
+      }
+
+      if (!environmentId) {
+        console.error(chalk.red('No environment selected'));
+        console.log(chalk.cyan('Run "ezenv env select" to choose an environment'));
+        process.exit(1);
+      }
+
+      const spinner = ora(`Fetching secrets...`).start();
+
+      try {
+        const remoteSecrets = await this.secretsService.getSecrets(projectId, environmentId);
+        spinner.succeed('Fetched remote secrets');
+
+        const localPath = await this.fileService.getEnvPath();
+        const localSecrets = await this.fileService.readEnvFile(localPath);
+
+        // Reverse direction: the local file is the source of truth
+        const diffResult = this.planPush(
+          this.diffService.compareSecrets(remoteSecrets, localSecrets),
+          options.delete
+        );
+
+        const hasChanges =
+          Object.keys(diffResult.added).length > 0 ||
+          Object.keys(diffResult.modified).length > 0 ||
+          Object.keys(diffResult.removed).length > 0;
+
+        if (!hasChanges) {
+          console.log(chalk.green('✓ Remote environment is already up to date'));
+          return;
+        }
+
+        console.log(chalk.cyan('\nChanges to be pushed:'));
+        const diffOptions: DiffOptions = {
+          format: 'inline',
+          colorize: true,
+          mask
+        };
+        const formatted = this.diffService.formatDiff(diffResult, diffOptions);
+        if (formatted) {
+          console.log(formatted);
+        }
+
+        const skippedLocal = Object.keys(localSecrets).filter(isLocalOnlyKey);
+        if (skippedLocal.length > 0) {
+          console.log(chalk.yellow(`\n⚠ ${skippedLocal.length} local-only variable(s) will not be pushed`));
+        }
+
+        if (!options.autoApprove) {
+          const confirmed = await this.promptConfirmation();
+          if (!confirmed) {
+            console.log(chalk.gray('Push cancelled'));
+            return;
+          }
+        }
+
+        const changes: SecretChanges = {
+          upsert: { ...diffResult.added },
+          delete: Object.keys(diffResult.removed)
+        };
+        for (const [key, { new: newValue }] of Object.entries(diffResult.modified)) {
+          changes.upsert[key] = newValue;
+        }
+
+        const pushSpinner = ora('Pushing changes...').start();
+        await this.secretsService.updateSecrets(projectId, environmentId, changes);
+        pushSpinner.succeed('Changes pushed successfully');
+
+        console.log(chalk.green(
+          `✓ Created ${Object.keys(diffResult.added).length}, ` +
+          `updated ${Object.keys(diffResult.modified).length}, ` +
+          `deleted ${Object.keys(diffResult.removed).length}`
+        ));
+      } catch (error) {
+        spinner.fail('Push failed');
+        throw error;
+      }
+    } catch (error) {
+      await handleCommandError(error);
+    }
+  }
+
+  /**
+   * Drops local-only variables from a reversed diff so they never reach the
+   * remote, and optionally keeps remote-only variables instead of deleting them.
+   */
+  private planPush(diff: DiffResult, allowDelete: boolean): DiffResult {
+    const added: Record<string, string> = {};
+    const modified: Record<string, { old: string; new: string }> = {};
+    const removed: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(diff.added)) {
+      if (!isLocalOnlyKey(key)) {
+        added[key] = value;
+      }
+    }
+
+    for (const [key, change] of Object.entries(diff.modified)) {
+      if (!isLocalOnlyKey(key)) {
+        modified[key] = change;
+      }
+    }
+
+    if (allowDelete) {
+      Object.assign(removed, diff.removed);
+    }
+
+    return { added, modified, removed, localOnly: {} };
+  }
+
+  private async promptConfirmation(): Promise<boolean> {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout
+    });
+
+    return new Promise((resolve) => {
+      rl.question(chalk.cyan('\nPush these changes? (yes/no): '), (answer) => {
+        rl.close();
+        resolve(answer.toLowerCase() === 'yes' || answer.toLowerCase() === 'y');
+      });
+    });
+  }
+}
@@ -0,0 +1,160 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { spawn } from 'child_process';
+import { existsSync } from 'fs';
+import { constants } from 'os';
+import { APIService } from '../services/api.service';
+import { FileService } from '../services/file.service';
+import { isLocalOnlyKey } from '../services/diff.service';
+import { ConfigService } from '../services/config.service';
+import { SecretsService } from '../services/secrets.service';
+import { CredentialService } from '../services/credential.service';
+import { logger } from '../utils/logger';
+import { handleCommandError } from '../utils/errors';
+
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+
+export class RunCommand {
+  private apiService: APIService;
+  private fileService: FileService;
+  private configService: ConfigService;
+  private secretsService: SecretsService;
+  private credentialService: CredentialService;
+
+  constructor() {
+    this.credentialService = CredentialService.getInstance();
+    this.configService = new ConfigService();
+    this.apiService = new APIService(this.credentialService, this.configService);
+    this.fileService = new FileService();
+    this.secretsService = new SecretsService(this.apiService);
+  }
+
+  register(program: Command): void {
+    program
+      .command('run')
+      .description('Run a command with remote secrets injected into its environment')
+      .argument('<command...>', 'command to run (use -- to separate it from ezenv options)')
+      .option('-e, --env <environment>', 'Environment to load (default: current)')
+      .option('--local-overrides', 'Let local-only variables (LOCAL_*, *_LOCAL) from .env take precedence')
+      .action(async (command: string[], options) => {
+        await this.execute(command, options);
+      });
+  }
+
+  private async execute(
+    command: string[],
+    options: {
+      env?: string;
+      localOverrides?: boolean;
+    }
+  ): Promise<void> {
+    let childEnv: NodeJS.ProcessEnv;
+
+    try {
+      await this.configService.init();
+
+      const projectId = this.configService.getSelectedProject();
+      const environmentId = options.env || this.configService.getSelectedEnvironment();
+
+      if (!projectId) {
+        console.error(chalk.red('No project selected'));
+        console.error(chalk.cyan('Run "ezenv projects select" to choose a project'));
+        process.exit(1);
+      }
+
+      if (!environmentId) {
+        console.error(chalk.red('No environment selected'));
+        console.error(chalk.cyan('Run "ezenv env select" to choose an environment'));
+        process.exit(1);
+      }
+
+      const spinner = ora('Fetching secrets...').start();
+
+      try {
+        const remoteSecrets = await this.secretsService.getSecrets(projectId, environmentId);
+        spinner.stop();
+
+        const localOverrides = options.localOverrides
+          ? await this.getLocalOverrides()
+          : {};
+
+        childEnv = {
+          ...process.env,
+          ...remoteSecrets,
+          ...localOverrides
+        };
+
+        logger.debug('Injecting secrets into child process', {
+          count: Object.keys(remoteSecrets).length,
+          localOverrides: Object.keys(localOverrides).length
+        });
+      } catch (error) {
+        spinner.fail('Failed to fetch secrets');
+        throw error;
+      }
+    } catch (error) {
+      await handleCommandError(error);
+      return;
+    }
+
+    const exitCode = await this.spawnChild(command, childEnv);
+    process.exit(exitCode);
+  }
+
+  /** Every LOCAL_* and *_LOCAL entry in .env, including ones that also exist remotely */
+  private async getLocalOverrides(): Promise<Record<string, string>> {
+    const localPath = await this.fileService.getEnvPath();
+    if (!existsSync(localPath)) {
+      return {};
+    }
+
+    const localSecrets = await this.fileService.readEnvFile(localPath);
+    return Object.fromEntries(Object.entries(localSecrets).filter(([key]) => isLocalOnlyKey(key)));
+  }
+
+  private spawnChild(command: string[], env: NodeJS.ProcessEnv): Promise<number> {
+    const [file, ...args] = command;
+
+    return new Promise((resolve) => {
+      const child = spawn(file, args, {
+        env,
+        stdio: 'inherit',
+        // Windows needs a shell to resolve .cmd/.bat shims such as npm
+        shell: process.platform === 'win32'
+      });
+
+      const forward = (signal: NodeJS.Signals) => {
+        child.kill(signal);
+      };
+      for (const signal of FORWARDED_SIGNALS) {
+        process.on(signal, forward);
+      }
+      const cleanup = () => {
+        for (const signal of FORWARDED_SIGNALS) {
+          process.removeListener(signal, forward);
+        }
+      };
+
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        cleanup();
+        if (error.code === 'ENOENT') {
+          console.error(chalk.red(`Error: Command not found: ${file}`));
+        } else {
+          console.error(chalk.red(`Error: Failed to start command: ${error.message}`));
+        }
+        resolve(127);
+      });
+
+      child.on('exit', (code, signal) => {
+        cleanup();
+        if (signal) {
+          // Mirror shell semantics: 128 + signal number
+          resolve(128 + (constants.signals[signal] || 0));
+          return;
+        }
+        resolve(code ?? 1);
+      });
+    });
+  }
+}
@@ -0,0 +1,48 @@
+import { Command } from 'commander';
+import { SecretsService } from '../../services/secrets.service';
+import { ConfigService } from '../../services/config.service';
+import { handleCommandError, CLIError } from '../../utils/errors';
+import { resolveSecretsTarget } from './target';
+
+export class GetSecretCommand {
+  private secretsService: SecretsService;
+  private configService: ConfigService;
+
+  constructor() {
+    this.configService = new ConfigService();
+    this.secretsService = new SecretsService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('get <key>')
+      .description('Print the raw value of a single secret')
+      .option('-p, --project <project>', 'Project name or ID (default: current)')
+      .option('-e, --env <environment>', 'Environment name or ID (default: current)')
+      .action(async (key: string, options) => {
+        try {
+          await this.execute(key, options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(
+    key: string,
+    options: { project?: string; env?: string }
+  ): Promise<void> {
+    const target = await resolveSecretsTarget(this.configService, options);
+    const secrets = await this.secretsService.getSecrets(target.project, target.environment);
+
+    if (!(key in secrets)) {
+      throw new CLIError(`Secret "${key}" not found`, 'SECRET_NOT_FOUND');
+    }
+
+    // Raw value only, so it can be captured with $(ezenv secrets get KEY)
+    process.stdout.write(secrets[key]);
+    if (process.stdout.isTTY) {
+      process.stdout.write('\n');
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { Command } from 'commander';
+import ora from 'ora';
+import { SecretsService } from '../../services/secrets.service';
+import { ConfigService } from '../../services/config.service';
+import { handleCommandError } from '../../utils/errors';
+import { resolveSecretsTarget } from './target';
+
+export class ListSecretsCommand {
+  private secretsService: SecretsService;
+  private configService: ConfigService;
+
+  constructor() {
+    this.configService = new ConfigService();
+    this.secretsService = new SecretsService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('list')
+      .alias('ls')
+      .description('List secret names in the selected environment')
+      .option('-p, --project <project>', 'Project name or ID (default: current)')
+      .option('-e, --env <environment>', 'Environment name or ID (default: current)')
+      .option('--reveal', 'Show secret values')
+      .option('--json', 'Output in JSON format')
+      .action(async (options) => {
+        try {
+          await this.execute(options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(options: {
+    project?: string;
+    env?: string;
+    reveal?: boolean;
+    json?: boolean;
+  }): Promise<void> {
+    const target = await resolveSecretsTarget(this.configService, options);
+
+    const spinner = ora('Fetching secrets...').start();
+    let secrets: Record<string, string>;
+    try {
+      secrets = await this.secretsService.getSecrets(target.project, target.environment);
+      spinner.stop();
+    } catch (error) {
+      spinner.fail('Failed to fetch secrets');
+      throw error;
+    }
+
+    const keys = Object.keys(secrets);
+
+    if (options.json) {
+      console.log(JSON.stringify(options.reveal ? secrets : keys, null, 2));
+      return;
+    }
+
+    for (const key of keys) {
+      console.log(options.reveal ? `${key}=${secrets[key]}` : key);
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { promises as fs } from 'fs';
+import { SecretsService } from '../../services/secrets.service';
+import { ConfigService } from '../../services/config.service';
+import { handleCommandError, CLIError } from '../../utils/errors';
+import { resolveSecretsTarget, validateSecretKey } from './target';
+
+export class SetSecretCommand {
+  private secretsService: SecretsService;
+  private configService: ConfigService;
+
+  constructor() {
+    this.configService = new ConfigService();
+    this.secretsService = new SecretsService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('set <assignment>')
+      .description('Create or update a secret (KEY=VALUE, or KEY with the value from stdin or --from-file)')
+      .option('-p, --project <project>', 'Project name or ID (default: current)')
+      .option('-e, --env <environment>', 'Environment name or ID (default: current)')
+      .option('--from-file <path>', 'Read the value from a file')
+      .action(async (assignment: string, options) => {
+        try {
+          await this.execute(assignment, options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(
+    assignment: string,
+    options: { project?: string; env?: string; fromFile?: string }
+  ): Promise<void> {
+    const { key, value } = await this.parseAssignment(assignment, options.fromFile);
+    validateSecretKey(key);
+
+    const target = await resolveSecretsTarget(this.configService, options);
+
+    const spinner = ora(`Setting ${key}...`).start();
+    try {
+      await this.secretsService.updateSecrets(target.project, target.environment, {
+        upsert: { [key]: value },
+        delete: []
+      });
+      spinner.succeed(`Set ${chalk.green(key)}`);
+    } catch (error) {
+      spinner.fail(`Failed to set ${key}`);
+      throw error;
+    }
+  }
+
+  private async parseAssignment(
+    assignment: string,
+    fromFile?: string
+  ): Promise<{ key: string; value: string }> {
+    const separator = assignment.indexOf('=');
+
+    if (separator !== -1) {
+      if (fromFile) {
+        throw new CLIError('Use either KEY=VALUE or --from-file, not both', 'INVALID_ARGUMENTS');
+      }
+      return {
+        key: assignment.slice(0, separator),
+        value: assignment.slice(separator + 1)
+      };
+    }
+
+    if (fromFile) {
+      try {
+        return { key: assignment, value: await fs.readFile(fromFile, 'utf8') };
+      } catch {
+        throw new CLIError(`Failed to read file: ${fromFile}`, 'FILE_READ_FAILED', { path: fromFile });
+      }
+    }
+
+    if (process.stdin.isTTY) {
+      throw new CLIError(
+        `No value given for ${assignment}. Use KEY=VALUE, --from-file or pipe the value on stdin`,
+        'MISSING_VALUE'
+      );
+    }
+
+    const value = await this.readStdin();
+    // Drop the single trailing newline added by echo and here-strings
+    return { key: assignment, value: value.replace(/\r?\n$/, '') };
+  }
+
+  private async readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+}
@@ -0,0 +1,55 @@
+import { ConfigService } from '../../services/config.service';
+import { CLIError } from '../../utils/errors';
+
+export interface SecretsTargetOptions {
+  project?: string;
+  env?: string;
+}
+
+export interface SecretsTarget {
+  project: string;
+  environment: string;
+}
+
+/**
+ * Resolves the project/environment pair for per-key secret commands.
+ * Explicit flags win over the .ezenvrc selection; names and UUIDs are both
+ * accepted and resolved later by SecretsService.
+ */
+export async function resolveSecretsTarget(
+  configService: ConfigService,
+  options: SecretsTargetOptions
+): Promise<SecretsTarget> {
+  await configService.init();
+
+  const project = options.project || configService.getSelectedProject();
+  const environment = options.env || configService.getSelectedEnvironment();
+
+  if (!project) {
+    throw new CLIError(
+      'No project selected. Run "ezenv projects select" or pass --project',
+      'NO_PROJECT_SELECTED'
+    );
+  }
+
+  if (!environment) {
+    throw new CLIError(
+      'No environment selected. Run "ezenv env select" or pass --env',
+      'NO_ENVIRONMENT_SELECTED'
+    );
+  }
+
+  return { project, environment };
+}
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function validateSecretKey(key: string): void {
+  if (!KEY_PATTERN.test(key)) {
+    throw new CLIError(
+      `Invalid secret name: ${key}`,
+      'INVALID_SECRET_NAME',
+      { hint: 'Names must start with a letter or underscore and contain only letters, digits and underscores' }
+    );
+  }
+}
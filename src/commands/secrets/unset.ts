@@ -0,0 +1,56 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { SecretsService } from '../../services/secrets.service';
+import { ConfigService } from '../../services/config.service';
+import { handleCommandError, CLIError } from '../../utils/errors';
+import { resolveSecretsTarget } from './target';
+
+export class UnsetSecretCommand {
+  private secretsService: SecretsService;
+  private configService: ConfigService;
+
+  constructor() {
+    this.configService = new ConfigService();
+    this.secretsService = new SecretsService();
+  }
+
+  register(program: Command): void {
+    program
+      .command('unset <key>')
+      .description('Delete a secret')
+      .option('-p, --project <project>', 'Project name or ID (default: current)')
+      .option('-e, --env <environment>', 'Environment name or ID (default: current)')
+      .action(async (key: string, options) => {
+        try {
+          await this.execute(key, options);
+        } catch (error) {
+          await handleCommandError(error);
+        }
+      });
+  }
+
+  private async execute(
+    key: string,
+    options: { project?: string; env?: string }
+  ): Promise<void> {
+    const target = await resolveSecretsTarget(this.configService, options);
+
+    const spinner = ora(`Removing ${key}...`).start();
+    try {
+      const secrets = await this.secretsService.getSecrets(target.project, target.environment);
+      if (!(key in secrets)) {
+        throw new CLIError(`Secret "${key}" not found`, 'SECRET_NOT_FOUND');
+      }
+
+      await this.secretsService.updateSecrets(target.project, target.environment, {
+        upsert: {},
+        delete: [key]
+      });
+      spinner.succeed(`Removed ${chalk.green(key)}`);
+    } catch (error) {
+      spinner.fail(`Failed to remove ${key}`);
+      throw error;
+    }
+  }
+}
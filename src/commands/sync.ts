@@ -2,15 +2,25 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import * as readline from 'readline';
+import { existsSync } from 'fs';
+import inquirer from 'inquirer';
 import { APIService } from '../services/api.service';
 import { FileService } from '../services/file.service';
 import { DiffService } from '../services/diff.service';
 import { ConfigService } from '../services/config.service';
 import { SecretsService } from '../services/secrets.service';
 import { CredentialService } from '../services/credential.service';
+import { SnapshotService } from '../services/snapshot.service';
 import { logger } from '../utils/logger';
-import { handleCommandError } from '../utils/errors';
-import { DiffOptions } from '../types';
+import { resolveMaskOptions, maskValue } from '../utils/mask';
+import { handleCommandError, CLIError } from '../utils/errors';
+import { applyDotenvChanges, RemovedKeyMode } from '../utils/dotenv';
+import { PlannedWrite, planFileWrite, printDryRun } from '../utils/dry-run';
+import { collectOption } from '../utils/glob';
+import { applyKeyRules, describeKeyRules, hasKeyRules, KeyRuleOptions, KeyRules, resolveKeyRules, selectLocalKeys } from '../utils/key-rules';
+import { DiffOptions, DiffResult, MaskOptions, MergeConflict, MergeResult } from '../types';
+
+type SyncPreference = 'local' | 'remote';
 
 export class SyncCommand {
   private apiService: APIService;
@@ -19,6 +29,7 @@ export class SyncCommand {
   private configService: ConfigService;
   private secretsService: SecretsService;
   private credentialService: CredentialService;
+  private snapshotService: SnapshotService;
 
   constructor() {
     this.credentialService = CredentialService.getInstance();
@@ -27,6 +38,7 @@ export class SyncCommand {
     this.fileService = new FileService();
     this.diffService = new DiffService();
     this.secretsService = new SecretsService(this.apiService);
+    this.snapshotService = new SnapshotService();
   }
 
   register(program: Command): void {
@@ -36,18 +48,54 @@ export class SyncCommand {
       .option('--auto-approve', 'Skip confirmation prompt')
       .option('-e, --env <environment>', 'Environment to sync (default: current)')
       .option('--no-backup', 'Skip creating backup file')
+      .option('--removed <mode>', 'How to handle variables removed remotely: comment, delete (default: comment)')
+      .option('--prefer <side>', 'Resolve conflicts without prompting: local, remote')
+      .option('-i, --interactive', 'Choose which changes to apply')
+      .option('--mask <style>', 'How to mask values: full, partial, hash (keyed per run, so hashes only match within one run) (default: full)')
+      .option('--reveal <n>', 'Characters shown at each end with --mask partial (default: 3)')
+      .option('--show-values', 'Show secret values in clear text')
+      .option('--dry-run', 'Show which files would change and how, without writing them')
+      .option('--only <glob>', 'Only sync remote keys matching the glob (repeatable)', collectOption)
+      .option('--exclude <glob>', 'Leave out remote keys matching the glob (repeatable)', collectOption)
+      .option('--strip-prefix <prefix>', 'Remove a prefix from remote keys before comparing')
+      .option('--add-prefix <prefix>', 'Add a prefix to remote keys before comparing')
       .action(async (options) => {
         await this.execute(options);
       });
   }
 
-  private async execute(options: {
+  private async execute(options: KeyRuleOptions & {
     autoApprove?: boolean;
     env?: string;
     backup: boolean;
+    removed?: string;
+    prefer?: string;
+    interactive?: boolean;
+    mask?: string;
+    reveal?: string;
+    showValues?: boolean;
+    dryRun?: boolean;
   }): Promise<void> {
     try {
+      const mask = resolveMaskOptions(options);
       await this.configService.init();
+
+      const removedMode = (options.removed || this.configService.getSyncRemovedMode()) as RemovedKeyMode;
+      if (removedMode !== 'comment' && removedMode !== 'delete') {
+        throw new CLIError(
+          `Invalid --removed mode: ${removedMode}`,
+          'INVALID_OPTION',
+          { validModes: ['comment', 'delete'] }
+        );
+      }
+
+      if (options.prefer && options.prefer !== 'local' && options.prefer !== 'remote') {
+        throw new CLIError(
+          `Invalid --prefer value: ${options.prefer}`,
+          'INVALID_OPTION',
+          { validValues: ['local', 'remote'] }
+        );
+      }
       
       const projectId = this.configService.getSelectedProject();
       const environmentId = options.env || this.configService.getSelectedEnvironment();
@@ -64,20 +112,43 @@ export class SyncCommand {
         process.exit(1);
       }
 
+      const localPath = await this.fileService.getEnvPath();
+      const keyRules = resolveKeyRules(options, this.configService.getOutputRules(localPath));
+
       const spinner = ora(`Fetching secrets...`).start();
 
       try {
         // Pass the IDs directly - SecretsService will handle them as UUIDs
-        const remoteSecrets = await this.secretsService.getSecrets(
-          projectId,
-          environmentId
+        const remoteSecrets = applyKeyRules(
+          await this.secretsService.getSecrets(projectId, environmentId),
+          keyRules
         );
         spinner.succeed('Fetched remote secrets');
 
-        const localPath = await this.fileService.getEnvPath();
-        const localSecrets = await this.fileService.readEnvFile(localPath);
+        // Local keys the rules could not have produced are left alone
+        const localSecrets = selectLocalKeys(await this.fileService.readEnvFile(localPath), keyRules);
+        if (hasKeyRules(keyRules)) {
+          console.log(chalk.gray(`Keys: ${describeKeyRules(keyRules)}`));
+        }
+
+        // Three-way merge against the remote state seen at the last sync
+        const twoWayDiff = this.diffService.compareSecrets(localSecrets, remoteSecrets);
+        const snapshot = await this.snapshotService.load(projectId, environmentId, localPath, keyRules);
+        const merge: MergeResult = snapshot
+          ? this.diffService.mergeWithSnapshot(twoWayDiff, snapshot.hashes, snapshot.salt)
+          : { remote: twoWayDiff, local: [], conflicts: [] };
 
-        const diffResult = this.diffService.compareSecrets(localSecrets, remoteSecrets);
+        if (merge.local.length > 0) {
+          console.log(chalk.gray(`Keeping local changes: ${merge.local.join(', ')}`));
+        }
+
+        let diffResult = await this.resolveConflicts(
+          merge,
+          options.prefer as SyncPreference | undefined,
+          mask,
+          options.autoApprove,
+          options.dryRun
+        );
 
         // Check if there are any changes
         const hasChanges = 
@@ -87,6 +158,11 @@ export class SyncCommand {
 
         if (!hasChanges && Object.keys(diffResult.localOnly).length === 0) {
           console.log(chalk.green('✓ Your environment is already up to date'));
+          if (options.dryRun) {
+            printDryRun([this.planSnapshot(projectId, environmentId, localPath, keyRules)]);
+          } else {
+            await this.snapshotService.save(projectId, environmentId, localPath, remoteSecrets, keyRules);
+          }
           return;
         }
 
@@ -94,7 +170,8 @@ export class SyncCommand {
         console.log(chalk.cyan('\nChanges to be applied:'));
         const diffOptions: DiffOptions = {
           format: 'inline',
-          colorize: true
+          colorize: true,
+          mask
         };
         const formatted = this.diffService.formatDiff(diffResult, diffOptions);
         if (formatted) {
@@ -106,8 +183,35 @@ export class SyncCommand {
           console.log(chalk.yellow('\n⚠ Local-only variables will be preserved'));
         }
 
-        // Ask for confirmation unless auto-approve
-        if (!options.autoApprove) {
+        if (options.dryRun) {
+          printDryRun(await this.planSync(localPath, diffResult, removedMode, options.backup, projectId, environmentId, keyRules));
+          return;
+        }
+
+        // Remote state recorded after this sync; skipped keys keep their local value
+        const syncedState = { ...remoteSecrets };
+        let skipped: DiffResult | undefined;
+
+        if (options.interactive) {
+          const selection = await this.selectChanges(diffResult, mask);
+          diffResult = selection.selected;
+          skipped = selection.skipped;
+
+          for (const key of this.changedKeys(skipped)) {
+            if (key in localSecrets) {
+              syncedState[key] = localSecrets[key];
+            } else {
+              delete syncedState[key];
+            }
+          }
+
+          if (this.changedKeys(diffResult).length === 0) {
+            console.log(chalk.gray('No changes selected'));
+            this.printSkipped(skipped);
+            return;
+          }
+        } else if (!options.autoApprove) {
+          // Ask for confirmation unless auto-approve
           const confirmed = await this.promptConfirmation();
           if (!confirmed) {
             console.log(chalk.gray('Sync cancelled'));
@@ -122,10 +226,16 @@ export class SyncCommand {
 
         // Apply the changes
         const applySpinner = ora('Applying changes...').start();
-        await this.diffService.applyDiff(localPath, diffResult, this.fileService);
+        await this.diffService.applyDiff(localPath, diffResult, this.fileService, {
+          removed: removedMode
+        });
         applySpinner.succeed('Changes applied successfully');
+        await this.snapshotService.save(projectId, environmentId, localPath, syncedState, keyRules);
 
         console.log(chalk.green('✓ Environment synchronized'));
+        if (skipped) {
+          this.printSkipped(skipped);
+        }
         
         // Show backup location if created
         if (options.backup) {
@@ -144,6 +254,194 @@ export class SyncCommand {
     }
   }
 
+  /**
+   * Folds conflicts into the remote changes to apply, either by --prefer or by
+   * asking for each key. Conflicts resolved to local are left untouched.
+   */
+  private async resolveConflicts(
+    merge: MergeResult,
+    prefer: SyncPreference | undefined,
+    mask: MaskOptions,
+    autoApprove?: boolean,
+    dryRun?: boolean
+  ): Promise<DiffResult> {
+    const diff = merge.remote;
+    if (merge.conflicts.length === 0) {
+      return diff;
+    }
+
+    if (!prefer && autoApprove) {
+      throw new CLIError(
+        `${merge.conflicts.length} variable(s) changed both locally and remotely`,
+        'SYNC_CONFLICT',
+        { keys: merge.conflicts.map(conflict => conflict.key), hint: 'Use --prefer local or --prefer remote' }
+      );
+    }
+
+    console.log(chalk.yellow(`
+⚠ ${merge.conflicts.length} conflict(s) since the last sync`));
+
+    if (dryRun && !prefer) {
+      // Nothing is asked in a dry run; these keys stay as they are until a real sync decides
+      console.log(chalk.gray(`Would ask about: ${merge.conflicts.map(conflict => conflict.key).join(', ')}`));
+      return diff;
+    }
+
+    const keptLocal: string[] = [];
+    for (const conflict of merge.conflicts) {
+      const side = prefer || await this.promptConflict(conflict, mask);
+      if (side === 'local') {
+        keptLocal.push(conflict.key);
+      } else if (conflict.remote === undefined) {
+        diff.removed[conflict.key] = conflict.local as string;
+      } else if (conflict.local === undefined) {
+        diff.added[conflict.key] = conflict.remote;
+      } else {
+        diff.modified[conflict.key] = { old: conflict.local, new: conflict.remote };
+      }
+    }
+
+    if (keptLocal.length > 0) {
+      console.log(chalk.gray(`Keeping local values for: ${keptLocal.join(', ')}`));
+    }
+
+    return diff;
+  }
+
+  /** Every file a sync of `diff` writes or deletes, with the .env edits key by key */
+  private async planSync(
+    localPath: string,
+    diff: DiffResult,
+    removedMode: RemovedKeyMode,
+    backup: boolean,
+    projectId: string,
+    environmentId: string,
+    keyRules: KeyRules
+  ): Promise<PlannedWrite[]> {
+    const before = await this.fileService.readFileIfExists(localPath) ?? '';
+    const after = applyDotenvChanges(before, this.diffService.toDotenvChanges(diff), { removed: removedMode });
+    const envPlan = planFileWrite(localPath, before, after);
+    if (Object.keys(diff.removed).length > 0) {
+      envPlan.details.push(`removed keys are ${removedMode === 'delete' ? 'deleted' : 'commented out'}`);
+    }
+
+    const plan = [envPlan];
+    if (backup) {
+      plan.push({ path: this.fileService.getBackupPath(localPath), action: 'create', details: ['backup of the current file'] });
+      // The new backup counts towards the 5 that are kept
+      const oldBackups = (await this.getBackupFiles(localPath)).sort().reverse().slice(4);
+      for (const file of oldBackups) {
+        plan.push({ path: file, action: 'delete', details: ['old backup; the newest 5 are kept'] });
+      }
+    }
+    plan.push(this.planSnapshot(projectId, environmentId, localPath, keyRules));
+    return plan;
+  }
+
+  private planSnapshot(projectId: string, environmentId: string, localPath: string, keyRules: KeyRules): PlannedWrite {
+    const path = this.snapshotService.getSnapshotPath(projectId, environmentId, localPath, keyRules);
+    return {
+      path,
+      action: existsSync(path) ? 'update' : 'create',
+      details: ['remote state used to detect conflicts on the next sync']
+    };
+  }
+
+  /**
+   * Lets the user pick which added, modified and removed entries to apply.
+   */
+  private async selectChanges(diff: DiffResult, mask: MaskOptions): Promise<{ selected: DiffResult; skipped: DiffResult }> {
+    const choices = [
+      ...Object.entries(diff.added).map(([key, value]) => ({
+        name: `${chalk.green('+')} ${key}=${maskValue(value, mask)}`,
+        value: `added:${key}`,
+        checked: true
+      })),
+      ...Object.entries(diff.modified).map(([key, { old, new: newValue }]) => ({
+        name: `${chalk.yellow('~')} ${key}: ${maskValue(old, mask)} → ${maskValue(newValue, mask)}`,
+        value: `modified:${key}`,
+        checked: true
+      })),
+      ...Object.keys(diff.removed).map(key => ({
+        name: `${chalk.red('-')} ${key}`,
+        value: `removed:${key}`,
+        checked: true
+      }))
+    ];
+
+    const { changes } = await inquirer.prompt([
+      {
+        type: 'checkbox',
+        name: 'changes',
+        message: 'Select the changes to apply:',
+        choices,
+        pageSize: 15
+      }
+    ]);
+
+    const chosen = new Set<string>(changes);
+    const selected: DiffResult = { added: {}, modified: {}, removed: {}, localOnly: diff.localOnly };
+    const skipped: DiffResult = { added: {}, modified: {}, removed: {}, localOnly: {} };
+
+    for (const kind of ['added', 'modified', 'removed'] as const) {
+      for (const [key, value] of Object.entries(diff[kind])) {
+        const target = chosen.has(`${kind}:${key}`) ? selected : skipped;
+        (target[kind] as Record<string, unknown>)[key] = value;
+      }
+    }
+
+    return { selected, skipped };
+  }
+
+  private changedKeys(diff: DiffResult): string[] {
+    return [
+      ...Object.keys(diff.added),
+      ...Object.keys(diff.modified),
+      ...Object.keys(diff.removed)
+    ];
+  }
+
+  private printSkipped(skipped: DiffResult): void {
+    const count = this.changedKeys(skipped).length;
+    if (count === 0) {
+      return;
+    }
+
+    console.log(chalk.yellow(`\nSkipped ${count} change(s):`));
+    for (const key of Object.keys(skipped.added)) {
+      console.log(chalk.gray(`  + ${key} (not added)`));
+    }
+    for (const key of Object.keys(skipped.modified)) {
+      console.log(chalk.gray(`  ~ ${key} (kept local value)`));
+    }
+    for (const key of Object.keys(skipped.removed)) {
+      console.log(chalk.gray(`  - ${key} (kept, removed remotely)`));
+    }
+    console.log(chalk.cyan('Run "ezenv diff" to review the remaining differences'));
+  }
+
+  private async promptConflict(conflict: MergeConflict, mask: MaskOptions): Promise<SyncPreference> {
+    const describe = (value?: string) => value === undefined ? chalk.gray('(deleted)') : maskValue(value, mask);
+
+    console.log(chalk.yellow(`
+! ${conflict.key}`));
+    console.log(`  local:  ${describe(conflict.local)}`);
+    console.log(`  remote: ${describe(conflict.remote)}`);
+
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout
+    });
+
+    return new Promise((resolve) => {
+      rl.question(chalk.cyan('Keep (l)ocal or take (r)emote? '), (answer) => {
+        rl.close();
+        const normalized = answer.trim().toLowerCase();
+        resolve(normalized === 'r' || normalized === 'remote' ? 'remote' : 'local');
+      });
+    });
+  }
+
   private async promptConfirmation(): Promise<boolean> {
     const rl = readline.createInterface({
       input: process.stdin,
@@ -18,10 +18,44 @@ export const DEFAULT_CONFIG = {
   }
 };
 
+/** Name of the built-in instance that points at the hosted service */
+export const HOSTED_INSTANCE = 'hosted';
+
+export interface BackendInstance {
+  url: string;
+  anonKey: string;
+}
+
+export interface SupabaseConfig extends BackendInstance {
+  isUsingHosted: boolean;
+  /** Name of the selected instance, unset when falling back to env vars/hosted */
+  instance?: string;
+}
+
+let selectedInstance: (BackendInstance & { name: string }) | undefined;
+
 /**
- * Get Supabase configuration with fallback to hosted defaults
+ * Selects the instance every service talks to for the rest of the run.
+ * Set once from --instance, EZENV_INSTANCE, .ezenvrc or `ezenv instances use`.
  */
-export function getSupabaseConfig(): { url: string; anonKey: string; isUsingHosted: boolean } {
+export function setBackendInstance(instance?: BackendInstance & { name: string }): void {
+  selectedInstance = instance;
+}
+
+/**
+ * Get Supabase configuration: the selected instance, then SUPABASE_URL env
+ * vars, then the hosted defaults
+ */
+export function getSupabaseConfig(): SupabaseConfig {
+  if (selectedInstance) {
+    return {
+      url: selectedInstance.url.replace(/\/$/, ''),
+      anonKey: selectedInstance.anonKey,
+      isUsingHosted: selectedInstance.name === HOSTED_INSTANCE,
+      instance: selectedInstance.name
+    };
+  }
+
   // In test environment, return test defaults
   if (process.env.NODE_ENV === 'test') {
     return {
@@ -5,11 +5,17 @@ import chalk from 'chalk';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import * as dotenv from 'dotenv';
-import { getSupabaseConfig } from './config/defaults';
-
-// Load environment variables from .env file in development
+import { getSupabaseConfig, setBackendInstance } from './config/defaults';
+import { AuthService } from './services/auth.service';
+import { ConfigService, isValidInstanceName, isValidProfileName } from './services/config.service';
+import { configureNetwork, redactUrl, resolveNetworkSettings } from './utils/network';
+import { logger } from './utils/logger';
+import type { CredentialBackend } from './types';
+
+// Load environment variables from .env file in development. Quiet, because
+// stdout may carry nothing but command output (pull -o -, secrets get)
 if (process.env.NODE_ENV !== 'production' && process.env.NODE_ENV !== 'test') {
-  dotenv.config();
+  dotenv.config({ quiet: true });
 }
 
 // Show startup notice if using hosted service and not in a subcommand that suppresses it
@@ -23,12 +29,6 @@ const shouldShowStartupNotice = () => {
   return true;
 };
 
-if (shouldShowStartupNotice()) {
-  const { isUsingHosted } = getSupabaseConfig();
-  if (isUsingHosted && process.env.NODE_ENV !== 'test') {
-    console.log(chalk.gray('Using EzEnv hosted service. Set SUPABASE_URL in .env for self-hosted.\n'));
-  }
-}
 // Conditional import to avoid loading during tests without proper setup
 interface AuthCommandType {
   new(): {
@@ -38,6 +38,9 @@ interface AuthCommandType {
 let LoginCommand: AuthCommandType | undefined;
 let StatusCommand: AuthCommandType | undefined;
 let LogoutCommand: AuthCommandType | undefined;
+let AuthSwitchCommand: AuthCommandType | undefined;
+let AuthListCommand: AuthCommandType | undefined;
+let AuthMigrateStoreCommand: AuthCommandType | undefined;
 
 interface ProjectCommandType {
   new(): {
@@ -46,6 +49,9 @@ interface ProjectCommandType {
 }
 let ProjectListCommand: ProjectCommandType | undefined;
 let ProjectSelectCommand: ProjectCommandType | undefined;
+let ProjectCreateCommand: ProjectCommandType | undefined;
+let ProjectRenameCommand: ProjectCommandType | undefined;
+let ProjectDeleteCommand: ProjectCommandType | undefined;
 
 interface EnvCommandType {
   new(): {
@@ -54,6 +60,31 @@ interface EnvCommandType {
 }
 let EnvListCommand: EnvCommandType | undefined;
 let EnvSelectCommand: EnvCommandType | undefined;
+let EnvPromoteCommand: EnvCommandType | undefined;
+let EnvCreateCommand: EnvCommandType | undefined;
+let EnvRenameCommand: EnvCommandType | undefined;
+let EnvDeleteCommand: EnvCommandType | undefined;
+let EnvCloneCommand: EnvCommandType | undefined;
+
+interface SecretsCommandType {
+  new(): {
+    register(program: Command): void;
+  };
+}
+let SecretsListCommand: SecretsCommandType | undefined;
+let SecretsGetCommand: SecretsCommandType | undefined;
+let SecretsSetCommand: SecretsCommandType | undefined;
+let SecretsUnsetCommand: SecretsCommandType | undefined;
+
+interface InstancesCommandType {
+  new(): {
+    register(program: Command): void;
+  };
+}
+let InstancesAddCommand: InstancesCommandType | undefined;
+let InstancesListCommand: InstancesCommandType | undefined;
+let InstancesUseCommand: InstancesCommandType | undefined;
+let InstancesRemoveCommand: InstancesCommandType | undefined;
 
 interface StatusCommandType {
   new(): {
@@ -90,7 +121,35 @@ interface SyncCommandType {
 }
 let SyncCommand: SyncCommandType | undefined;
 
+interface RunCommandType {
+  new(): {
+    register(program: Command): void;
+  };
+}
+let RunCommand: RunCommandType | undefined;
+
+interface PushCommandType {
+  new(): {
+    register(program: Command): void;
+  };
+}
+let PushCommand: PushCommandType | undefined;
+
+interface DoctorCommandType {
+  new(): {
+    register(program: Command): void;
+  };
+}
+let DoctorCommand: DoctorCommandType | undefined;
+
+interface CredentialServiceType {
+  setPreferredBackend(backend?: CredentialBackend): void;
+}
+let CredentialServiceClass: CredentialServiceType | undefined;
+
 if (process.env.NODE_ENV !== 'test') {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  CredentialServiceClass = require('./services/credential.service').CredentialService;
   // eslint-disable-next-line @typescript-eslint/no-var-requires
   LoginCommand = require('./commands/auth/login').LoginCommand;
   // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -98,14 +157,52 @@ if (process.env.NODE_ENV !== 'test') {
   // eslint-disable-next-line @typescript-eslint/no-var-requires
   LogoutCommand = require('./commands/auth/logout').LogoutCommand;
   // eslint-disable-next-line @typescript-eslint/no-var-requires
+  AuthSwitchCommand = require('./commands/auth/switch').SwitchCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  AuthListCommand = require('./commands/auth/list').ListProfilesCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  AuthMigrateStoreCommand = require('./commands/auth/migrate-store').MigrateStoreCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
   ProjectListCommand = require('./commands/projects/list').ListCommand;
   // eslint-disable-next-line @typescript-eslint/no-var-requires
   ProjectSelectCommand = require('./commands/projects/select').SelectCommand;
   // eslint-disable-next-line @typescript-eslint/no-var-requires
+  ProjectCreateCommand = require('./commands/projects/create').CreateProjectCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  ProjectRenameCommand = require('./commands/projects/rename').RenameProjectCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  ProjectDeleteCommand = require('./commands/projects/delete').DeleteProjectCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
   EnvListCommand = require('./commands/env/list').ListEnvironmentsCommand;
   // eslint-disable-next-line @typescript-eslint/no-var-requires
   EnvSelectCommand = require('./commands/env/select').SelectEnvironmentCommand;
   // eslint-disable-next-line @typescript-eslint/no-var-requires
+  EnvPromoteCommand = require('./commands/env/promote').PromoteEnvironmentCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  EnvCreateCommand = require('./commands/env/create').CreateEnvironmentCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  EnvRenameCommand = require('./commands/env/rename').RenameEnvironmentCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  EnvDeleteCommand = require('./commands/env/delete').DeleteEnvironmentCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  EnvCloneCommand = require('./commands/env/clone').CloneEnvironmentCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  SecretsListCommand = require('./commands/secrets/list').ListSecretsCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  SecretsGetCommand = require('./commands/secrets/get').GetSecretCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  SecretsSetCommand = require('./commands/secrets/set').SetSecretCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  SecretsUnsetCommand = require('./commands/secrets/unset').UnsetSecretCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  InstancesAddCommand = require('./commands/instances/add').AddInstanceCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  InstancesListCommand = require('./commands/instances/list').ListInstancesCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  InstancesUseCommand = require('./commands/instances/use').UseInstanceCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  InstancesRemoveCommand = require('./commands/instances/remove').RemoveInstanceCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
   StatusCommandClass = require('./commands/status').StatusCommand;
   // eslint-disable-next-line @typescript-eslint/no-var-requires
   PullCommand = require('./commands/pull').PullCommand;
@@ -115,6 +212,12 @@ if (process.env.NODE_ENV !== 'test') {
   DiffCommand = require('./commands/diff').DiffCommand;
   // eslint-disable-next-line @typescript-eslint/no-var-requires
   SyncCommand = require('./commands/sync').SyncCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  RunCommand = require('./commands/run').RunCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  PushCommand = require('./commands/push').PushCommand;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  DoctorCommand = require('./commands/doctor').DoctorCommand;
 }
 
 // Read package.json with proper error handling
@@ -140,7 +243,66 @@ program
   .description(packageJson.description)
   .version(packageJson.version, '-v, --version', 'output the current version')
   .option('-d, --debug', 'output extra debugging information')
-  .option('--no-color', 'disable color output');
+  .option('--no-color', 'disable color output')
+  .option('--token-file <path>', 'read the access token from a file instead of the credential store')
+  .option('--profile <name>', 'use a named auth profile for this command')
+  .option('--instance <name>', 'use a configured backend instance for this command');
+
+// Hand --token-file, the auth profile, the credential store, network settings and the backend instance to the services before any subcommand runs
+program.hook('preAction', async (thisCommand, actionCommand) => {
+  const { tokenFile, profile, instance } = thisCommand.opts();
+  AuthService.setTokenFile(tokenFile);
+
+  const configService = new ConfigService();
+  await configService.init();
+  const activeProfile = configService.getProfile(profile);
+  if (!isValidProfileName(activeProfile)) {
+    console.error(chalk.red(`Invalid profile name: ${activeProfile}`));
+    process.exit(1);
+  }
+  AuthService.setDefaultProfile(activeProfile);
+
+  try {
+    CredentialServiceClass?.setPreferredBackend(configService.getCredentialBackend());
+  } catch (error) {
+    console.error(chalk.red((error as Error).message));
+    process.exit(1);
+  }
+
+  try {
+    const network = resolveNetworkSettings(configService.getNetworkConfig());
+    configureNetwork(network);
+    logger.debug('Network settings', {
+      httpsProxy: network.httpsProxy && `${redactUrl(network.httpsProxy.value)} (${network.httpsProxy.source})`,
+      httpProxy: network.httpProxy && `${redactUrl(network.httpProxy.value)} (${network.httpProxy.source})`,
+      noProxy: network.noProxy,
+      caFile: network.caFile && `${network.caFile.value} (${network.caFile.source})`,
+      extraCaCerts: network.extraCaCerts,
+    });
+  } catch (error) {
+    console.error(chalk.red((error as Error).message));
+    process.exit(1);
+  }
+
+  // `instances` subcommands never call the backend, and are how an unknown pin gets fixed
+  const resolvedInstance = configService.resolveInstance(instance);
+  if (resolvedInstance && actionCommand.parent?.name() !== 'instances') {
+    const backend = isValidInstanceName(resolvedInstance.name)
+      ? configService.getInstance(resolvedInstance.name)
+      : undefined;
+    if (!backend) {
+      console.error(chalk.red(`Unknown instance: ${resolvedInstance.name}`));
+      console.error(chalk.gray('Run "ezenv instances list" to see the available instances'));
+      process.exit(1);
+    }
+    setBackendInstance({ name: resolvedInstance.name, ...backend });
+  }
+
+  // Show startup notice if using the hosted service
+  if (shouldShowStartupNotice() && getSupabaseConfig().isUsingHosted && process.env.NODE_ENV !== 'test') {
+    console.error(chalk.gray('Using EzEnv hosted service. Set SUPABASE_URL in .env or run "ezenv instances add" for self-hosted.\n'));
+  }
+});
 
 // Auth command group
 const authCommand = program
@@ -160,6 +322,15 @@ if (LogoutCommand) {
   const logoutCommand = new LogoutCommand();
   logoutCommand.register(authCommand);
 }
+if (AuthSwitchCommand) {
+  new AuthSwitchCommand().register(authCommand);
+}
+if (AuthListCommand) {
+  new AuthListCommand().register(authCommand);
+}
+if (AuthMigrateStoreCommand) {
+  new AuthMigrateStoreCommand().register(authCommand);
+}
 
 // Projects command group
 const projectsCommand = program
@@ -175,6 +346,18 @@ if (ProjectSelectCommand) {
   const selectCommand = new ProjectSelectCommand();
   selectCommand.register(projectsCommand);
 }
+if (ProjectCreateCommand) {
+  const createCommand = new ProjectCreateCommand();
+  createCommand.register(projectsCommand);
+}
+if (ProjectRenameCommand) {
+  const renameCommand = new ProjectRenameCommand();
+  renameCommand.register(projectsCommand);
+}
+if (ProjectDeleteCommand) {
+  const deleteCommand = new ProjectDeleteCommand();
+  deleteCommand.register(projectsCommand);
+}
 
 // Environment command group
 const envCommand = program
@@ -190,6 +373,68 @@ if (EnvSelectCommand) {
   const selectCommand = new EnvSelectCommand();
   selectCommand.register(envCommand);
 }
+if (EnvPromoteCommand) {
+  const promoteCommand = new EnvPromoteCommand();
+  promoteCommand.register(envCommand);
+}
+if (EnvCreateCommand) {
+  const createCommand = new EnvCreateCommand();
+  createCommand.register(envCommand);
+}
+if (EnvRenameCommand) {
+  const renameCommand = new EnvRenameCommand();
+  renameCommand.register(envCommand);
+}
+if (EnvDeleteCommand) {
+  const deleteCommand = new EnvDeleteCommand();
+  deleteCommand.register(envCommand);
+}
+if (EnvCloneCommand) {
+  const cloneCommand = new EnvCloneCommand();
+  cloneCommand.register(envCommand);
+}
+
+// Instances command group
+const instancesCommand = program
+  .command('instances')
+  .description('Manage EzEnv backend instances (hosted and self-hosted)');
+
+// Register instances subcommands
+if (InstancesAddCommand) {
+  new InstancesAddCommand().register(instancesCommand);
+}
+if (InstancesListCommand) {
+  new InstancesListCommand().register(instancesCommand);
+}
+if (InstancesUseCommand) {
+  new InstancesUseCommand().register(instancesCommand);
+}
+if (InstancesRemoveCommand) {
+  new InstancesRemoveCommand().register(instancesCommand);
+}
+
+// Secrets command group
+const secretsCommand = program
+  .command('secrets')
+  .description('Manage individual secrets');
+
+// Register secrets subcommands
+if (SecretsListCommand) {
+  const listCommand = new SecretsListCommand();
+  listCommand.register(secretsCommand);
+}
+if (SecretsGetCommand) {
+  const getCommand = new SecretsGetCommand();
+  getCommand.register(secretsCommand);
+}
+if (SecretsSetCommand) {
+  const setCommand = new SecretsSetCommand();
+  setCommand.register(secretsCommand);
+}
+if (SecretsUnsetCommand) {
+  const unsetCommand = new SecretsUnsetCommand();
+  unsetCommand.register(secretsCommand);
+}
 
 // Status command
 if (StatusCommandClass) {
@@ -221,16 +466,45 @@ if (SyncCommand) {
   syncCommand.register(program);
 }
 
+// Run command
+if (RunCommand) {
+  const runCommand = new RunCommand();
+  runCommand.register(program);
+}
+
+// Push command
+if (PushCommand) {
+  const pushCommand = new PushCommand();
+  pushCommand.register(program);
+}
+
+// Doctor command
+if (DoctorCommand) {
+  const doctorCommand = new DoctorCommand();
+  doctorCommand.register(program);
+}
+
 // Only add colored help text if colors are enabled
 const helpText = chalk.level > 0 ? `
 ${chalk.gray('Examples:')}
   $ ezenv auth login              # Authenticate with EzEnv
   $ ezenv auth status             # Check authentication status
   $ ezenv auth logout             # Log out from EzEnv
+  $ ezenv auth switch client-x    # Use another account by default
   $ ezenv projects list           # List all projects
   $ ezenv projects select         # Select a project interactively
   $ ezenv pull                    # Pull secrets to .env file
+  $ ezenv pull -f k8s-secret -o secret.yaml --namespace prod
+  $ ezenv pull --only "NEXT_PUBLIC_*" --strip-prefix NEXT_PUBLIC_
+  $ ezenv secrets get API_KEY     # Print a single secret value
   $ ezenv init                    # Initialize project
+  $ ezenv run -- npm start        # Run a command with secrets injected
+  $ ezenv push                    # Upload local .env changes
+  $ ezenv diff staging production # Compare two environments
+  $ ezenv env promote staging production --keys "API_*"
+  $ ezenv env clone preview --from staging
+  $ ezenv instances add acme https://ezenv.acme.dev --use
+  $ ezenv doctor                  # Check proxy, CA certificates and connectivity
 
 ${chalk.gray('For more information, visit:')} ${chalk.blue('https://ezenv.dev/docs/cli')}
 ` : `
@@ -238,10 +512,21 @@ Examples:
   $ ezenv auth login              # Authenticate with EzEnv
   $ ezenv auth status             # Check authentication status
   $ ezenv auth logout             # Log out from EzEnv
+  $ ezenv auth switch client-x    # Use another account by default
   $ ezenv projects list           # List all projects
   $ ezenv projects select         # Select a project interactively
   $ ezenv pull                    # Pull secrets to .env file
+  $ ezenv pull -f k8s-secret -o secret.yaml --namespace prod
+  $ ezenv pull --only "NEXT_PUBLIC_*" --strip-prefix NEXT_PUBLIC_
+  $ ezenv secrets get API_KEY     # Print a single secret value
   $ ezenv init                    # Initialize project
+  $ ezenv run -- npm start        # Run a command with secrets injected
+  $ ezenv push                    # Upload local .env changes
+  $ ezenv diff staging production # Compare two environments
+  $ ezenv env promote staging production --keys "API_*"
+  $ ezenv env clone preview --from staging
+  $ ezenv instances add acme https://ezenv.acme.dev --use
+  $ ezenv doctor                  # Check proxy, CA certificates and connectivity
 
 For more information, visit: https://ezenv.dev/docs/cli
 `;
@@ -1,82 +1,39 @@
 import { CredentialService } from './credential.service';
 import { ConfigService } from './config.service';
 import { AuthService } from './auth.service';
-import { APIError, CLIError } from '../utils/errors';
-import { logger } from '../utils/logger';
+import { HttpMethod, SupabaseClient } from './supabase-client';
 
 export interface RequestOptions {
   headers?: Record<string, string>;
   body?: unknown;
 }
 
+/**
+ * JSON convenience wrapper over SupabaseClient for paths like
+ * `/rest/v1/projects`. Auth, retries and error mapping live in the client.
+ */
 export class APIService {
-  private baseUrl: string;
   private authService: AuthService;
+  private client: SupabaseClient;
 
   constructor(
     credentialService: CredentialService,
-    configService: ConfigService
+    _configService: ConfigService
   ) {
-    const env = configService.getActiveEnvironment();
-    this.baseUrl = env === 'production' 
-      ? 'https://api.ezenv.dev'
-      : env === 'staging'
-      ? 'https://api-staging.ezenv.dev'
-      : 'http://localhost:8000';
-    
     // Create AuthService with production environment as default
     this.authService = new AuthService(credentialService);
     this.authService.setEnvironment('production');
+    this.client = new SupabaseClient(() => this.authService);
   }
 
   async request<T>(
-    method: string,
+    method: HttpMethod,
     path: string,
     options: RequestOptions = {}
   ): Promise<T> {
-    const url = `${this.baseUrl}${path}`;
-    
-    // Get auth token using AuthService
-    const authToken = await this.authService.getStoredToken();
-    if (!authToken) {
-      throw new CLIError('Not authenticated', 'NOT_AUTHENTICATED');
-    }
-
-    const headers = {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${authToken}`,
-      ...options.headers
-    };
-
-    logger.debug(`API Request: ${method} ${url}`, { headers: { ...headers, Authorization: 'Bearer [REDACTED]' } });
-
-    try {
-      const response = await fetch(url, {
-        method,
-        headers,
-        body: options.body ? JSON.stringify(options.body) : undefined
-      });
-
-      const responseData = await response.json() as Record<string, unknown>;
-
-      if (!response.ok) {
-        throw new APIError(
-          response.status,
-          (responseData.message as string) || 'API request failed',
-          (responseData.code as string) || 'API_ERROR',
-          responseData.details
-        );
-      }
-
-      return responseData as T;
-    } catch (error) {
-      if (error instanceof APIError) {
-        throw error;
-      }
-      
-      logger.error('API request failed', { error, url, method });
-      throw new CLIError('Failed to connect to API', 'CONNECTION_ERROR', { error });
-    }
+    const response = await this.client.request(method, path, options);
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
   }
 
   async get<T>(path: string, options?: RequestOptions): Promise<T> {
@@ -94,4 +51,4 @@ export class APIService {
   async delete<T>(path: string, options?: RequestOptions): Promise<T> {
     return this.request<T>('DELETE', path, options);
   }
-}
\ No newline at end of file
+}
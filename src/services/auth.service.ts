@@ -1,6 +1,18 @@
-import fetch from 'node-fetch'
+import { fetch } from '../utils/network'
+import { promises as fs } from 'fs'
+import { randomBytes } from 'crypto'
+import * as os from 'os'
+import * as path from 'path'
 import { CredentialService, StoredTokenData } from './credential.service'
-import { getSupabaseConfig } from '../config/defaults'
+import { getSupabaseConfig, HOSTED_INSTANCE } from '../config/defaults'
+import { CLIError } from '../utils/errors'
+import { decodeJwtClaims } from '../utils/jwt'
+import { createPkcePair } from '../utils/pkce'
+import { openBrowser } from '../utils/browser'
+import { startCallbackServer } from '../utils/callback-server'
+import { withFileLock } from '../utils/lock'
+import { LoginOptions } from '../types'
+import { DEFAULT_PROFILE } from './config.service'
 
 export interface TokenResponse {
   access_token: string
@@ -12,19 +24,115 @@ export interface TokenResponse {
 
 export type Environment = 'development' | 'staging' | 'production'
 
+export type TokenSource = 'token-file' | 'env' | 'store'
+
+export interface TokenSourceInfo {
+  source: TokenSource
+  /** Where the token came from, for display */
+  description: string
+}
+
+// Opaque service tokens carry no expiry; treat them as valid until revoked
+const NO_EXPIRY = '9999-12-31T23:59:59.000Z'
+
+const WEB_LOGIN_TIMEOUT_MS = 5 * 60 * 1000
+
+const MAX_MFA_ATTEMPTS = 3
+
+interface AuthResponseData {
+  access_token: string
+  expires_in: number
+  refresh_token?: string
+  user?: {
+    id?: string
+    email?: string
+    factors?: Array<{
+      id: string
+      factor_type: string
+      status: string
+    }>
+  }
+}
+
+export interface MfaOptions {
+  /** Asked for an authenticator code when the account has TOTP enrolled */
+  getTotpCode?: (attempt: number) => Promise<string>
+}
+
+/**
+ * When a stored token expires. The JWT `exp` claim is authoritative; the
+ * locally computed `expires_at` is only a fallback for opaque tokens.
+ */
+export function getTokenExpiry(tokenData: StoredTokenData): Date {
+  const exp = decodeJwtClaims(tokenData.access_token)?.exp
+  return typeof exp === 'number' ? new Date(exp * 1000) : new Date(tokenData.expires_at)
+}
+
+/** Account under which token data is kept in the credential store */
+export const TOKEN_ACCOUNT = 'token_data'
+
+/**
+ * Credential store service name for a login. The hosted instance and the
+ * default profile keep the original name so existing logins survive.
+ */
+export function credentialServiceName(environment: Environment, instance?: string, profile = DEFAULT_PROFILE): string {
+  let serviceName = `ezenv-cli-${environment}`
+  if (instance && instance !== HOSTED_INSTANCE) {
+    serviceName += `@${instance}`
+  }
+  return profile === DEFAULT_PROFILE ? serviceName : `${serviceName}:${profile}`
+}
+
 export class AuthService {
-  private baseUrl: string
   private currentEnvironment: Environment = 'production'
-  private supabaseAnonKey: string
 
   // Constants for retry logic
   private static readonly MAX_RETRY_ATTEMPTS = 3
   private static readonly RETRY_BASE_DELAY_MS = 1000
+  // Refresh this long before expiry, which also absorbs clock skew with the server
+  private static readonly REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+  // In-flight refreshes per credential, so concurrent callers share one request
+  private static refreshes = new Map<string, Promise<TokenResponse | null>>()
+
+  private static tokenFile?: string
+  private static defaultProfile = DEFAULT_PROFILE
 
-  constructor(private credentialService: CredentialService) {
-    const { url, anonKey } = getSupabaseConfig()
-    this.baseUrl = url
-    this.supabaseAnonKey = anonKey
+  private profile?: string
+  private instance?: string
+
+  constructor(private credentialService: CredentialService) {}
+
+  // Resolved on use so the instance selected for this run applies to services built earlier
+  private get baseUrl(): string {
+    return getSupabaseConfig().url
+  }
+
+  private get supabaseAnonKey(): string {
+    return getSupabaseConfig().anonKey
+  }
+
+  /** Set from the global --token-file option */
+  static setTokenFile(path?: string): void {
+    AuthService.tokenFile = path
+  }
+
+  /** Set once per run from --profile, EZENV_PROFILE, .ezenvrc or `auth switch` */
+  static setDefaultProfile(profile: string): void {
+    AuthService.defaultProfile = profile
+  }
+
+  setProfile(profile: string): void {
+    this.profile = profile
+  }
+
+  getProfile(): string {
+    return this.profile ?? AuthService.defaultProfile
+  }
+
+  /** Scopes stored credentials to another instance than the one in use */
+  setInstance(instance: string): void {
+    this.instance = instance
   }
 
   setEnvironment(environment: Environment): void {
@@ -36,7 +144,11 @@ export class AuthService {
   }
 
   private getServiceName(): string {
-    return `ezenv-cli-${this.currentEnvironment}`
+    return credentialServiceName(
+      this.currentEnvironment,
+      this.instance ?? getSupabaseConfig().instance,
+      this.getProfile(),
+    )
   }
 
   async storeCredentials(
@@ -46,28 +158,131 @@ export class AuthService {
     userId?: string,
     userEmail?: string
   ): Promise<void> {
-    const expiresAt = expiresIn
-      ? new Date(Date.now() + expiresIn * 1000).toISOString()
-      : new Date(Date.now() + 3600 * 1000).toISOString() // Default 1 hour
-
-    const tokenData: StoredTokenData = {
+    const exp = decodeJwtClaims(token)?.exp
+    const expiresAt = exp
+      ? new Date(exp * 1000).toISOString()
+      : expiresIn
+        ? new Date(Date.now() + expiresIn * 1000).toISOString()
+        : new Date(Date.now() + 3600 * 1000).toISOString() // Default 1 hour
+
+    await this.saveTokenData({
       access_token: token,
       expires_at: expiresAt,
       environment: this.currentEnvironment,
       refresh_token: refreshToken,
       user_id: userId,
       user_email: userEmail,
+    })
+  }
+
+  /**
+   * Stores a pre-issued access or service token, e.g. one piped to
+   * `auth login --with-token`. Expiry and user come from the JWT claims when
+   * the token is a JWT.
+   */
+  async loginWithToken(token: string): Promise<StoredTokenData> {
+    const tokenData = this.tokenDataFromToken(token)
+    if (getTokenExpiry(tokenData) <= new Date()) {
+      throw new CLIError('The token has already expired', 'TOKEN_EXPIRED')
     }
 
+    await this.saveTokenData(tokenData)
+    return tokenData
+  }
+
+  private async saveTokenData(tokenData: StoredTokenData): Promise<void> {
     await this.credentialService.store(
       this.getServiceName(),
-      'token_data',
+      TOKEN_ACCOUNT,
       JSON.stringify(tokenData)
     )
   }
 
-  async getStoredTokenData(): Promise<StoredTokenData | null> {
-    const data = await this.credentialService.retrieve(this.getServiceName(), 'token_data')
+  /**
+   * Reports where the active token comes from: --token-file, EZENV_TOKEN,
+   * EZENV_TOKEN_FILE, or the credential store.
+   */
+  async getTokenSource(): Promise<TokenSourceInfo> {
+    const external = await this.getExternalToken()
+    if (external) {
+      return external.info
+    }
+
+    return {
+      source: 'store',
+      description: this.credentialService.isUsingMemoryStorage()
+        ? 'memory (not persisted)'
+        : this.credentialService.isUsingFileStorage()
+          ? 'encrypted credential file'
+          : 'system credential store',
+    }
+  }
+
+  // Tokens supplied from outside win over stored credentials so headless
+  // runners never need the keychain. An explicit --token-file beats the env.
+  private async getExternalToken(): Promise<{ token: string; info: TokenSourceInfo } | null> {
+    if (AuthService.tokenFile) {
+      return {
+        token: await this.readTokenFile(AuthService.tokenFile),
+        info: { source: 'token-file', description: `--token-file ${AuthService.tokenFile}` },
+      }
+    }
+
+    const envToken = process.env.EZENV_TOKEN?.trim()
+    if (envToken) {
+      return {
+        token: envToken,
+        info: { source: 'env', description: 'EZENV_TOKEN environment variable' },
+      }
+    }
+
+    const envTokenFile = process.env.EZENV_TOKEN_FILE
+    if (envTokenFile) {
+      return {
+        token: await this.readTokenFile(envTokenFile),
+        info: { source: 'token-file', description: `EZENV_TOKEN_FILE (${envTokenFile})` },
+      }
+    }
+
+    return null
+  }
+
+  private async readTokenFile(path: string): Promise<string> {
+    let content: string
+    try {
+      content = await fs.readFile(path, 'utf8')
+    } catch {
+      throw new CLIError(`Cannot read token file: ${path}`, 'TOKEN_FILE_ERROR', { path })
+    }
+
+    const token = content.trim()
+    if (!token) {
+      throw new CLIError(`Token file is empty: ${path}`, 'TOKEN_FILE_ERROR', { path })
+    }
+    return token
+  }
+
+  private tokenDataFromToken(token: string): StoredTokenData {
+    const claims = decodeJwtClaims(token)
+
+    return {
+      access_token: token,
+      expires_at: claims?.exp ? new Date(claims.exp * 1000).toISOString() : NO_EXPIRY,
+      environment: this.currentEnvironment,
+      user_id: claims?.sub,
+      user_email: claims?.email,
+    }
+  }
+
+  async getStoredTokenData(
+    options: { ignoreExternal?: boolean } = {}
+  ): Promise<StoredTokenData | null> {
+    const external = options.ignoreExternal ? null : await this.getExternalToken()
+    if (external) {
+      return this.tokenDataFromToken(external.token)
+    }
+
+    const data = await this.credentialService.retrieve(this.getServiceName(), TOKEN_ACCOUNT)
 
     if (!data) {
       return null
@@ -86,6 +301,12 @@ export class AuthService {
   }
 
   async getStoredToken(): Promise<string | null> {
+    // External tokens cannot be refreshed; hand them over as-is
+    const external = await this.getExternalToken()
+    if (external) {
+      return external.token
+    }
+
     const tokenData = await this.getStoredTokenData()
     if (!tokenData?.access_token) {
       return null
@@ -105,7 +326,7 @@ export class AuthService {
   }
 
   async deleteStoredToken(): Promise<boolean> {
-    return await this.credentialService.delete(this.getServiceName(), 'token_data')
+    return await this.credentialService.delete(this.getServiceName(), TOKEN_ACCOUNT)
   }
 
   async isTokenExpired(): Promise<boolean> {
@@ -114,17 +335,69 @@ export class AuthService {
       return true
     }
 
-    const expiresAt = new Date(tokenData.expires_at)
-    const now = new Date()
-    const fiveMinutesFromNow = new Date(now.getTime() + 5 * 60 * 1000)
-
     // Token is expired or will expire in less than 5 minutes
-    return expiresAt <= fiveMinutesFromNow
+    return getTokenExpiry(tokenData).getTime() <= Date.now() + AuthService.REFRESH_MARGIN_MS
   }
 
+  /**
+   * Refreshes the stored token. Refresh tokens are single-use, so concurrent
+   * refreshes share one request within the process and take a lock file
+   * across processes; whoever waited re-reads the token the winner stored.
+   */
   async refreshToken(): Promise<TokenResponse | null> {
-    const tokenData = await this.getStoredTokenData()
-    if (!tokenData?.refresh_token) {
+    const serviceName = this.getServiceName()
+    const pending = AuthService.refreshes.get(serviceName)
+    if (pending) {
+      return pending
+    }
+
+    const refresh = this.refreshWithLock(serviceName)
+    AuthService.refreshes.set(serviceName, refresh)
+    try {
+      return await refresh
+    } finally {
+      AuthService.refreshes.delete(serviceName)
+    }
+  }
+
+  private async refreshWithLock(serviceName: string): Promise<TokenResponse | null> {
+    const before = await this.getStoredTokenData()
+    if (!before?.refresh_token) {
+      return null
+    }
+
+    const lockName = `refresh-${serviceName.replace(/[^A-Za-z0-9._-]/g, '_')}.lock`
+    const lockPath = path.join(process.env.HOME || os.homedir(), '.ezenv', 'locks', lockName)
+
+    try {
+      return await withFileLock(lockPath, async () => {
+        const current = await this.getStoredTokenData()
+        if (current && current.access_token !== before.access_token) {
+          return this.refreshedElsewhere(current)
+        }
+        return this.requestRefresh(current ?? before)
+      })
+    } catch (error) {
+      if (process.env.DEBUG) {
+        console.error('Token refresh lock error:', error)
+      }
+      return null
+    }
+  }
+
+  // Another process refreshed while we waited for the lock
+  private refreshedElsewhere(tokenData: StoredTokenData): TokenResponse {
+    return {
+      access_token: tokenData.access_token,
+      token_type: 'bearer',
+      expires_in: Math.max(0, Math.floor((getTokenExpiry(tokenData).getTime() - Date.now()) / 1000)),
+      refresh_token: tokenData.refresh_token,
+      user_id: tokenData.user_id,
+    }
+  }
+
+  private async requestRefresh(tokenData: StoredTokenData): Promise<TokenResponse | null> {
+    if (!tokenData.refresh_token) {
       return null
     }
 
@@ -184,8 +457,7 @@ export class AuthService {
       // Check if token is expired
       const tokenData = await this.getStoredTokenData()
       if (tokenData && tokenData.expires_at) {
-        const expiresAt = new Date(tokenData.expires_at)
-        if (expiresAt < new Date()) {
+        if (getTokenExpiry(tokenData) < new Date()) {
           // Try to refresh if we have a refresh token
           if (tokenData.refresh_token) {
             const newToken = await this.refreshToken()
@@ -204,7 +476,16 @@ export class AuthService {
     }
   }
 
-  async authenticateWithPassword(email: string, password: string): Promise<void> {
+  async authenticateWithPassword(
+    email: string,
+    password: string,
+    mfa: MfaOptions = {}
+  ): Promise<void> {
+    const session = await this.requestPasswordSession(email, password)
+    await this.completeLogin(session, email, mfa)
+  }
+
+  private async requestPasswordSession(email: string, password: string): Promise<AuthResponseData> {
     let retryCount = 0
 
     while (retryCount < AuthService.MAX_RETRY_ATTEMPTS) {
@@ -244,26 +525,7 @@ export class AuthService {
           throw error
         }
 
-        interface AuthResponseData {
-          access_token: string
-          expires_in: number
-          refresh_token?: string
-          user?: {
-            id?: string
-            email?: string
-          }
-        }
-        const data = (await response.json()) as AuthResponseData
-
-        // Store credentials
-        await this.storeCredentials(
-          data.access_token,
-          data.expires_in,
-          data.refresh_token,
-          data.user?.id,
-          data.user?.email || email
-        )
-        return // Success, exit the retry loop
+        return (await response.json()) as AuthResponseData
       } catch (error) {
         const err = error as Error & { code?: string }
         if (err.code === 'ENOTFOUND' || err.code === 'ECONNREFUSED') {
@@ -282,6 +544,228 @@ export class AuthService {
         throw error
       }
     }
+
+    throw this.createAuthError('Network connection failed', 'NETWORK_ERROR')
+  }
+
+  /**
+   * Sends a one-time sign-in code to the email of an existing account.
+   */
+  async requestEmailOtp(email: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/auth/v1/otp`, {
+      method: 'POST',
+      headers: {
+        apikey: this.supabaseAnonKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ email, create_user: false }),
+    })
+
+    if (!response.ok) {
+      const message = await this.readAuthError(response, 'Failed to send the sign-in code')
+      const code =
+        response.status === 400 || response.status === 422
+          ? 'OTP_NOT_ALLOWED'
+          : this.mapAuthError(response, message)
+      throw this.createAuthError(message, code)
+    }
+  }
+
+  async verifyEmailOtp(email: string, token: string, mfa: MfaOptions = {}): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/auth/v1/verify`, {
+      method: 'POST',
+      headers: {
+        apikey: this.supabaseAnonKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ type: 'email', email, token }),
+    })
+
+    if (!response.ok) {
+      const message = await this.readAuthError(response, 'Invalid sign-in code')
+      throw this.createAuthError(message, this.mapCodeError(response, message, 'OTP'))
+    }
+
+    const session = (await response.json()) as AuthResponseData
+    await this.completeLogin(session, email, mfa)
+  }
+
+  /**
+   * Steps a first-factor session up with TOTP when the account has a verified
+   * factor, then stores the resulting tokens.
+   */
+  private async completeLogin(
+    session: AuthResponseData,
+    email: string,
+    mfa: MfaOptions
+  ): Promise<void> {
+    const factor = session.user?.factors?.find(
+      (f) => f.factor_type === 'totp' && f.status === 'verified'
+    )
+
+    if (factor) {
+      if (!mfa.getTotpCode) {
+        throw this.createAuthError(
+          'This account requires a two-factor authentication code',
+          'MFA_REQUIRED'
+        )
+      }
+      session = await this.verifyTotp(session, factor.id, mfa.getTotpCode)
+    }
+
+    await this.storeCredentials(
+      session.access_token,
+      session.expires_in,
+      session.refresh_token,
+      session.user?.id,
+      session.user?.email || email
+    )
+  }
+
+  private async verifyTotp(
+    session: AuthResponseData,
+    factorId: string,
+    getTotpCode: (attempt: number) => Promise<string>
+  ): Promise<AuthResponseData> {
+    for (let attempt = 1; ; attempt++) {
+      const code = (await getTotpCode(attempt)).trim()
+
+      // A fresh challenge per attempt so a slow answer cannot expire it
+      const challenge = await this.mfaRequest<{ id: string }>(
+        `factors/${factorId}/challenge`,
+        session.access_token,
+        {}
+      )
+
+      try {
+        return await this.mfaRequest<AuthResponseData>(
+          `factors/${factorId}/verify`,
+          session.access_token,
+          { challenge_id: challenge.id, code }
+        )
+      } catch (error) {
+        const err = error as Error & { code?: string }
+        if (err.code !== 'MFA_INVALID_CODE' || attempt >= MAX_MFA_ATTEMPTS) {
+          throw error
+        }
+      }
+    }
+  }
+
+  private async mfaRequest<T>(path: string, accessToken: string, body: unknown): Promise<T> {
+    const response = await fetch(`${this.baseUrl}/auth/v1/${path}`, {
+      method: 'POST',
+      headers: {
+        apikey: this.supabaseAnonKey,
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      const message = await this.readAuthError(response, 'Two-factor verification failed')
+      throw this.createAuthError(message, this.mapCodeError(response, message, 'MFA'))
+    }
+
+    return (await response.json()) as T
+  }
+
+  /**
+   * Logs in through the browser with the OAuth PKCE flow: a one-shot
+   * localhost server receives the redirect, and the code is exchanged for
+   * tokens. Honors `signal` and `timeoutMs` while waiting for the browser.
+   */
+  async authenticateWithBrowser(options: LoginOptions = {}): Promise<void> {
+    const { verifier, challenge } = createPkcePair()
+    const server = await startCallbackServer(randomBytes(16).toString('hex'), {
+      signal: options.signal,
+      timeoutMs: options.timeoutMs ?? WEB_LOGIN_TIMEOUT_MS,
+    })
+
+    try {
+      const authorizeUrl = await this.getAuthorizeUrl(server.redirectUri, challenge, options)
+      options.onAuthorizeUrl?.(authorizeUrl)
+
+      if (options.openBrowser !== false) {
+        // The URL was handed to onAuthorizeUrl, so a missing browser is not fatal
+        await openBrowser(authorizeUrl).catch(() => undefined)
+      }
+
+      const code = await server.waitForCode()
+      const data = await this.exchangeAuthCode(code, verifier)
+
+      await this.storeCredentials(
+        data.access_token,
+        data.expires_in,
+        data.refresh_token,
+        data.user?.id,
+        data.user?.email
+      )
+    } finally {
+      await server.close()
+    }
+  }
+
+  private async getAuthorizeUrl(
+    redirectUri: string,
+    challenge: string,
+    options: LoginOptions
+  ): Promise<string> {
+    if (options.ssoDomain) {
+      const response = await fetch(`${this.baseUrl}/auth/v1/sso`, {
+        method: 'POST',
+        headers: {
+          apikey: this.supabaseAnonKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          domain: options.ssoDomain,
+          redirect_to: redirectUri,
+          code_challenge: challenge,
+          code_challenge_method: 's256',
+          skip_http_redirect: true,
+        }),
+      })
+
+      if (!response.ok) {
+        throw new CLIError(`No SSO provider found for ${options.ssoDomain}`, 'SSO_NOT_CONFIGURED')
+      }
+      const { url } = (await response.json()) as { url: string }
+      return url
+    }
+
+    const params = new URLSearchParams({
+      provider: options.provider || 'github',
+      redirect_to: redirectUri,
+      code_challenge: challenge,
+      code_challenge_method: 's256',
+    })
+    return `${this.baseUrl}/auth/v1/authorize?${params}`
+  }
+
+  private async exchangeAuthCode(code: string, verifier: string): Promise<AuthResponseData> {
+    const response = await fetch(`${this.baseUrl}/auth/v1/token?grant_type=pkce`, {
+      method: 'POST',
+      headers: {
+        apikey: this.supabaseAnonKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ auth_code: code, code_verifier: verifier }),
+    })
+
+    if (!response.ok) {
+      let message = 'Failed to exchange the authorization code'
+      try {
+        const parsed = JSON.parse(await response.text())
+        message = parsed.error_description || parsed.msg || parsed.error || message
+      } catch {
+        // Keep the generic message
+      }
+      throw new CLIError(message, this.mapAuthError(response, message))
+    }
+
+    return (await response.json()) as AuthResponseData
   }
 
   async logout(): Promise<void> {
@@ -299,6 +783,40 @@ export class AuthService {
     return 'UNKNOWN_ERROR'
   }
 
+  /**
+   * Maps failures when checking a one-time or TOTP code to
+   * `<prefix>_INVALID_CODE` / `<prefix>_EXPIRED`, falling back to the
+   * generic mapping for rate limits and server errors.
+   */
+  private mapCodeError(response: { status: number }, errorMessage: string, prefix: 'OTP' | 'MFA'): string {
+    const generic = this.mapAuthError(response, errorMessage)
+    if (generic === 'RATE_LIMITED' || generic === 'SERVER_ERROR') {
+      return generic
+    }
+    if (errorMessage.toLowerCase().includes('expired')) {
+      return `${prefix}_EXPIRED`
+    }
+    if (response.status === 400 || response.status === 403 || response.status === 422) {
+      return `${prefix}_INVALID_CODE`
+    }
+    return generic
+  }
+
+  private async readAuthError(response: { text(): Promise<string> }, fallback: string): Promise<string> {
+    try {
+      const parsed = JSON.parse(await response.text())
+      return parsed.error_description || parsed.msg || parsed.message || parsed.error || fallback
+    } catch {
+      return fallback
+    }
+  }
+
+  private createAuthError(message: string, code: string): Error {
+    const error = new Error(message)
+    ;(error as Error & { code?: string }).code = code
+    return error
+  }
+
   async getCurrentUser(): Promise<unknown | null> {
     const tokenData = await this.getStoredTokenData()
     if (!tokenData?.access_token) {
@@ -1,25 +1,66 @@
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import type { AuthConfig, Environment } from '../types';
+import type { AuthConfig, CredentialBackend, Environment } from '../types';
 import type { Environment as EnvironmentObject } from './environment.service';
+import type { RemovedKeyMode } from '../utils/dotenv';
+import type { NetworkConfig } from '../utils/network';
+import type { OutputFormat } from '../utils/formatters';
+import type { KeyRules } from '../utils/key-rules';
+import { BackendInstance, DEFAULT_CONFIG, HOSTED_INSTANCE } from '../config/defaults';
+import { CLIError } from '../utils/errors';
 
 export interface CLIConfiguration {
   selected_project?: string;
   selected_environment?: string;
-  output_format: 'env' | 'json' | 'yaml' | 'export';
+  output_format: OutputFormat;
   auto_update_check: boolean;
   last_update_check?: string;
+  sync_removed?: RemovedKeyMode;
+  /** Proxy URL used when HTTPS_PROXY/HTTP_PROXY are not set */
+  proxy?: string;
+  /** PEM bundle trusted in addition to the public roots, e.g. a TLS-inspecting proxy's CA */
+  ca_file?: string;
 }
 
 export interface Config {
   activeEnvironment: Environment;
   authConfig?: AuthConfig;
   cliConfig?: CLIConfiguration;
+  /** Named auth profiles that have been logged in to */
+  profiles?: string[];
+  /** Profile chosen with `ezenv auth switch` */
+  activeProfile?: string;
+  /** Self-hosted or additional backends added with `ezenv instances add` */
+  instances?: Record<string, BackendInstance>;
+  /** Instance chosen with `ezenv instances use` */
+  activeInstance?: string;
+  /** Where tokens are stored; unset tries the keychain and falls back to memory */
+  credentialStore?: CredentialBackend;
 }
 
+export const DEFAULT_PROFILE = 'default';
+
+export type ProfileSource = 'flag' | 'env' | 'ezenvrc' | 'active' | 'default';
+
+export type InstanceSource = Exclude<ProfileSource, 'default'>;
+
+export const CREDENTIAL_BACKENDS: CredentialBackend[] = ['keychain', 'file', 'memory'];
+
+export function isValidProfileName(name: string): boolean {
+  return /^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(name);
+}
+
+/** Instance names follow the same rules as profile names */
+export const isValidInstanceName = isValidProfileName;
+
 export class ConfigService {
   private configPath: string;
   private ezenvrcPath: string;
+  // Kept apart from cliConfig so a repo's pins never leak into the global config
+  private pinnedProfile?: string;
+  private pinnedInstance?: string;
+  // Per-output key rules from .ezenvrc `outputs`, validated when looked up
+  private outputRules: Record<string, unknown> = {};
   private config: Config = {
     activeEnvironment: 'production',
     cliConfig: {
@@ -47,12 +88,25 @@ export class ConfigService {
     try {
       const ezenvrcData = await fs.readFile(this.ezenvrcPath, 'utf-8');
       const projectConfig = JSON.parse(ezenvrcData);
-      if (projectConfig.selected_project || projectConfig.selected_environment) {
+      const { profile, instance, outputs, ...projectSettings } = projectConfig;
+      // A repository must not be able to reroute traffic or add trusted CAs
+      delete projectSettings.proxy;
+      delete projectSettings.ca_file;
+      if (projectSettings.selected_project || projectSettings.selected_environment) {
         this.config.cliConfig = {
           ...this.config.cliConfig,
-          ...projectConfig
+          ...projectSettings
         };
       }
+      if (typeof profile === 'string' && profile) {
+        this.pinnedProfile = profile;
+      }
+      if (typeof instance === 'string' && instance) {
+        this.pinnedInstance = instance;
+      }
+      if (outputs && typeof outputs === 'object' && !Array.isArray(outputs)) {
+        this.outputRules = outputs;
+      }
     } catch (error) {
       // .ezenvrc doesn't exist or is invalid, ignore
     }
@@ -111,6 +165,15 @@ export class ConfigService {
     return this.config.cliConfig?.selected_environment;
   }
 
+  getSyncRemovedMode(): RemovedKeyMode {
+    return this.config.cliConfig?.sync_removed || 'comment';
+  }
+
+  /** Proxy and CA settings from the global config */
+  getNetworkConfig(): NetworkConfig {
+    return { proxy: this.config.cliConfig?.proxy, caFile: this.config.cliConfig?.ca_file };
+  }
+
   async selectEnvironment(environment: EnvironmentObject): Promise<void> {
     if (!this.config.cliConfig) {
       this.config.cliConfig = {
@@ -122,6 +185,181 @@ export class ConfigService {
     await this.saveEzenvrc();
   }
 
+  /**
+   * Picks the auth profile for this run: --profile, then EZENV_PROFILE, then
+   * the profile pinned in .ezenvrc, then the one chosen with `auth switch`.
+   */
+  resolveProfile(flag?: string): { name: string; source: ProfileSource } {
+    if (flag) {
+      return { name: flag, source: 'flag' };
+    }
+    if (process.env.EZENV_PROFILE) {
+      return { name: process.env.EZENV_PROFILE, source: 'env' };
+    }
+    if (this.pinnedProfile) {
+      return { name: this.pinnedProfile, source: 'ezenvrc' };
+    }
+    if (this.config.activeProfile) {
+      return { name: this.config.activeProfile, source: 'active' };
+    }
+    return { name: DEFAULT_PROFILE, source: 'default' };
+  }
+
+  getProfile(flag?: string): string {
+    return this.resolveProfile(flag).name;
+  }
+
+  listProfiles(): string[] {
+    return [...new Set([DEFAULT_PROFILE, ...(this.config.profiles || [])])];
+  }
+
+  async addProfile(name: string): Promise<void> {
+    if (name === DEFAULT_PROFILE || this.config.profiles?.includes(name)) {
+      return;
+    }
+    this.config.profiles = [...(this.config.profiles || []), name];
+    await this.save();
+  }
+
+  async setActiveProfile(name: string): Promise<void> {
+    this.config.activeProfile = name;
+    await this.save();
+  }
+
+  /** Pins a profile in the project's .ezenvrc */
+  async pinProfile(name: string): Promise<void> {
+    this.pinnedProfile = name;
+    await this.updateEzenvrc({ profile: name });
+  }
+
+  /**
+   * Picks the backend instance for this run: --instance, then EZENV_INSTANCE,
+   * then the instance pinned in .ezenvrc, then the one chosen with
+   * `instances use`. Undefined means SUPABASE_URL env vars or the hosted service.
+   */
+  resolveInstance(flag?: string): { name: string; source: InstanceSource } | undefined {
+    if (flag) {
+      return { name: flag, source: 'flag' };
+    }
+    if (process.env.EZENV_INSTANCE) {
+      return { name: process.env.EZENV_INSTANCE, source: 'env' };
+    }
+    if (this.pinnedInstance) {
+      return { name: this.pinnedInstance, source: 'ezenvrc' };
+    }
+    if (this.config.activeInstance) {
+      return { name: this.config.activeInstance, source: 'active' };
+    }
+    return undefined;
+  }
+
+  getInstance(name: string): BackendInstance | undefined {
+    if (name === HOSTED_INSTANCE) {
+      return {
+        url: DEFAULT_CONFIG.HOSTED_SUPABASE_URL,
+        anonKey: DEFAULT_CONFIG.HOSTED_SUPABASE_ANON_KEY
+      };
+    }
+    return this.config.instances?.[name];
+  }
+
+  /** The hosted instance first, then the configured ones */
+  listInstances(): Array<BackendInstance & { name: string }> {
+    const names = [HOSTED_INSTANCE, ...Object.keys(this.config.instances || {})];
+    return names.map(name => ({ name, ...(this.getInstance(name) as BackendInstance) }));
+  }
+
+  async addInstance(name: string, instance: BackendInstance): Promise<void> {
+    this.config.instances = { ...this.config.instances, [name]: instance };
+    await this.save();
+  }
+
+  async removeInstance(name: string): Promise<void> {
+    if (!this.config.instances?.[name]) {
+      return;
+    }
+    delete this.config.instances[name];
+    if (this.config.activeInstance === name) {
+      delete this.config.activeInstance;
+    }
+    await this.save();
+  }
+
+  async setActiveInstance(name: string): Promise<void> {
+    this.config.activeInstance = name;
+    await this.save();
+  }
+
+  /** Pins an instance in the project's .ezenvrc */
+  async pinInstance(name: string): Promise<void> {
+    this.pinnedInstance = name;
+    await this.updateEzenvrc({ instance: name });
+  }
+
+  /**
+   * Key rules stored for an output file in .ezenvrc, e.g.
+   * `"outputs": { ".env.frontend": { "only": ["NEXT_PUBLIC_*"], "strip_prefix": "NEXT_PUBLIC_" } }`.
+   * Paths are relative to the .ezenvrc directory.
+   */
+  getOutputRules(outputPath: string): KeyRules {
+    const target = path.resolve(outputPath);
+    const key = Object.keys(this.outputRules)
+      .find(name => path.resolve(path.dirname(this.ezenvrcPath), name) === target);
+    if (key === undefined) {
+      return {};
+    }
+
+    const entry = this.outputRules[key];
+    const invalid = (reason: string) => new CLIError(
+      `Invalid key rules for "${key}" in .ezenvrc: ${reason}`,
+      'INVALID_CONFIG',
+      { output: key }
+    );
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw invalid('expected an object');
+    }
+
+    const { only, exclude, strip_prefix, add_prefix } = entry as Record<string, unknown>;
+    const globs = (name: string, value: unknown): string[] | undefined => {
+      if (value === undefined) return undefined;
+      const list = typeof value === 'string' ? [value] : value;
+      if (!Array.isArray(list) || !list.every(item => typeof item === 'string')) {
+        throw invalid(`${name} must be a glob or a list of globs`);
+      }
+      return list;
+    };
+    const prefix = (name: string, value: unknown): string | undefined => {
+      if (value !== undefined && (typeof value !== 'string' || !value)) {
+        throw invalid(`${name} must be a non-empty string`);
+      }
+      return value as string | undefined;
+    };
+
+    return {
+      only: globs('only', only),
+      exclude: globs('exclude', exclude),
+      stripPrefix: prefix('strip_prefix', strip_prefix),
+      addPrefix: prefix('add_prefix', add_prefix)
+    };
+  }
+
+  /** EZENV_CREDENTIAL_STORE, then the credentialStore setting */
+  getCredentialBackend(): CredentialBackend | undefined {
+    const backend = process.env.EZENV_CREDENTIAL_STORE || this.config.credentialStore;
+    if (backend && !CREDENTIAL_BACKENDS.includes(backend as CredentialBackend)) {
+      throw new CLIError(
+        `Invalid credential store "${backend}". Use one of: ${CREDENTIAL_BACKENDS.join(', ')}`,
+        'INVALID_CREDENTIAL_STORE'
+      );
+    }
+    return backend as CredentialBackend | undefined;
+  }
+
+  async setCredentialBackend(backend: CredentialBackend): Promise<void> {
+    this.config.credentialStore = backend;
+    await this.save();
+  }
+
   private async save(): Promise<void> {
     await fs.mkdir(path.dirname(this.configPath), { recursive: true });
     await fs.writeFile(this.configPath, JSON.stringify(this.config, null, 2));
@@ -130,11 +368,21 @@ export class ConfigService {
   private async saveEzenvrc(): Promise<void> {
     if (!this.config.cliConfig) return;
     
-    const ezenvrcConfig = {
+    await this.updateEzenvrc({
       selected_project: this.config.cliConfig.selected_project,
       selected_environment: this.config.cliConfig.selected_environment
-    };
-    
-    await fs.writeFile(this.ezenvrcPath, JSON.stringify(ezenvrcConfig, null, 2));
+    });
+  }
+
+  // Keeps any other project settings already stored in .ezenvrc
+  private async updateEzenvrc(settings: Record<string, unknown>): Promise<void> {
+    let existing: Record<string, unknown> = {};
+    try {
+      existing = JSON.parse(await fs.readFile(this.ezenvrcPath, 'utf-8'));
+    } catch (error) {
+      // .ezenvrc doesn't exist or is invalid, start fresh
+    }
+
+    await fs.writeFile(this.ezenvrcPath, JSON.stringify({ ...existing, ...settings }, null, 2));
   }
 }
\ No newline at end of file
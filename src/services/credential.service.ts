@@ -2,6 +2,9 @@ import * as keytar from 'keytar';
 import chalk from 'chalk';
 import { getPlatformName } from '../utils/platform';
 import { MemoryCredentialStore, CredentialStore } from './memory-credential-store';
+import { FileCredentialStore } from './file-credential-store';
+import { CLIError } from '../utils/errors';
+import type { CredentialBackend } from '../types';
 
 export interface StoredTokenData {
   access_token: string;
@@ -14,9 +17,17 @@ export interface StoredTokenData {
 
 export class CredentialService {
   private backingStore: CredentialStore | null = null;
+  private activeBackend: CredentialBackend | null = null;
   private useMemoryFallback = false;
   private static memoryStore = new MemoryCredentialStore();
   private static instance: CredentialService | null = null;
+  private static preferredBackend?: CredentialBackend;
+
+  /**
+   * @param backend Store to use; without one the preferred backend applies, or
+   * the system keychain with memory as the fallback
+   */
+  constructor(private backend?: CredentialBackend) {}
 
   static getInstance(): CredentialService {
     if (!CredentialService.instance) {
@@ -25,39 +36,72 @@ export class CredentialService {
     return CredentialService.instance;
   }
 
+  /** Set once per run from EZENV_CREDENTIAL_STORE or the credentialStore config */
+  static setPreferredBackend(backend?: CredentialBackend): void {
+    CredentialService.preferredBackend = backend;
+  }
+
   private async getStore(): Promise<CredentialStore> {
     if (this.backingStore) {
       return this.backingStore;
     }
 
+    const backend = this.backend ?? CredentialService.preferredBackend;
+    if (backend === 'file') {
+      return this.useStore('file', new FileCredentialStore());
+    }
+    if (backend === 'memory') {
+      this.useMemoryFallback = true;
+      return this.useStore('memory', CredentialService.memoryStore);
+    }
+
     // Try to use keytar first
     if (!this.useMemoryFallback) {
       try {
         // Test keytar availability
         await keytar.getPassword('ezenv-test', 'test');
-        this.backingStore = {
+        
+        // Diagnostics go to stderr so stdout stays clean for piped output
+        const platform = getPlatformName();
+        console.error(chalk.gray(`Using ${platform} credential store`));
+        
+        return this.useStore('keychain', {
           store: (service: string, account: string, password: string) => 
             keytar.setPassword(service, account, password),
           retrieve: (service: string, account: string) => 
             keytar.getPassword(service, account),
           delete: (service: string, account: string) => 
             keytar.deletePassword(service, account),
-        };
-        
-        const platform = getPlatformName();
-        console.log(chalk.gray(`Using ${platform} credential store`));
-        
-        return this.backingStore;
+        });
       } catch (error) {
+        // An explicitly chosen keychain must not silently degrade
+        if (backend === 'keychain') {
+          throw new CLIError(
+            'System keychain is unavailable. Use EZENV_CREDENTIAL_STORE=file to store tokens in an encrypted file',
+            'KEYCHAIN_UNAVAILABLE'
+          );
+        }
         console.warn(chalk.yellow('\n⚠️  System credential store unavailable'));
         console.warn(chalk.yellow('Falling back to memory storage (credentials will not persist)'));
+        console.warn(chalk.yellow('Set EZENV_CREDENTIAL_STORE=file to keep them in an encrypted file instead'));
         this.useMemoryFallback = true;
       }
     }
 
     // Fallback to memory store
-    this.backingStore = CredentialService.memoryStore;
-    return this.backingStore;
+    return this.useStore('memory', CredentialService.memoryStore);
+  }
+
+  private useStore(backend: CredentialBackend, store: CredentialStore): CredentialStore {
+    this.activeBackend = backend;
+    this.backingStore = store;
+    return store;
+  }
+
+  /** The store actually in use, after any fallback */
+  async getBackend(): Promise<CredentialBackend> {
+    await this.getStore();
+    return this.activeBackend as CredentialBackend;
   }
 
   async store(service: string, account: string, password: string): Promise<void> {
@@ -65,6 +109,9 @@ export class CredentialService {
       const store = await this.getStore();
       await store.store(service, account, password);
     } catch (error) {
+      if (error instanceof CLIError) {
+        throw error;
+      }
       const err = error as Error;
       if (err.message?.includes('keychain') || err.message?.includes('credential')) {
         throw new Error('Failed to store credentials. Please ensure your system keychain is accessible.');
@@ -78,6 +125,9 @@ export class CredentialService {
       const store = await this.getStore();
       return await store.retrieve(service, account);
     } catch (error) {
+      if (error instanceof CLIError) {
+        throw error;
+      }
       const err = error as Error;
       if (err.message?.includes('keychain') || err.message?.includes('credential')) {
         throw new Error('Failed to retrieve credentials. Please ensure your system keychain is accessible.');
@@ -91,6 +141,9 @@ export class CredentialService {
       const store = await this.getStore();
       return await store.delete(service, account);
     } catch (error) {
+      if (error instanceof CLIError) {
+        throw error;
+      }
       const err = error as Error;
       if (err.message?.includes('keychain') || err.message?.includes('credential')) {
         throw new Error('Failed to delete credentials. Please ensure your system keychain is accessible.');
@@ -103,6 +156,10 @@ export class CredentialService {
     return this.useMemoryFallback;
   }
 
+  isUsingFileStorage(): boolean {
+    return this.activeBackend === 'file';
+  }
+
   async getCredential(key: string): Promise<string | null> {
     return this.retrieve('ezenv', key);
   }
@@ -1,5 +1,16 @@
 import chalk from 'chalk';
-import { DiffResult, DiffOptions } from '../types';
+import { DiffResult, DiffOptions, MergeConflict, MergeResult } from '../types';
+import { DotenvChanges, DotenvChangeOptions } from '../utils/dotenv';
+import { maskValue, describeChange, DEFAULT_MASK } from '../utils/mask';
+import { hashSecretValue } from './snapshot.service';
+
+/**
+ * Variables prefixed with LOCAL_ or suffixed with _LOCAL are never expected
+ * to exist remotely and are always kept on the local side.
+ */
+export function isLocalOnlyKey(key: string): boolean {
+  return key.startsWith('LOCAL_') || key.endsWith('_LOCAL');
+}
 
 export class DiffService {
   compareSecrets(
@@ -23,7 +34,7 @@ export class DiffService {
     // Find removed and local-only
     for (const [key, value] of Object.entries(local)) {
       if (!(key in remote)) {
-        if (key.startsWith('LOCAL_') || key.endsWith('_LOCAL')) {
+        if (isLocalOnlyKey(key)) {
           localOnly[key] = value;
         } else {
           removed[key] = value;
@@ -34,7 +45,63 @@ export class DiffService {
     return { added, modified, removed, localOnly };
   }
 
+  /**
+   * Splits a local-to-remote diff into a three-way merge against the hashes of
+   * the remote state at the last sync, made with that snapshot's `salt`. A key that only moved away from the
+   * snapshot locally is a local edit; one that moved on both sides is a conflict.
+   */
+  mergeWithSnapshot(diff: DiffResult, base: Record<string, string>, salt: string): MergeResult {
+    const remote: DiffResult = { added: {}, modified: {}, removed: {}, localOnly: { ...diff.localOnly } };
+    const local: string[] = [];
+    const conflicts: MergeConflict[] = [];
+
+    const changedSince = (key: string, value: string | undefined): boolean => {
+      const hash = value === undefined ? undefined : hashSecretValue(value, salt);
+      return hash !== base[key];
+    };
+
+    const classify = (conflict: MergeConflict, applyRemote: () => void): void => {
+      const localChanged = changedSince(conflict.key, conflict.local);
+      const remoteChanged = changedSince(conflict.key, conflict.remote);
+
+      if (remoteChanged && localChanged) {
+        conflicts.push(conflict);
+      } else if (remoteChanged) {
+        applyRemote();
+      } else {
+        local.push(conflict.key);
+      }
+    };
+
+    for (const [key, value] of Object.entries(diff.added)) {
+      classify({ key, remote: value }, () => { remote.added[key] = value; });
+    }
+
+    for (const [key, change] of Object.entries(diff.modified)) {
+      classify({ key, local: change.old, remote: change.new }, () => { remote.modified[key] = change; });
+    }
+
+    for (const [key, value] of Object.entries(diff.removed)) {
+      classify({ key, local: value }, () => { remote.removed[key] = value; });
+    }
+
+    return { remote, local, conflicts };
+  }
+
   formatDiff(diff: DiffResult, options: DiffOptions): string {
+    // JSON always describes the full result, even when nothing differs
+    if (options.format === 'json') {
+      const result = options.keysOnly
+        ? {
+          added: Object.keys(diff.added),
+          modified: Object.keys(diff.modified),
+          removed: Object.keys(diff.removed),
+          localOnly: Object.keys(diff.localOnly)
+        }
+        : this.maskDiff(diff, options);
+      return JSON.stringify(result, null, 2);
+    }
+
     const hasChanges = 
       Object.keys(diff.added).length > 0 ||
       Object.keys(diff.modified).length > 0 ||
@@ -52,6 +119,8 @@ export class DiffService {
         return this.formatSideBySide(diff, options);
       case 'summary':
         return this.formatSummary(diff, options);
+      case 'markdown':
+        return this.formatMarkdown(diff, options);
       default:
         return this.formatInline(diff, options);
     }
@@ -60,20 +129,25 @@ export class DiffService {
   private formatInline(diff: DiffResult, options: DiffOptions): string {
     const lines: string[] = [];
     const color = options.colorize && process.stdout.isTTY;
+    const show = (value: string) => maskValue(value, options.mask || DEFAULT_MASK);
+    const assignment = (key: string, value: string) => options.keysOnly ? key : `${key}=${show(value)}`;
 
     // Added
     for (const [key, value] of Object.entries(diff.added)) {
-      const line = `+ ${key}=${value}`;
+      const line = `+ ${assignment(key, value)}`;
       lines.push(color ? chalk.green(line) : line);
     }
 
     // Modified
     for (const [key, { old, new: newValue }] of Object.entries(diff.modified)) {
-      const header = `~ ${key}`;
-      const oldLine = `  - ${old}`;
-      const newLine = `  + ${newValue}`;
+      const hint = this.changeHint(old, newValue, options);
+      const header = `~ ${key}${hint ? ` (${hint})` : ''}`;
+      const oldLine = `  - ${show(old)}`;
+      const newLine = `  + ${show(newValue)}`;
       
-      if (color) {
+      if (options.keysOnly) {
+        lines.push(color ? chalk.yellow(header) : header);
+      } else if (color) {
         lines.push(chalk.yellow(header));
         lines.push(chalk.red(oldLine));
         lines.push(chalk.green(newLine));
@@ -86,13 +160,13 @@ export class DiffService {
 
     // Removed
     for (const [key, value] of Object.entries(diff.removed)) {
-      const line = `- ${key}=${value}`;
+      const line = `- ${assignment(key, value)}`;
       lines.push(color ? chalk.red(line) : line);
     }
 
     // Local only
     for (const [key, value] of Object.entries(diff.localOnly)) {
-      const line = `! ${key}=${value}`;
+      const line = `! ${assignment(key, value)}`;
       lines.push(color ? chalk.cyan(line) : line);
     }
 
@@ -102,57 +176,51 @@ export class DiffService {
   private formatSideBySide(diff: DiffResult, options: DiffOptions): string {
     const color = options.colorize && process.stdout.isTTY;
     const rows: Array<[string, string, string, string]> = [];
+    const show = (value: string) => maskValue(value, options.mask || DEFAULT_MASK);
+    const labels = options.labels || { left: 'LOCAL', right: 'REMOTE' };
 
     // Collect all rows
     for (const [key, value] of Object.entries(diff.added)) {
-      rows.push([key, '-', value, 'Added']);
+      rows.push([key, '-', show(value), 'Added']);
     }
 
     for (const [key, { old, new: newValue }] of Object.entries(diff.modified)) {
-      rows.push([key, old, newValue, 'Modified']);
+      const hint = this.changeHint(old, newValue, options);
+      rows.push([key, show(old), show(newValue), hint ? `Modified (${hint})` : 'Modified']);
     }
 
     for (const [key, value] of Object.entries(diff.removed)) {
-      rows.push([key, value, '-', 'Removed']);
+      rows.push([key, show(value), '-', 'Removed']);
     }
 
     for (const [key, value] of Object.entries(diff.localOnly)) {
-      rows.push([key, value, '-', 'Local Only']);
+      rows.push([key, show(value), '-', 'Local Only']);
     }
 
-    // Calculate column widths
-    const keyWidth = Math.max(10, ...rows.map(r => r[0].length));
-    const localWidth = Math.max(12, ...rows.map(r => r[1].length));
-    const remoteWidth = Math.max(12, ...rows.map(r => r[2].length));
-
-    // Format header
-    const header = [
-      'KEY'.padEnd(keyWidth),
-      'LOCAL'.padEnd(localWidth),
-      'REMOTE'.padEnd(remoteWidth),
-      'STATUS'
-    ].join(' | ');
+    // Keys-only drops the two value columns
+    const select = (row: string[]) => options.keysOnly ? [row[0], row[3]] : row;
+    const header = select(['KEY', labels.left, labels.right, 'STATUS']);
+    const minWidths = select([10, 12, 12, 11].map(String)).map(Number);
 
-    const separator = [
-      '-'.repeat(keyWidth),
-      '-'.repeat(localWidth),
-      '-'.repeat(remoteWidth),
-      '-'.repeat(11)
-    ].join('-|-');
+    // Calculate column widths; the last column is not padded
+    const widths = header.map((title, column) => column === header.length - 1
+      ? minWidths[column]
+      : Math.max(minWidths[column], title.length, ...rows.map(r => select(r)[column].length)));
 
-    const lines = [header, separator];
+    const lines = [
+      header.map((title, column) => column === header.length - 1 ? title : title.padEnd(widths[column])).join(' | '),
+      widths.map(width => '-'.repeat(width)).join('-|-')
+    ];
 
     // Format rows
-    for (const [key, local, remote, status] of rows) {
-      const row = [
-        key.padEnd(keyWidth),
-        local.padEnd(localWidth),
-        remote.padEnd(remoteWidth),
-        status
-      ].join(' | ');
+    for (const fullRow of rows) {
+      const status = fullRow[3];
+      const row = select(fullRow)
+        .map((cell, column) => column === header.length - 1 ? cell : cell.padEnd(widths[column]))
+        .join(' | ');
 
       if (color) {
-        switch (status) {
+        switch (status.split(' (')[0]) {
           case 'Added':
             lines.push(chalk.green(row));
             break;
@@ -210,38 +278,102 @@ export class DiffService {
     return parts.join(', ');
   }
 
-  async applyDiff(
-    filePath: string,
-    diff: DiffResult,
-    fileService: {
-      readEnvFile: (path: string) => Promise<Record<string, string>>;
-      writeEnvFile: (path: string, data: Record<string, string>) => Promise<void>;
-    }
-  ): Promise<void> {
-    const current = await fileService.readEnvFile(filePath);
-    const updated: Record<string, string> = {};
+  private formatMarkdown(diff: DiffResult, options: DiffOptions): string {
+    const cell = (value: string) => maskValue(value, options.mask || DEFAULT_MASK)
+      .replace(/\|/g, '\\|')
+      .replace(/\r?\n/g, '<br>');
+    const labels = options.labels || { left: 'Local', right: 'Remote' };
+    const row = (status: string, key: string, left = '', right = '') => {
+      const cells = options.keysOnly ? [status, `\`${key}\``] : [status, `\`${key}\``, left, right];
+      return `|${cells.map(text => text ? ` ${text} ` : ' ').join('|')}|`;
+    };
+    const lines = options.keysOnly
+      ? ['| Status | Key |', '| --- | --- |']
+      : [`| Status | Key | ${labels.left} | ${labels.right} |`, '| --- | --- | --- | --- |'];
 
-    // Start with remote values (added + modified)
     for (const [key, value] of Object.entries(diff.added)) {
-      updated[key] = value;
+      lines.push(row('Added', key, '', cell(value)));
     }
 
-    for (const [key, { new: newValue }] of Object.entries(diff.modified)) {
-      updated[key] = newValue;
+    for (const [key, { old, new: newValue }] of Object.entries(diff.modified)) {
+      const hint = this.changeHint(old, newValue, options);
+      lines.push(row(`Modified${hint ? ` (${hint})` : ''}`, key, cell(old), cell(newValue)));
     }
 
-    // Add unchanged values
-    for (const [key, value] of Object.entries(current)) {
-      if (!(key in diff.removed) && !(key in diff.modified)) {
-        updated[key] = value;
-      }
+    for (const [key, value] of Object.entries(diff.removed)) {
+      lines.push(row('Removed', key, cell(value)));
     }
 
-    // Preserve local-only variables
     for (const [key, value] of Object.entries(diff.localOnly)) {
-      updated[key] = value;
+      lines.push(row('Local only', key, cell(value)));
+    }
+
+    const counts = [
+      `${Object.keys(diff.added).length} added`,
+      `${Object.keys(diff.modified).length} modified`,
+      `${Object.keys(diff.removed).length} removed`,
+      `${Object.keys(diff.localOnly).length} local only`
+    ];
+    lines.push('', `_${counts.join(', ')}_`);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Hints at how a masked value changed; omitted when values are shown.
+   */
+  private changeHint(oldValue: string, newValue: string, options: DiffOptions): string | undefined {
+    const mask = options.mask || DEFAULT_MASK;
+    if (options.keysOnly || mask.style === 'none') {
+      return undefined;
+    }
+    return describeChange(oldValue, newValue);
+  }
+
+  private maskDiff(diff: DiffResult, options: DiffOptions): DiffResult {
+    const mask = options.mask || DEFAULT_MASK;
+    const maskAll = (values: Record<string, string>) => Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [key, maskValue(value, mask)])
+    );
+
+    const modified: DiffResult['modified'] = {};
+    for (const [key, { old, new: newValue }] of Object.entries(diff.modified)) {
+      modified[key] = { old: maskValue(old, mask), new: maskValue(newValue, mask) };
+    }
+
+    return {
+      ...diff,
+      added: maskAll(diff.added),
+      modified,
+      removed: maskAll(diff.removed),
+      localOnly: maskAll(diff.localOnly)
+    };
+  }
+
+  async applyDiff(
+    filePath: string,
+    diff: DiffResult,
+    fileService: {
+      updateEnvFile: (
+        path: string,
+        changes: DotenvChanges,
+        options?: DotenvChangeOptions
+      ) => Promise<void>;
+    },
+    options: DotenvChangeOptions = {}
+  ): Promise<void> {
+    await fileService.updateEnvFile(filePath, this.toDotenvChanges(diff), options);
+  }
+
+  /** The .env edits that applying `diff` makes */
+  toDotenvChanges(diff: DiffResult): DotenvChanges {
+    const set: Record<string, string> = { ...diff.added };
+
+    for (const [key, { new: newValue }] of Object.entries(diff.modified)) {
+      set[key] = newValue;
     }
 
-    await fileService.writeEnvFile(filePath, updated);
+    // Local-only variables are already in the file and are left untouched
+    return { set, remove: Object.keys(diff.removed) };
   }
-}
\ No newline at end of file
+}
@@ -1,11 +1,10 @@
-import fetch from 'node-fetch';
 import { AuthService } from './auth.service';
 import { ConfigService } from './config.service';
 import { CredentialService } from './credential.service';
 import { ProjectService } from './project.service';
+import { SupabaseClient } from './supabase-client';
 import { APIError, CLIError } from '../utils/errors';
 import { logger } from '../utils/logger';
-import { getSupabaseConfig } from '../config/defaults';
 
 export interface Environment {
   id: string;
@@ -33,15 +32,10 @@ export class EnvironmentService {
   private authService?: AuthService;
   private credentialService?: CredentialService;
   private projectService: ProjectService;
-  private baseUrl: string;
-  private anonKey: string;
+  private client = new SupabaseClient(() => this.getAuthService());
 
   constructor(private configService: ConfigService) {
     this.projectService = new ProjectService();
-    
-    const { url, anonKey } = getSupabaseConfig();
-    this.baseUrl = url;
-    this.anonKey = anonKey;
   }
 
   private getAuthService(): AuthService {
@@ -59,43 +53,10 @@ export class EnvironmentService {
     try {
       logger.debug('Fetching environments for project', { projectId });
       
-      // Get auth token
-      const token = await this.getAuthService().getStoredToken();
-      if (!token) {
-        throw new CLIError('Not authenticated', 'AUTH_REQUIRED');
-      }
-
-      // Query environments from Supabase
-      const response = await fetch(
-        `${this.baseUrl}/rest/v1/environments?project_id=eq.${projectId}&order=name`,
-        {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'apikey': this.anonKey,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new APIError(401, 'Authentication expired', 'AUTH_EXPIRED');
-        } else if (response.status === 403) {
-          throw new CLIError(
-            'You do not have access to this project',
-            'ACCESS_DENIED',
-            { projectId }
-          );
-        } else {
-          const errorText = await response.text();
-          throw new APIError(
-            response.status,
-            `Failed to fetch environments: ${errorText}`,
-            'FETCH_ERROR'
-          );
-        }
-      }
+      const response = await this.client.rest('GET', `environments?project_id=eq.${projectId}&order=name`, {
+        action: 'fetch environments',
+        messages: { 403: 'You do not have access to this project' },
+      });
 
       const environments = await response.json() as Environment[];
       return environments;
@@ -148,6 +109,41 @@ export class EnvironmentService {
     });
   }
 
+  async createEnvironment(projectId: string, name: string): Promise<Environment> {
+    const [created] = await this.request(
+      'POST',
+      'environments',
+      'create environment',
+      { project_id: projectId, name }
+    );
+    logger.info('Environment created', { projectId, environmentId: created.id });
+    return created;
+  }
+
+  async renameEnvironment(environmentId: string, name: string): Promise<Environment> {
+    const [updated] = await this.request(
+      'PATCH',
+      `environments?id=eq.${environmentId}`,
+      'rename environment',
+      { name }
+    );
+    if (!updated) {
+      throw new CLIError('Environment not found or you cannot modify it', 'ENVIRONMENT_NOT_FOUND', { environmentId });
+    }
+    return updated;
+  }
+
+  async deleteEnvironment(environmentId: string): Promise<void> {
+    const deleted = await this.request(
+      'DELETE',
+      `environments?id=eq.${environmentId}`,
+      'delete environment'
+    );
+    if (deleted.length === 0) {
+      throw new CLIError('Environment not found or you cannot delete it', 'ENVIRONMENT_NOT_FOUND', { environmentId });
+    }
+  }
+
   resolveEnvironmentAlias(alias: string): string {
     const lowercaseAlias = alias.toLowerCase();
     return ENV_ALIASES[lowercaseAlias] || alias;
@@ -172,4 +168,39 @@ export class EnvironmentService {
       return null;
     }
   }
+
+  /**
+   * Sends a write request and returns the affected rows. RLS filters rows the
+   * user may not change, so an empty result means "not found or not allowed".
+   */
+  private async request(
+    method: 'POST' | 'PATCH' | 'DELETE',
+    path: string,
+    action: string,
+    body?: unknown
+  ): Promise<Environment[]> {
+    try {
+      const response = await this.client.rest(method, path, {
+        action,
+        body,
+        headers: { 'Prefer': 'return=representation' },
+        messages: {
+          403: `You are not allowed to ${action}`,
+          409: `Failed to ${action}: an environment with that name already exists`,
+        },
+      });
+
+      const text = await response.text();
+      return text ? JSON.parse(text) as Environment[] : [];
+    } catch (error) {
+      if (error instanceof APIError || error instanceof CLIError) {
+        throw error;
+      }
+
+      throw new CLIError(
+        error instanceof Error ? error.message : 'Unknown error occurred',
+        'UNKNOWN_ERROR'
+      );
+    }
+  }
 }
\ No newline at end of file
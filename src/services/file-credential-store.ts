@@ -0,0 +1,184 @@
+import { promises as fs, readFileSync } from 'fs';
+import * as crypto from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { CredentialStore } from './memory-credential-store';
+import { CLIError } from '../utils/errors';
+import { withFileLock } from '../utils/lock';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+/** Set to encrypt the credential file with a passphrase instead of a machine-derived key */
+export const STORE_PASSPHRASE_ENV = 'EZENV_STORE_PASSPHRASE';
+
+type KeySource = 'passphrase' | 'machine';
+
+interface EncryptedCredentialFile {
+  version: 1;
+  keySource: KeySource;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Material for the machine-derived key. It ties the file to this machine and
+ * user; it is not a secret, so a passphrase is the stronger choice on shared hosts.
+ */
+function machineKeyMaterial(): string {
+  let machineId = '';
+  for (const file of ['/etc/machine-id', '/var/lib/dbus/machine-id']) {
+    try {
+      machineId = readFileSync(file, 'utf-8').trim();
+      break;
+    } catch {
+      // Not available on this platform
+    }
+  }
+  return ['ezenv-cli', machineId || os.hostname(), os.userInfo().username, os.homedir()].join(':');
+}
+
+/**
+ * Persistent store for machines without a usable system keychain. All
+ * entries live in one AES-256-GCM encrypted file (mode 0600) under ~/.ezenv.
+ */
+export class FileCredentialStore implements CredentialStore {
+  private filePath: string;
+  private lockPath: string;
+  private keys = new Map<string, Buffer>();
+
+  constructor(
+    baseDir: string = process.env.HOME || os.homedir(),
+    private passphrase: string | undefined = process.env[STORE_PASSPHRASE_ENV]
+  ) {
+    this.filePath = path.join(baseDir, '.ezenv', 'credentials.enc');
+    this.lockPath = path.join(baseDir, '.ezenv', 'locks', 'credentials.lock');
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  async store(service: string, account: string, password: string): Promise<void> {
+    await this.update(entries => {
+      entries[this.getKey(service, account)] = password;
+      return true;
+    });
+  }
+
+  async retrieve(service: string, account: string): Promise<string | null> {
+    const { entries } = await this.load();
+    return entries[this.getKey(service, account)] ?? null;
+  }
+
+  async delete(service: string, account: string): Promise<boolean> {
+    const key = this.getKey(service, account);
+    return this.update(entries => {
+      if (!(key in entries)) {
+        return false;
+      }
+      delete entries[key];
+      return true;
+    });
+  }
+
+  private getKey(service: string, account: string): string {
+    return `${service}:${account}`;
+  }
+
+  /**
+   * Reads, changes and rewrites the file under a lock, so two processes writing
+   * at once do not drop each other's entries. `change` returns whether to save.
+   */
+  private async update(change: (entries: Record<string, string>) => boolean): Promise<boolean> {
+    return withFileLock(this.lockPath, async () => {
+      const { entries, salt } = await this.load();
+      const changed = change(entries);
+      if (changed) {
+        await this.save(entries, salt);
+      }
+      return changed;
+    });
+  }
+
+  private async load(): Promise<{ entries: Record<string, string>; salt?: Buffer }> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { entries: {} };
+      }
+      throw error;
+    }
+
+    let file: EncryptedCredentialFile;
+    try {
+      file = JSON.parse(raw);
+    } catch {
+      throw new CLIError(`${this.filePath} is corrupted. Delete it and log in again`, 'CREDENTIAL_STORE_CORRUPT');
+    }
+
+    // Decrypt with whatever the file was written with; the next save switches
+    // to the current key source (e.g. after setting a passphrase)
+    if (file.keySource === 'passphrase' && !this.passphrase) {
+      throw new CLIError(
+        `${this.filePath} is protected by a passphrase. Set ${STORE_PASSPHRASE_ENV} to unlock it`,
+        'CREDENTIAL_STORE_LOCKED'
+      );
+    }
+
+    const salt = Buffer.from(file.salt, 'base64');
+    try {
+      const key = await this.deriveKey(file.keySource, salt);
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      return { entries: JSON.parse(plain.toString('utf8')), salt };
+    } catch {
+      throw new CLIError(
+        file.keySource === 'passphrase'
+          ? `Could not unlock ${this.filePath}. Check ${STORE_PASSPHRASE_ENV}`
+          : `Could not unlock ${this.filePath}; it was written on another machine or by another user`,
+        'CREDENTIAL_STORE_LOCKED'
+      );
+    }
+  }
+
+  private async save(entries: Record<string, string>, salt: Buffer = crypto.randomBytes(16)): Promise<void> {
+    const keySource: KeySource = this.passphrase ? 'passphrase' : 'machine';
+    const key = await this.deriveKey(keySource, salt);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(entries), 'utf8'), cipher.final()]);
+
+    const file: EncryptedCredentialFile = {
+      version: 1,
+      keySource,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+
+    // Write to a temp file and rename so a crash never leaves a half-written store
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+    await fs.chmod(this.filePath, 0o600);
+  }
+
+  private async deriveKey(source: KeySource, salt: Buffer): Promise<Buffer> {
+    const cacheKey = `${source}:${salt.toString('base64')}`;
+    let key = this.keys.get(cacheKey);
+    if (!key) {
+      const secret = source === 'passphrase' ? this.passphrase as string : machineKeyMaterial();
+      key = await scrypt(secret, salt, 32);
+      this.keys.set(cacheKey, key);
+    }
+    return key;
+  }
+}
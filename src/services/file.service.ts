@@ -3,6 +3,14 @@ import { dirname } from 'path';
 import { CLIError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { randomBytes } from 'crypto';
+import { isLocalOnlyKey } from './diff.service';
+import {
+  parseDotenv,
+  formatEnvValue,
+  applyDotenvChanges,
+  DotenvChanges,
+  DotenvChangeOptions
+} from '../utils/dotenv';
 
 export class FileService {
   async getEnvPath(): Promise<string> {
@@ -51,14 +59,11 @@ export class FileService {
     // Add all key-value pairs
     for (const [key, value] of Object.entries(data)) {
       // Mark local-only variables
-      if (key.startsWith('LOCAL_') || key.endsWith('_LOCAL')) {
+      if (isLocalOnlyKey(key)) {
         lines.push(`# Local-only variable`);
       }
       
-      // Quote value if it contains spaces or special characters
-      const needsQuotes = value.includes(' ') || value.includes('#') || value.includes('=');
-      const formattedValue = needsQuotes ? `"${value}"` : value;
-      lines.push(`${key}=${formattedValue}`);
+      lines.push(`${key}=${formatEnvValue(value)}`);
     }
     
     const content = lines.join('\n') + '\n';
@@ -99,26 +104,38 @@ export class FileService {
   }
 
   async readEnvFile(path: string): Promise<Record<string, string>> {
+    let content: string;
     try {
-      const content = await fs.readFile(path, 'utf8');
-      const result: Record<string, string> = {};
+      content = await fs.readFile(path, 'utf8');
+    } catch (error) {
+      logger.error('Failed to read file', { path, error });
+      throw new CLIError(
+        `Failed to read file: ${path}`,
+        'FILE_READ_FAILED',
+        { path }
+      );
+    }
 
-      // Parse .env format
-      const lines = content.split('\n');
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed || trimmed.startsWith('#')) continue;
-
-        const [key, ...valueParts] = trimmed.split('=');
-        if (key) {
-          const value = valueParts.join('=');
-          // Remove quotes if present
-          result[key] = value.replace(/^["']|["']$/g, '');
-        }
-      }
+    // Syntax errors surface as ENV_PARSE_ERROR with the offending line number
+    return parseDotenv(content, path);
+  }
 
-      return result;
+  /**
+   * Edits an existing .env file in place, touching only the changed lines.
+   * Falls back to writing a fresh file when none exists yet.
+   */
+  async updateEnvFile(
+    path: string,
+    changes: DotenvChanges,
+    options: DotenvChangeOptions = {}
+  ): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(path, 'utf8');
     } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return this.writeEnvFileFromData(path, changes.set);
+      }
       logger.error('Failed to read file', { path, error });
       throw new CLIError(
         `Failed to read file: ${path}`,
@@ -126,12 +143,33 @@ export class FileService {
         { path }
       );
     }
+
+    await this.writeEnvFileContent(applyDotenvChanges(content, changes, options), path);
+  }
+
+  /** Content of a file, or undefined when it does not exist */
+  async readFileIfExists(path: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw new CLIError(
+        `Failed to read file: ${path}`,
+        'FILE_READ_FAILED',
+        { path }
+      );
+    }
+  }
+
+  getBackupPath(path: string, date: Date = new Date()): string {
+    return `${path}.backup.${date.toISOString().replace(/[:.]/g, '-')}`;
   }
 
   async backupFile(path: string): Promise<void> {
     try {
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const backupPath = `${path}.backup.${timestamp}`;
+      const backupPath = this.getBackupPath(path);
       await fs.copyFile(path, backupPath);
       logger.debug('File backed up', { original: path, backup: backupPath });
     } catch (error) {
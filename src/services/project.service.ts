@@ -1,9 +1,9 @@
-import fetch from 'node-fetch'
 import { AuthService } from './auth.service'
 import { CredentialService } from './credential.service'
 import { ConfigService } from './config.service'
+import { SupabaseClient } from './supabase-client'
 import { APIError, CLIError } from '../utils/errors'
-import { getSupabaseConfig } from '../config/defaults'
+import { isUuid } from '../utils/uuid'
 
 export interface Project {
   id: string
@@ -33,6 +33,20 @@ interface RawProjectResponse {
   }
 }
 
+export interface Team {
+  id: string
+  name: string
+  role: 'admin' | 'manager' | 'member'
+}
+
+interface RawTeamMembership {
+  role: 'admin' | 'manager' | 'member'
+  team: {
+    id: string
+    name: string
+  } | null
+}
+
 export interface ProjectListResponse {
   projects: Project[]
   total: number
@@ -47,20 +61,15 @@ export interface ListOptions {
 }
 
 export class ProjectService {
-  private baseUrl: string
-  private anonKey: string
   private authService?: AuthService
   private credentialService?: CredentialService
   private configService: ConfigService
+  private client = new SupabaseClient(() => this.getAuthService())
   private cache: Map<string, { data: ProjectListResponse; timestamp: number }> = new Map()
   private readonly CACHE_TIMEOUT = 5 * 60 * 1000 // 5 minutes
 
   constructor() {
     this.configService = new ConfigService()
-
-    const { url, anonKey } = getSupabaseConfig()
-    this.baseUrl = url
-    this.anonKey = anonKey
   }
 
   private getAuthService(): AuthService {
@@ -83,18 +92,7 @@ export class ProjectService {
       return cached.data
     }
 
-    // Get stored token (auto-refresh handled centrally) and user info
-    const authService = this.getAuthService()
-    let token = await authService.getStoredToken()
-    if (!token) {
-      throw new CLIError('Not authenticated', 'AUTH_REQUIRED')
-    }
-    const tokenData = await authService.getStoredTokenData()
-    const userId = tokenData?.user_id
-
-    if (!userId) {
-      throw new CLIError('User ID not found in authentication data', 'AUTH_ERROR')
-    }
+    const userId = await this.getUserId()
 
     try {
       // Build query parameters for Supabase
@@ -115,49 +113,11 @@ export class ProjectService {
       // Filter team_members to only show current user's role
       params.append('team.team_members.user_id', `eq.${userId}`)
 
-      let response = await fetch(`${this.baseUrl}/rest/v1/projects?${params}`, {
-        method: 'GET',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          apikey: this.anonKey,
-          'Content-Type': 'application/json',
-          Prefer: 'count=exact',
-        },
+      const response = await this.client.rest('GET', `projects?${params}`, {
+        action: 'fetch projects',
+        headers: { Prefer: 'count=exact' },
       })
 
-      // Retry once on 401 by refreshing token
-      if (response.status === 401) {
-        const refreshed = await this.getAuthService().refreshToken()
-        if (!refreshed) {
-          throw new APIError(401, 'Authentication expired', 'AUTH_EXPIRED')
-        }
-        token = (await this.getAuthService().getStoredToken()) as string
-        response = await fetch(`${this.baseUrl}/rest/v1/projects?${params}`, {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${token}`,
-            apikey: this.anonKey,
-            'Content-Type': 'application/json',
-            Prefer: 'count=exact',
-          },
-        })
-      }
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new APIError(401, 'Authentication expired', 'AUTH_EXPIRED')
-        } else if (response.status === 403) {
-          throw new APIError(403, 'Access denied', 'ACCESS_DENIED')
-        } else {
-          const errorText = await response.text()
-          throw new APIError(
-            response.status,
-            `Failed to fetch projects: ${errorText}`,
-            'FETCH_ERROR'
-          )
-        }
-      }
-
       const rawProjects = (await response.json()) as RawProjectResponse[]
 
       // Process projects to extract user role from nested structure
@@ -200,10 +160,6 @@ export class ProjectService {
         throw error
       }
 
-      if (error instanceof Error && error.message.includes('ECONNREFUSED')) {
-        throw new CLIError('Network connection failed', 'NETWORK_ERROR')
-      }
-
       throw new CLIError(
         error instanceof Error ? error.message : 'Unknown error occurred',
         'UNKNOWN_ERROR'
@@ -212,62 +168,15 @@ export class ProjectService {
   }
 
   async getProject(projectId: string): Promise<Project> {
-    const authService = this.getAuthService()
-    let token = await authService.getStoredToken()
-    if (!token) {
-      throw new CLIError('Not authenticated', 'AUTH_REQUIRED')
-    }
-
-    const tokenData = await authService.getStoredTokenData()
-    const userId = tokenData?.user_id
-
-    if (!userId) {
-      throw new CLIError('User ID not found in authentication data', 'AUTH_ERROR')
-    }
+    const userId = await this.getUserId()
 
     try {
-      let response = await fetch(
-        `${this.baseUrl}/rest/v1/projects?id=eq.${projectId}&select=*,team:teams!inner(id,name,team_members!inner(role))&team.team_members.user_id=eq.${userId}`,
-        {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${token}`,
-            apikey: this.anonKey,
-            'Content-Type': 'application/json',
-          },
-        }
+      const response = await this.client.rest(
+        'GET',
+        `projects?id=eq.${projectId}&select=*,team:teams!inner(id,name,team_members!inner(role))&team.team_members.user_id=eq.${userId}`,
+        { action: 'fetch project', messages: { 403: 'Access denied to project' } }
       )
 
-      // Retry once on 401 by refreshing token
-      if (response.status === 401) {
-        const refreshed = await this.getAuthService().refreshToken()
-        if (!refreshed) {
-          throw new APIError(401, 'Authentication expired', 'AUTH_EXPIRED')
-        }
-        token = (await this.getAuthService().getStoredToken()) as string
-        response = await fetch(
-          `${this.baseUrl}/rest/v1/projects?id=eq.${projectId}&select=*,team:teams!inner(id,name,team_members!inner(role))&team.team_members.user_id=eq.${userId}`,
-          {
-            method: 'GET',
-            headers: {
-              Authorization: `Bearer ${token}`,
-              apikey: this.anonKey,
-              'Content-Type': 'application/json',
-            },
-          }
-        )
-      }
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new APIError(401, 'Authentication expired', 'AUTH_EXPIRED')
-        } else if (response.status === 403) {
-          throw new APIError(403, 'Access denied to project', 'ACCESS_DENIED')
-        } else {
-          throw new APIError(response.status, 'Failed to fetch project', 'FETCH_ERROR')
-        }
-      }
-
       const rawProjects = (await response.json()) as RawProjectResponse[]
       if (rawProjects.length === 0) {
         throw new CLIError('Project not found', 'NOT_FOUND')
@@ -326,6 +235,154 @@ export class ProjectService {
     }
   }
 
+  /**
+   * Resolves a project by ID, falling back to an exact (case-insensitive)
+   * name match. Only UUIDs are looked up by ID.
+   */
+  async findProject(nameOrId: string): Promise<Project> {
+    if (isUuid(nameOrId)) {
+      try {
+        return await this.getProject(nameOrId)
+      } catch (error) {
+        if (!(error instanceof CLIError && error.code === 'NOT_FOUND')) {
+          throw error
+        }
+      }
+    }
+
+    const { projects } = await this.listProjects({ limit: 100, search: nameOrId })
+    const project = projects.find((p) => p.name.toLowerCase() === nameOrId.toLowerCase())
+    if (!project) {
+      throw new CLIError(`Project "${nameOrId}" not found`, 'NOT_FOUND', { project: nameOrId })
+    }
+    return project
+  }
+
+  /**
+   * Resolves the project a command should act on: the one named on the
+   * command line, or the selected one.
+   */
+  async resolveProject(nameOrId?: string): Promise<Project> {
+    if (nameOrId) {
+      return this.findProject(nameOrId)
+    }
+
+    const project = await this.getSelectedProject()
+    if (!project) {
+      throw new CLIError(
+        'No project selected. Run "ezenv projects select" or pass --project',
+        'NO_PROJECT_SELECTED'
+      )
+    }
+    return project
+  }
+
+  async listTeams(): Promise<Team[]> {
+    const userId = await this.getUserId()
+    const memberships = await this.request<RawTeamMembership>(
+      'GET',
+      `team_members?user_id=eq.${userId}&select=role,team:teams(id,name)`,
+      'fetch teams'
+    )
+
+    return memberships.flatMap(({ role, team }) =>
+      team ? [{ id: team.id, name: team.name, role }] : []
+    )
+  }
+
+  async createProject(name: string, team: Team): Promise<Project> {
+    const [created] = await this.request<RawProjectResponse>(
+      'POST',
+      'projects',
+      'create project',
+      { name, team_id: team.id }
+    )
+    this.clearCache()
+
+    return {
+      id: created.id,
+      name: created.name,
+      team_id: created.team_id,
+      team: { id: team.id, name: team.name },
+      user_role: team.role,
+      created_at: created.created_at,
+      updated_at: created.updated_at,
+    }
+  }
+
+  async renameProject(projectId: string, name: string): Promise<void> {
+    const updated = await this.request<RawProjectResponse>(
+      'PATCH',
+      `projects?id=eq.${projectId}`,
+      'rename project',
+      { name }
+    )
+    this.clearCache()
+
+    if (updated.length === 0) {
+      throw new CLIError('Project not found or you cannot modify it', 'NOT_FOUND', { projectId })
+    }
+  }
+
+  async deleteProject(projectId: string): Promise<void> {
+    const deleted = await this.request<RawProjectResponse>(
+      'DELETE',
+      `projects?id=eq.${projectId}`,
+      'delete project'
+    )
+    this.clearCache()
+
+    if (deleted.length === 0) {
+      throw new CLIError('Project not found or you cannot delete it', 'NOT_FOUND', { projectId })
+    }
+  }
+
+  private async getUserId(): Promise<string> {
+    const tokenData = await this.getAuthService().getStoredTokenData()
+    if (!tokenData) {
+      throw new CLIError('Not authenticated', 'AUTH_REQUIRED')
+    }
+    if (!tokenData.user_id) {
+      throw new CLIError('User ID not found in authentication data', 'AUTH_ERROR')
+    }
+    return tokenData.user_id
+  }
+
+  /**
+   * Sends a REST request and returns the affected rows. RLS hides rows the
+   * user may not touch, so an empty result is left for the caller to interpret.
+   */
+  private async request<T>(
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+    path: string,
+    action: string,
+    body?: unknown
+  ): Promise<T[]> {
+    try {
+      const response = await this.client.rest(method, path, {
+        action,
+        body,
+        headers: { Prefer: 'return=representation' },
+        messages: {
+          403: `You are not allowed to ${action}`,
+          409: `Failed to ${action}: the name is already taken`,
+        },
+      })
+
+      const text = await response.text()
+      return text ? (JSON.parse(text) as T[]) : []
+    } catch (error) {
+      if (error instanceof APIError || error instanceof CLIError) {
+        throw error
+      }
+
+      throw new CLIError(
+        error instanceof Error ? error.message : 'Unknown error occurred',
+        'UNKNOWN_ERROR'
+      )
+    }
+  }
+
   clearCache(): void {
     this.cache.clear()
   }
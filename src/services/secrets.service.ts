@@ -1,9 +1,10 @@
-import fetch from 'node-fetch'
 import { AuthService } from './auth.service'
 import { CredentialService } from './credential.service'
+import { SupabaseClient } from './supabase-client'
 import { APIError, CLIError } from '../utils/errors'
 import { logger } from '../utils/logger'
-import { getSupabaseConfig } from '../config/defaults'
+import { isUuid } from '../utils/uuid'
+import { isLocalOnlyKey } from './diff.service'
 
 export interface GetSecretsRequest {
   projectName: string
@@ -14,17 +15,18 @@ export interface GetSecretsResponse {
   secrets: Record<string, string>
 }
 
+export interface SecretChanges {
+  upsert: Record<string, string>
+  delete: string[]
+}
+
 export class SecretsService {
   private authService?: AuthService
   private credentialService?: CredentialService
-  private baseUrl: string
-  private anonKey: string
+  private client = new SupabaseClient(() => this.getAuthService())
 
   constructor(_apiService?: unknown) {
     // _apiService parameter kept for backward compatibility but not used
-    const { url, anonKey } = getSupabaseConfig()
-    this.baseUrl = url
-    this.anonKey = anonKey
   }
 
   private getAuthService(): AuthService {
@@ -45,177 +47,17 @@ export class SecretsService {
     try {
       logger.debug('Fetching secrets', { projectNameOrId, environmentNameOrId })
 
-      // Get token (auto-refresh handled centrally in AuthService)
-      const auth = this.getAuthService()
-      let token = await auth.getStoredToken()
-      if (!token) {
-        throw new CLIError('Not authenticated', 'AUTH_REQUIRED')
-      }
-
-      let projectId: string
-      let environmentId: string
-
-      // Check if projectNameOrId is a UUID (has dashes in UUID format)
-      const isProjectUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
-        projectNameOrId
+      const { projectId, environmentId } = await this.resolveIds(
+        projectNameOrId,
+        environmentNameOrId
       )
 
-      if (isProjectUuid) {
-        projectId = projectNameOrId
-      } else {
-        // Get project by name
-        let projectResponse = await fetch(
-          `${this.baseUrl}/rest/v1/projects?name=eq.${encodeURIComponent(projectNameOrId)}&select=id`,
-          {
-            method: 'GET',
-            headers: {
-              Authorization: `Bearer ${token}`,
-              apikey: this.anonKey,
-              'Content-Type': 'application/json',
-            },
-          }
-        )
-
-        // Retry once on 401 by refreshing token
-        if (projectResponse.status === 401) {
-          const refreshed = await this.getAuthService().refreshToken()
-          if (!refreshed) {
-            throw new APIError(401, 'Authentication expired', 'AUTH_EXPIRED')
-          }
-          token = (await this.getAuthService().getStoredToken()) as string
-          projectResponse = await fetch(
-            `${this.baseUrl}/rest/v1/projects?name=eq.${encodeURIComponent(projectNameOrId)}&select=id`,
-            {
-              method: 'GET',
-              headers: {
-                Authorization: `Bearer ${token}`,
-                apikey: this.anonKey,
-                'Content-Type': 'application/json',
-              },
-            }
-          )
-        }
-
-        if (!projectResponse.ok) {
-          throw new APIError(
-            projectResponse.status,
-            'Failed to fetch project',
-            'PROJECT_FETCH_ERROR'
-          )
-        }
-
-        const projects = (await projectResponse.json()) as Array<{ id: string }>
-        if (projects.length === 0) {
-          throw new CLIError('Project not found', 'PROJECT_NOT_FOUND')
-        }
-
-        projectId = projects[0].id
-      }
-
-      // Check if environmentNameOrId is a UUID
-      const isEnvironmentUuid =
-        /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(environmentNameOrId)
-
-      if (isEnvironmentUuid) {
-        environmentId = environmentNameOrId
-      } else {
-        // Get environment by name and project ID
-        let envResponse = await fetch(
-          `${this.baseUrl}/rest/v1/environments?project_id=eq.${projectId}&name=eq.${encodeURIComponent(environmentNameOrId)}&select=id`,
-          {
-            method: 'GET',
-            headers: {
-              Authorization: `Bearer ${token}`,
-              apikey: this.anonKey,
-              'Content-Type': 'application/json',
-            },
-          }
-        )
-
-        // Retry once on 401 by refreshing token
-        if (envResponse.status === 401) {
-          const refreshed = await this.getAuthService().refreshToken()
-          if (!refreshed) {
-            throw new APIError(401, 'Authentication expired', 'AUTH_EXPIRED')
-          }
-          token = (await this.getAuthService().getStoredToken()) as string
-          envResponse = await fetch(
-            `${this.baseUrl}/rest/v1/environments?project_id=eq.${projectId}&name=eq.${encodeURIComponent(environmentNameOrId)}&select=id`,
-            {
-              method: 'GET',
-              headers: {
-                Authorization: `Bearer ${token}`,
-                apikey: this.anonKey,
-                'Content-Type': 'application/json',
-              },
-            }
-          )
-        }
-
-        if (!envResponse.ok) {
-          throw new APIError(envResponse.status, 'Failed to fetch environment', 'ENV_FETCH_ERROR')
-        }
-
-        const environments = (await envResponse.json()) as Array<{ id: string }>
-        if (environments.length === 0) {
-          throw new CLIError('Environment not found', 'ENV_NOT_FOUND')
-        }
-
-        environmentId = environments[0].id
-      }
-
-      // Call Edge Function to get decrypted secrets
-      let secretsResponse = await fetch(`${this.baseUrl}/functions/v1/get-secrets`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          apikey: this.anonKey,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          projectId,
-          environmentId,
-        }),
-      })
-
-      // Retry once on 401 by refreshing token
-      if (secretsResponse.status === 401) {
-        const refreshed = await this.getAuthService().refreshToken()
-        if (!refreshed) {
-          throw new APIError(401, 'Authentication expired', 'AUTH_EXPIRED')
-        }
-        token = (await this.getAuthService().getStoredToken()) as string
-        secretsResponse = await fetch(`${this.baseUrl}/functions/v1/get-secrets`, {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${token}`,
-            apikey: this.anonKey,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            projectId,
-            environmentId,
-          }),
-        })
-      }
-
-      if (!secretsResponse.ok) {
-        if (secretsResponse.status === 401) {
-          throw new APIError(401, 'Authentication expired', 'AUTH_EXPIRED')
-        } else if (secretsResponse.status === 403) {
-          throw new APIError(403, 'Access denied', 'ACCESS_DENIED')
-        } else if (secretsResponse.status === 404) {
-          const error = (await secretsResponse.json()) as { error?: string }
-          throw new APIError(404, error.error || 'Not found', 'NOT_FOUND')
-        } else {
-          const errorText = await secretsResponse.text()
-          throw new APIError(
-            secretsResponse.status,
-            `Failed to fetch secrets: ${errorText}`,
-            'FETCH_ERROR'
-          )
-        }
-      }
+      // Call Edge Function to get decrypted secrets; it only reads, so it is safe to retry
+      const secretsResponse = await this.client.invoke(
+        'get-secrets',
+        { projectId, environmentId },
+        { action: 'fetch secrets', idempotent: true }
+      )
 
       const response = (await secretsResponse.json()) as { secrets: Record<string, string> }
       const secrets = response.secrets || {}
@@ -238,4 +80,96 @@ export class SecretsService {
       })
     }
   }
+
+  async updateSecrets(
+    projectNameOrId: string,
+    environmentNameOrId: string,
+    changes: SecretChanges
+  ): Promise<void> {
+    const localOnlyKeys = [...Object.keys(changes.upsert), ...changes.delete].filter(isLocalOnlyKey)
+    if (localOnlyKeys.length > 0) {
+      throw new CLIError('Local-only variables cannot be stored remotely', 'LOCAL_ONLY_KEY', {
+        keys: localOnlyKeys,
+      })
+    }
+
+    try {
+      // Never log secret values
+      logger.debug('Updating secrets', {
+        projectNameOrId,
+        environmentNameOrId,
+        upsert: Object.keys(changes.upsert).length,
+        delete: changes.delete.length,
+      })
+
+      const { projectId, environmentId } = await this.resolveIds(
+        projectNameOrId,
+        environmentNameOrId
+      )
+
+      await this.client.invoke(
+        'update-secrets',
+        { projectId, environmentId, upsert: changes.upsert, delete: changes.delete },
+        { action: 'update secrets', errorCode: 'UPDATE_ERROR' }
+      )
+
+      logger.debug('Secrets updated successfully')
+    } catch (error) {
+      if (error instanceof APIError || error instanceof CLIError) {
+        throw error
+      }
+
+      logger.error('Failed to update secrets', error)
+      throw new CLIError('Failed to update secrets', 'SECRETS_UPDATE_FAILED', {
+        projectNameOrId,
+        environmentNameOrId,
+      })
+    }
+  }
+
+  private async resolveIds(
+    projectNameOrId: string,
+    environmentNameOrId: string
+  ): Promise<{ projectId: string; environmentId: string }> {
+    let projectId: string
+    let environmentId: string
+
+    if (isUuid(projectNameOrId)) {
+      projectId = projectNameOrId
+    } else {
+      // Get project by name
+      const projectResponse = await this.client.rest(
+        'GET',
+        `projects?name=eq.${encodeURIComponent(projectNameOrId)}&select=id`,
+        { action: 'fetch project', errorCode: 'PROJECT_FETCH_ERROR' }
+      )
+
+      const projects = (await projectResponse.json()) as Array<{ id: string }>
+      if (projects.length === 0) {
+        throw new CLIError('Project not found', 'PROJECT_NOT_FOUND')
+      }
+
+      projectId = projects[0].id
+    }
+
+    if (isUuid(environmentNameOrId)) {
+      environmentId = environmentNameOrId
+    } else {
+      // Get environment by name and project ID
+      const envResponse = await this.client.rest(
+        'GET',
+        `environments?project_id=eq.${projectId}&name=eq.${encodeURIComponent(environmentNameOrId)}&select=id`,
+        { action: 'fetch environment', errorCode: 'ENV_FETCH_ERROR' }
+      )
+
+      const environments = (await envResponse.json()) as Array<{ id: string }>
+      if (environments.length === 0) {
+        throw new CLIError('Environment not found', 'ENV_NOT_FOUND')
+      }
+
+      environmentId = environments[0].id
+    }
+
+    return { projectId, environmentId }
+  }
 }
@@ -0,0 +1,106 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { logger } from '../utils/logger';
+import { hasKeyRules, KeyRules } from '../utils/key-rules';
+
+export interface SyncSnapshot {
+  projectId: string;
+  environmentId: string;
+  envPath: string;
+  syncedAt: string;
+  /** Random key for `hashes`, drawn anew on every save */
+  salt: string;
+  /** HMAC-SHA-256 of each remote value at the last successful sync */
+  hashes: Record<string, string>;
+}
+
+/** Keyed so a leaked snapshot cannot be checked against guessed values offline */
+export function hashSecretValue(value: string, salt: string): string {
+  return createHmac('sha256', salt).update(value).digest('hex');
+}
+
+/**
+ * Stores the remote state seen at the last successful sync so the next sync
+ * can tell local edits apart from remote changes. Only salted value hashes are kept.
+ */
+export class SnapshotService {
+  private snapshotDir: string;
+
+  constructor(baseDir: string = process.env.HOME || '') {
+    this.snapshotDir = path.join(baseDir, '.ezenv', 'snapshots');
+  }
+
+  async load(
+    projectId: string,
+    environmentId: string,
+    envPath: string,
+    keyRules: KeyRules = {}
+  ): Promise<SyncSnapshot | null> {
+    try {
+      const data = await fs.readFile(this.getSnapshotPath(projectId, environmentId, envPath, keyRules), 'utf-8');
+      const snapshot = JSON.parse(data) as SyncSnapshot;
+      // Snapshots from before hashes were salted cannot be compared against
+      return snapshot.hashes && snapshot.salt ? snapshot : null;
+    } catch (error) {
+      // No snapshot yet (first sync) or unreadable; fall back to a two-way diff
+      return null;
+    }
+  }
+
+  async save(
+    projectId: string,
+    environmentId: string,
+    envPath: string,
+    remote: Record<string, string>,
+    keyRules: KeyRules = {}
+  ): Promise<void> {
+    const salt = randomBytes(16).toString('hex');
+    const hashes: Record<string, string> = {};
+    for (const [key, value] of Object.entries(remote)) {
+      hashes[key] = hashSecretValue(value, salt);
+    }
+
+    const snapshot: SyncSnapshot = {
+      projectId,
+      environmentId,
+      envPath: path.resolve(envPath),
+      syncedAt: new Date().toISOString(),
+      salt,
+      hashes
+    };
+
+    try {
+      await fs.mkdir(this.snapshotDir, { recursive: true, mode: 0o700 });
+      await fs.writeFile(
+        this.getSnapshotPath(projectId, environmentId, envPath, keyRules),
+        JSON.stringify(snapshot, null, 2),
+        { mode: 0o600 }
+      );
+    } catch (error) {
+      // A missing snapshot only disables conflict detection on the next sync
+      logger.warn('Failed to save sync snapshot', error);
+    }
+  }
+
+  /**
+   * Snapshots hold remote keys as the key rules renamed them, so each set of
+   * rules gets its own; changing the rules starts again from a two-way diff.
+   */
+  getSnapshotPath(projectId: string, environmentId: string, envPath: string, keyRules: KeyRules = {}): string {
+    let input = `${projectId}\n${environmentId}\n${path.resolve(envPath)}`;
+    if (hasKeyRules(keyRules)) {
+      input += `\n${JSON.stringify([
+        [...keyRules.only ?? []].sort(),
+        [...keyRules.exclude ?? []].sort(),
+        keyRules.stripPrefix ?? '',
+        keyRules.addPrefix ?? ''
+      ])}`;
+    }
+    const id = createHash('sha256')
+      .update(input)
+      .digest('hex')
+      .slice(0, 16);
+    return path.join(this.snapshotDir, `${id}.json`);
+  }
+}
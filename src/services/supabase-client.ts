@@ -0,0 +1,243 @@
+import { Response } from 'node-fetch';
+import { AuthService } from './auth.service';
+import { APIError, CLIError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { fetch } from '../utils/network';
+import { getSupabaseConfig } from '../config/defaults';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface SupabaseRequestOptions {
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Used in error messages, e.g. "fetch projects" gives "Failed to fetch projects: ..." */
+  action?: string;
+  /** Code for failures without a more specific mapping */
+  errorCode?: string;
+  /** Overrides the error message for individual status codes */
+  messages?: Partial<Record<number, string>>;
+  timeoutMs?: number;
+  retries?: number;
+  /**
+   * Whether repeating the request is harmless. Defaults to true for everything
+   * but POST; edge functions that only read can opt in.
+   */
+  idempotent?: boolean;
+}
+
+// The request never reached the server, so retrying is safe for any method
+const CONNECT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+// The connection broke mid-request; only idempotent requests are repeated
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ECONNABORTED',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+]);
+
+function errorCode(error: unknown): string | undefined {
+  const err = error as { code?: string; cause?: { code?: string } };
+  return err?.code ?? err?.cause?.code;
+}
+
+/**
+ * Seconds or an HTTP date, as allowed by RFC 9110. Returns milliseconds.
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * The one way services talk to the Supabase REST API and edge functions.
+ * Adds the auth headers, refreshes the session and retries once on 401,
+ * backs off on network errors, 5xx and 429, and maps failures to APIError.
+ */
+export class SupabaseClient {
+  static DEFAULT_TIMEOUT_MS = 30000;
+  static MAX_RETRIES = 3;
+  static RETRY_BASE_DELAY_MS = 500;
+  // A longer Retry-After is reported instead of waited out
+  static MAX_RETRY_AFTER_MS = 60000;
+
+  constructor(private getAuthService: () => AuthService) {}
+
+  /** GET/POST/... against `/rest/v1/<path>` */
+  rest(method: HttpMethod, path: string, options: SupabaseRequestOptions = {}): Promise<Response> {
+    return this.request(method, `/rest/v1/${path}`, options);
+  }
+
+  /** Invokes the edge function `name` with a JSON body */
+  invoke(name: string, body: unknown, options: SupabaseRequestOptions = {}): Promise<Response> {
+    return this.request('POST', `/functions/v1/${name}`, { ...options, body });
+  }
+
+  /**
+   * Sends an authenticated request to the current backend instance and
+   * returns the response once it is ok. Errors are thrown as APIError
+   * (HTTP failures) or CLIError (no login, network, timeout).
+   */
+  async request(method: HttpMethod, path: string, options: SupabaseRequestOptions = {}): Promise<Response> {
+    const authService = this.getAuthService();
+    let token = await authService.getStoredToken();
+    if (!token) {
+      throw new CLIError('Not authenticated', 'AUTH_REQUIRED');
+    }
+
+    let response = await this.send(method, path, token, options);
+
+    if (response.status === 401) {
+      const refreshed = await authService.refreshToken();
+      if (!refreshed) {
+        throw new APIError(401, 'Authentication expired', 'AUTH_EXPIRED');
+      }
+      token = (await authService.getStoredToken()) as string;
+      response = await this.send(method, path, token, options);
+    }
+
+    if (!response.ok) {
+      throw await this.toError(response, options);
+    }
+    return response;
+  }
+
+  /** One logical request: retries transient failures with exponential backoff */
+  private async send(
+    method: HttpMethod,
+    path: string,
+    token: string,
+    options: SupabaseRequestOptions
+  ): Promise<Response> {
+    const { url, anonKey } = getSupabaseConfig();
+    const maxRetries = options.retries ?? SupabaseClient.MAX_RETRIES;
+    const idempotent = options.idempotent ?? method !== 'POST';
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.fetchWithTimeout(`${url}${path}`, {
+          method,
+          headers: {
+            Authorization: `Bearer ${token}`,
+            apikey: anonKey,
+            'Content-Type': 'application/json',
+            ...options.headers,
+          },
+          body: options.body === undefined ? undefined : JSON.stringify(options.body),
+        }, options.timeoutMs ?? SupabaseClient.DEFAULT_TIMEOUT_MS);
+      } catch (error) {
+        const code = errorCode(error);
+        const retryable = CONNECT_ERROR_CODES.has(code ?? '') ||
+          (idempotent && (TRANSIENT_ERROR_CODES.has(code ?? '') || (error instanceof CLIError && error.code === 'TIMEOUT')));
+        if (retryable && attempt < maxRetries) {
+          logger.debug(`Retrying ${method} ${path} after ${code}`, { attempt: attempt + 1 });
+          await this.sleep(this.backoff(attempt));
+          continue;
+        }
+        if (error instanceof CLIError) {
+          throw error;
+        }
+        if (code && (CONNECT_ERROR_CODES.has(code) || TRANSIENT_ERROR_CODES.has(code))) {
+          throw new CLIError('Network connection failed', 'NETWORK_ERROR', { code, url });
+        }
+        throw error;
+      }
+
+      if (attempt < maxRetries) {
+        if (response.status === 429) {
+          const wait = parseRetryAfter(response.headers.get('retry-after')) ?? this.backoff(attempt);
+          if (wait <= SupabaseClient.MAX_RETRY_AFTER_MS) {
+            logger.debug(`Rate limited on ${method} ${path}, waiting ${wait}ms`);
+            await this.sleep(wait);
+            continue;
+          }
+        } else if (response.status >= 500 && idempotent) {
+          logger.debug(`Retrying ${method} ${path} after HTTP ${response.status}`, { attempt: attempt + 1 });
+          await this.sleep(this.backoff(attempt));
+          continue;
+        }
+      }
+      return response;
+    }
+  }
+
+  private async fetchWithTimeout(
+    url: string,
+    init: { method: string; headers: Record<string, string>; body?: string },
+    timeoutMs: number
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new CLIError(`Request timed out after ${Math.round(timeoutMs / 1000)}s`, 'TIMEOUT', { url });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async toError(response: Response, options: SupabaseRequestOptions): Promise<APIError> {
+    const { status } = response;
+    const action = options.action ?? 'complete the request';
+    const override = options.messages?.[status];
+
+    if (status === 401) {
+      return new APIError(401, override ?? 'Authentication expired', 'AUTH_EXPIRED');
+    }
+    if (status === 403) {
+      return new APIError(403, override ?? 'Access denied', 'ACCESS_DENIED');
+    }
+    if (status === 409) {
+      return new APIError(409, override ?? `Failed to ${action}: it already exists`, 'ALREADY_EXISTS');
+    }
+    if (status === 429) {
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      return new APIError(
+        429,
+        override ?? 'Too many requests, please try again later',
+        'RATE_LIMITED',
+        retryAfter === undefined ? undefined : { retryAfterSeconds: Math.ceil(retryAfter / 1000) }
+      );
+    }
+
+    const text = await response.text().catch(() => '');
+    if (status === 404) {
+      return new APIError(404, override ?? this.errorField(text) ?? 'Not found', 'NOT_FOUND');
+    }
+    return new APIError(status, override ?? `Failed to ${action}: ${text}`, options.errorCode ?? 'FETCH_ERROR');
+  }
+
+  /** The `error` or `message` field of a JSON error body */
+  private errorField(text: string): string | undefined {
+    try {
+      const body = JSON.parse(text) as { error?: unknown; message?: unknown };
+      const message = body.error ?? body.message;
+      return typeof message === 'string' ? message : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private backoff(attempt: number): number {
+    // 0.5s, 1s, 2s, ...
+    return SupabaseClient.RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
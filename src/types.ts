@@ -15,10 +15,20 @@ export interface AuthConfig {
 export interface LoginOptions {
   openBrowser?: boolean;
   signal?: AbortSignal;
+  /** OAuth provider for browser logins, e.g. github or google */
+  provider?: string;
+  /** Company domain for SAML SSO; used instead of `provider` when set */
+  ssoDomain?: string;
+  timeoutMs?: number;
+  /** Receives the authorize URL so it can be shown if no browser opens */
+  onAuthorizeUrl?: (url: string) => void;
 }
 
 export type Environment = 'development' | 'staging' | 'production' | 'test';
 
+/** Where login tokens are kept: the system keychain, an encrypted file, or memory */
+export type CredentialBackend = 'keychain' | 'file' | 'memory';
+
 export interface DiffResult {
   added: Record<string, string>;
   modified: Record<string, { old: string; new: string }>;
@@ -27,8 +37,39 @@ export interface DiffResult {
   timestamp?: string;
 }
 
+export type MaskStyle = 'full' | 'partial' | 'hash' | 'none';
+
+export interface MaskOptions {
+  style: MaskStyle;
+  /** Characters shown at each end with the `partial` style */
+  reveal?: number;
+}
+
 export interface DiffOptions {
-  format: 'inline' | 'side-by-side' | 'summary';
+  format: 'inline' | 'side-by-side' | 'summary' | 'json' | 'markdown';
   colorize: boolean;
   contextLines?: number;
-}
\ No newline at end of file
+  /** How values are shown; masked with DEFAULT_MASK when omitted */
+  mask?: MaskOptions;
+  /** Show only which keys differ, never their values */
+  keysOnly?: boolean;
+  /** Column names for the two sides (default: LOCAL and REMOTE) */
+  labels?: { left: string; right: string };
+}
+
+export interface MergeConflict {
+  key: string;
+  /** Local value, or undefined when the key was deleted locally */
+  local?: string;
+  /** Remote value, or undefined when the key was deleted remotely */
+  remote?: string;
+}
+
+export interface MergeResult {
+  /** Remote changes that can be applied without touching local edits */
+  remote: DiffResult;
+  /** Keys edited locally since the last sync, kept as they are */
+  local: string[];
+  /** Keys changed on both sides to different values */
+  conflicts: MergeConflict[];
+}
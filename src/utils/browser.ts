@@ -0,0 +1,31 @@
+import { spawn } from 'child_process';
+import { detectPlatform } from './platform';
+
+/**
+ * Opens a URL in the default browser. Resolves once the opener has started;
+ * rejects if no opener is available (e.g. on a headless machine).
+ */
+export function openBrowser(url: string): Promise<void> {
+  const [command, args] = openerFor(url);
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: 'ignore', detached: true });
+    child.once('error', reject);
+    child.once('spawn', () => {
+      child.unref();
+      resolve();
+    });
+  });
+}
+
+function openerFor(url: string): [string, string[]] {
+  switch (detectPlatform()) {
+    case 'darwin':
+      return ['open', [url]];
+    case 'win32':
+      // Avoids cmd.exe, which would split the URL on "&"
+      return ['rundll32', ['url.dll,FileProtocolHandler', url]];
+    default:
+      return ['xdg-open', [url]];
+  }
+}
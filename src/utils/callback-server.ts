@@ -0,0 +1,97 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { CLIError } from './errors';
+
+export interface CallbackServer {
+  /** URL the identity provider should redirect back to */
+  redirectUri: string;
+  /** Resolves with the authorization code from the first valid callback */
+  waitForCode(): Promise<string>;
+  close(): Promise<void>;
+}
+
+export interface CallbackServerOptions {
+  signal?: AbortSignal;
+  timeoutMs: number;
+}
+
+const CALLBACK_PATH = '/callback';
+
+const page = (title: string, message: string) =>
+  `<!doctype html><html><head><meta charset="utf-8"><title>EzEnv CLI</title></head>` +
+  `<body style="font-family:sans-serif;text-align:center;margin-top:15vh">` +
+  `<h2>${title}</h2><p>${message}</p></body></html>`;
+
+/**
+ * Starts a one-shot HTTP server on 127.0.0.1 that waits for the OAuth
+ * redirect. The `state` value is carried in the redirect URI and checked on
+ * the way back so a stray request cannot complete the login.
+ */
+export async function startCallbackServer(state: string, options: CallbackServerOptions): Promise<CallbackServer> {
+  let settle: { resolve: (code: string) => void; reject: (error: Error) => void };
+  const result = new Promise<string>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+  // Avoid an unhandled rejection if the caller never awaits the code
+  result.catch(() => undefined);
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+    if (url.pathname !== CALLBACK_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    if (url.searchParams.get('state') !== state) {
+      res.writeHead(400, { 'Content-Type': 'text/html' });
+      res.end(page('Login failed', 'The login request did not match. Run the command again.'));
+      return;
+    }
+
+    const error = url.searchParams.get('error_description') || url.searchParams.get('error');
+    const code = url.searchParams.get('code');
+
+    if (error || !code) {
+      res.writeHead(400, { 'Content-Type': 'text/html' });
+      res.end(page('Login failed', 'You can close this window and return to the terminal.'));
+      settle.reject(new CLIError(`Browser login failed: ${error || 'no authorization code received'}`, 'WEB_AUTH_FAILED'));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(page('Logged in to EzEnv', 'You can close this window and return to the terminal.'));
+    settle.resolve(code);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve());
+  });
+
+  const timer = setTimeout(() => {
+    settle.reject(new CLIError('Timed out waiting for the browser login', 'WEB_AUTH_TIMEOUT'));
+  }, options.timeoutMs);
+
+  const onAbort = () => settle.reject(new CLIError('Browser login cancelled', 'WEB_AUTH_CANCELLED'));
+  if (options.signal?.aborted) {
+    onAbort();
+  } else {
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const { port } = server.address() as AddressInfo;
+  const redirectUri = `http://127.0.0.1:${port}${CALLBACK_PATH}?state=${state}`;
+
+  return {
+    redirectUri,
+    waitForCode: () => result,
+    close: () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      return new Promise(resolve => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+    }
+  };
+}
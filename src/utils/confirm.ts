@@ -0,0 +1,25 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { CLIError } from './errors';
+
+/**
+ * Guards destructive operations by having the user type the resource name,
+ * either at a prompt or up front through --confirm <name>.
+ */
+export async function confirmByName(name: string, message: string, confirm?: string): Promise<boolean> {
+  if (confirm !== undefined) {
+    if (confirm !== name) {
+      throw new CLIError(`Confirmation "${confirm}" does not match "${name}"`, 'CONFIRMATION_MISMATCH');
+    }
+    return true;
+  }
+
+  const { typed } = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'typed',
+      message: `${message} Type ${chalk.red(name)} to confirm:`
+    }
+  ]);
+  return typed === name;
+}
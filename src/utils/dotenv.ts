@@ -0,0 +1,294 @@
+import { CLIError } from './errors';
+
+export interface DotenvEntry {
+  key: string;
+  value: string;
+  /** 1-based line on which the assignment starts */
+  line: number;
+  /** 1-based line on which the assignment ends (differs for multi-line values) */
+  endLine: number;
+  /** Text before the value on the first line, e.g. `export KEY = ` */
+  prefix: string;
+  /** Quote character the value was written with, if any */
+  quote?: '"' | "'" | '`';
+  /** Text after the value on the last line: trailing whitespace and inline comment */
+  suffix: string;
+}
+
+export type RemovedKeyMode = 'comment' | 'delete';
+
+export interface DotenvChanges {
+  set: Record<string, string>;
+  remove: string[];
+}
+
+export interface DotenvChangeOptions {
+  removed?: RemovedKeyMode;
+}
+
+export const ADDED_SECTION_MARKER = '# Added by EzEnv sync';
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+const ASSIGNMENT_PATTERN = /^\s*(?:export\s+)?([^=\s]+)\s*=([ \t]*)(.*)$/;
+const QUOTES = ['"', "'", '`'];
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  '"': '"',
+  '\\': '\\'
+};
+
+function parseError(source: string, line: number, reason: string): CLIError {
+  return new CLIError(
+    `Invalid .env syntax in ${source} on line ${line}: ${reason}`,
+    'ENV_PARSE_ERROR',
+    { path: source, line }
+  );
+}
+
+function findClosingQuote(text: string, quote: string): number {
+  for (let i = 0; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function unescapeDoubleQuoted(value: string): string {
+  return value.replace(/\\([\s\S])/g, (match, char: string) => DOUBLE_QUOTE_ESCAPES[char] ?? match);
+}
+
+/**
+ * Parses .env content into ordered entries.
+ *
+ * Supports `export` prefixes, full-line and inline comments, single-quoted
+ * (literal), double-quoted (escape sequences) and backtick-quoted values,
+ * values spanning multiple lines, CRLF line endings and a UTF-8 BOM.
+ */
+export function parseDotenvEntries(content: string, source = '.env'): DotenvEntry[] {
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').split('\n');
+  const entries: DotenvEntry[] = [];
+
+  let index = 0;
+  while (index < lines.length) {
+    const lineNumber = index + 1;
+    const line = lines[index];
+    const trimmed = line.trim();
+
+    if (!trimmed || trimmed.startsWith('#')) {
+      index++;
+      continue;
+    }
+
+    const match = ASSIGNMENT_PATTERN.exec(line);
+    if (!match) {
+      throw parseError(source, lineNumber, 'expected KEY=VALUE');
+    }
+
+    const [, key, leadingSpace, rest] = match;
+    const prefix = line.slice(0, line.length - rest.length);
+    if (!KEY_PATTERN.test(key)) {
+      throw parseError(source, lineNumber, `invalid variable name "${key}"`);
+    }
+
+    const quote = rest[0];
+    if (QUOTES.includes(quote)) {
+      let buffer = rest.slice(1);
+      let endIndex = index;
+      let close = findClosingQuote(buffer, quote);
+
+      while (close === -1) {
+        endIndex++;
+        if (endIndex >= lines.length) {
+          throw parseError(source, lineNumber, `unterminated ${quote} quoted value for ${key}`);
+        }
+        buffer += '\n' + lines[endIndex];
+        close = findClosingQuote(buffer, quote);
+      }
+
+      const trailing = buffer.slice(close + 1);
+      if (!/^\s*(#.*)?$/.test(trailing)) {
+        throw parseError(source, endIndex + 1, `unexpected characters after closing quote of ${key}`);
+      }
+
+      const raw = buffer.slice(0, close);
+      entries.push({
+        key,
+        value: quote === '"' ? unescapeDoubleQuoted(raw) : raw,
+        line: lineNumber,
+        endLine: endIndex + 1,
+        prefix,
+        quote: quote as DotenvEntry['quote'],
+        suffix: trailing
+      });
+      index = endIndex + 1;
+      continue;
+    }
+
+    // Unquoted: a # only starts a comment when preceded by whitespace
+    let value = rest;
+    if (leadingSpace && value.startsWith('#')) {
+      value = '';
+    } else {
+      const commentStart = value.search(/\s#/);
+      if (commentStart !== -1) {
+        value = value.slice(0, commentStart);
+      }
+    }
+
+    value = value.trimEnd();
+    entries.push({
+      key,
+      value,
+      line: lineNumber,
+      endLine: lineNumber,
+      prefix,
+      suffix: rest.slice(value.length)
+    });
+    index++;
+  }
+
+  return entries;
+}
+
+/**
+ * Parses .env content into a key/value map. Later assignments win.
+ */
+export function parseDotenv(content: string, source = '.env'): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const entry of parseDotenvEntries(content, source)) {
+    result[entry.key] = entry.value;
+  }
+  return result;
+}
+
+function escapeDoubleQuoted(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+}
+
+/**
+ * Serializes a value so that parseDotenv reads it back unchanged.
+ */
+export function formatEnvValue(value: string): string {
+  if (!/[\s"']/.test(value) && !value.startsWith('`')) {
+    return value;
+  }
+
+  return `"${escapeDoubleQuoted(value)}"`;
+}
+
+/**
+ * Serializes a value in the quoting style an existing entry already uses,
+ * falling back to formatEnvValue when that style cannot represent it.
+ */
+function formatValueLike(entry: DotenvEntry, value: string): string {
+  switch (entry.quote) {
+    case '"':
+      return `"${escapeDoubleQuoted(value)}"`;
+    case "'":
+    case '`':
+      if (!value.includes(entry.quote)) {
+        return `${entry.quote}${value}${entry.quote}`;
+      }
+      break;
+  }
+
+  const formatted = formatEnvValue(value);
+  // After "KEY= " a leading # would read as a comment
+  if (/\s$/.test(entry.prefix) && formatted.startsWith('#')) {
+    return `"${escapeDoubleQuoted(value)}"`;
+  }
+  return formatted;
+}
+
+/**
+ * Applies key changes to .env content in place.
+ *
+ * Changed keys are rewritten on their existing lines, keeping `export`,
+ * spacing, quoting style and inline comments. New keys are appended under
+ * ADDED_SECTION_MARKER. Removed keys are commented out or deleted. Every other
+ * line, including its line ending, is left untouched.
+ */
+export function applyDotenvChanges(
+  content: string,
+  changes: DotenvChanges,
+  options: DotenvChangeOptions = {}
+): string {
+  const removed = options.removed || 'comment';
+  const bom = content.startsWith('\uFEFF') ? '\uFEFF' : '';
+  const body = content.slice(bom.length);
+  const eol = body.includes('\r\n') ? '\r\n' : '\n';
+  const entries = parseDotenvEntries(body);
+
+  // Keep each line's own terminator so untouched lines stay byte-identical
+  const lines = body.match(/[^\n]*\n|[^\n]+$/g) || [];
+  const terminatorOf = (text: string) =>
+    text.endsWith('\r\n') ? '\r\n' : text.endsWith('\n') ? '\n' : '';
+  const bodyOf = (text: string) => text.slice(0, text.length - terminatorOf(text).length);
+
+  const output = [...lines];
+  const existing = new Set<string>();
+  const entryLines = new Set<number>();
+
+  for (const entry of entries) {
+    existing.add(entry.key);
+    const first = entry.line - 1;
+    const last = entry.endLine - 1;
+    for (let i = first; i <= last; i++) {
+      entryLines.add(i);
+    }
+
+    if (entry.key in changes.set) {
+      let suffix = entry.suffix;
+      if (suffix.trim() && !/^\s/.test(suffix)) {
+        suffix = ` ${suffix}`;
+      }
+      const value = formatValueLike(entry, changes.set[entry.key]);
+      output[first] = `${entry.prefix}${value}${suffix}${terminatorOf(lines[last])}`;
+      for (let i = first + 1; i <= last; i++) {
+        output[i] = '';
+      }
+    } else if (changes.remove.includes(entry.key)) {
+      for (let i = first; i <= last; i++) {
+        output[i] = removed === 'delete' ? '' : `# ${bodyOf(lines[i])}${terminatorOf(lines[i])}`;
+      }
+    }
+  }
+
+  const added = Object.keys(changes.set).filter(key => !existing.has(key));
+  if (added.length === 0) {
+    return bom + output.join('');
+  }
+
+  const addedLines = added.map(key => `${key}=${formatEnvValue(changes.set[key])}${eol}`).join('');
+  const markerIndex = lines.findIndex(line => bodyOf(line).trim() === ADDED_SECTION_MARKER);
+
+  if (markerIndex !== -1) {
+    // Extend the existing section: insert after its last non-blank line
+    let end = markerIndex;
+    while (end + 1 < lines.length && (bodyOf(lines[end + 1]).trim() !== '' || entryLines.has(end + 1))) {
+      end++;
+    }
+    const current = output[end];
+    output[end] = (current && !current.endsWith('\n') ? current + eol : current) + addedLines;
+    return bom + output.join('');
+  }
+
+  let result = output.join('');
+  if (result && !result.endsWith('\n')) {
+    result += eol;
+  }
+  if (result.trim() && !/\n[ \t\r]*\n$/.test(result)) {
+    result += eol;
+  }
+  return bom + result + ADDED_SECTION_MARKER + eol + addedLines;
+}
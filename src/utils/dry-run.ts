@@ -0,0 +1,93 @@
+import chalk from 'chalk';
+import { relative } from 'path';
+import { parseDotenvEntries } from './dotenv';
+
+export type PlannedAction = 'create' | 'update' | 'delete' | 'unchanged';
+
+/** A file a command would write, for --dry-run. Details never include secret values. */
+export interface PlannedWrite {
+  path: string;
+  action: PlannedAction;
+  details: string[];
+}
+
+const SYMBOLS: Record<PlannedAction, string> = {
+  create: chalk.green('+'),
+  update: chalk.yellow('~'),
+  delete: chalk.red('-'),
+  unchanged: chalk.gray('='),
+};
+
+/**
+ * Plans writing `after` to a file whose current content is `before`
+ * (undefined when it does not exist). Content that parses as .env is
+ * described key by key, anything else by line count.
+ */
+export function planFileWrite(path: string, before: string | undefined, after: string): PlannedWrite {
+  if (before === after) {
+    return { path, action: 'unchanged', details: [] };
+  }
+  if (before === undefined) {
+    return { path, action: 'create', details: [`${countLines(after)} line(s)`] };
+  }
+  return { path, action: 'update', details: describeEnvChanges(before, after) ?? describeLineChanges(before, after) };
+}
+
+/** Keys added, changed and removed between two .env files, or undefined if either does not parse */
+export function describeEnvChanges(before: string, after: string): string[] | undefined {
+  let old: ReturnType<typeof parseDotenvEntries>;
+  let next: ReturnType<typeof parseDotenvEntries>;
+  try {
+    old = parseDotenvEntries(before);
+    next = parseDotenvEntries(after);
+  } catch {
+    return undefined;
+  }
+
+  const oldByKey = new Map(old.map(entry => [entry.key, entry]));
+  const nextByKey = new Map(next.map(entry => [entry.key, entry]));
+  const details: string[] = [];
+
+  for (const [key, entry] of nextByKey) {
+    const previous = oldByKey.get(key);
+    if (!previous) {
+      details.push(`+ ${key}`);
+    } else if (previous.value !== entry.value) {
+      details.push(`~ ${key} (line ${previous.line})`);
+    }
+  }
+  for (const [key, entry] of oldByKey) {
+    if (!nextByKey.has(key)) {
+      details.push(`- ${key} (line ${entry.line})`);
+    }
+  }
+  if (details.length === 0) {
+    details.push('formatting only, no values change');
+  }
+  return details;
+}
+
+function describeLineChanges(before: string, after: string): string[] {
+  const oldLines = new Set(before.split('\n'));
+  const newLines = new Set(after.split('\n'));
+  const added = [...newLines].filter(line => !oldLines.has(line)).length;
+  const removed = [...oldLines].filter(line => !newLines.has(line)).length;
+  return [`${countLines(after)} line(s), ${added} new and ${removed} no longer present`];
+}
+
+function countLines(content: string): number {
+  return content === '' ? 0 : content.replace(/\n$/, '').split('\n').length;
+}
+
+/** Prints the plan; paths are shown relative to the working directory when inside it */
+export function printDryRun(plan: PlannedWrite[], log: (message: string) => void = console.log): void {
+  log(chalk.cyan('\nDry run: nothing was written. Planned changes:'));
+  for (const write of plan) {
+    const display = relative(process.cwd(), write.path);
+    const shown = display && !display.startsWith('..') ? display : write.path;
+    log(`  ${SYMBOLS[write.action]} ${shown} ${chalk.gray(`(${write.action})`)}`);
+    for (const detail of write.details) {
+      log(chalk.gray(`      ${detail}`));
+    }
+  }
+}
@@ -23,16 +23,16 @@ export class APIError extends CLIError {
   }
 }
 
-export async function handleCommandError(error: unknown): Promise<void> {
+export async function handleCommandError(error: unknown, exitCode = 1): Promise<void> {
   // Type guard for APIError
   if (error instanceof Error && 'status' in error && 'code' in error) {
     const apiError = error as APIError;
     if (apiError.status === 401) {
       console.error(chalk.red('Authentication required'));
-      console.log(chalk.cyan('Run "ezenv auth login" to authenticate'));
+      console.error(chalk.cyan('Run "ezenv auth login" to authenticate'));
     } else if (apiError.status === 403) {
       console.error(chalk.red('Access denied'));
-      console.log(chalk.gray(apiError.message));
+      console.error(chalk.gray(apiError.message));
     } else {
       console.error(chalk.red(`Error: ${apiError.message}`));
     }
@@ -53,5 +53,5 @@ export async function handleCommandError(error: unknown): Promise<void> {
     }
   }
   
-  process.exit(1);
+  process.exit(exitCode);
 }
\ No newline at end of file
@@ -1,3 +1,6 @@
+import { formatEnvValue } from './dotenv';
+import { CLIError } from './errors';
+
 export function formatRelativeTime(dateString: string): string {
   const date = new Date(dateString);
   const now = new Date();
@@ -31,9 +34,79 @@ export function formatRelativeTime(dateString: string): string {
   return `${years} year${years !== 1 ? 's' : ''} ago`;
 }
 
-export type OutputFormat = 'env' | 'json' | 'yaml' | 'export';
+export const OUTPUT_FORMATS = [
+  'env',
+  'json',
+  'yaml',
+  'export',
+  'fish',
+  'powershell',
+  'nushell',
+  'docker',
+  'k8s-secret',
+  'k8s-configmap',
+  'tfvars',
+  'systemd',
+  'properties',
+  'toml',
+  'csv',
+] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/** Shells that `--shell` accepts, and the format each one reads */
+export const SHELL_FORMATS: Record<string, OutputFormat> = {
+  sh: 'export',
+  bash: 'export',
+  zsh: 'export',
+  dash: 'export',
+  ksh: 'export',
+  fish: 'fish',
+  pwsh: 'powershell',
+  powershell: 'powershell',
+  nu: 'nushell',
+  nushell: 'nushell',
+};
+
+/**
+ * The format for `--shell <shell>`. `auto` reads the login shell from
+ * $SHELL, falling back to PowerShell on Windows and POSIX elsewhere.
+ */
+export function resolveShellFormat(
+  shell: string,
+  env: NodeJS.ProcessEnv = process.env,
+  platform: NodeJS.Platform = process.platform
+): OutputFormat {
+  let name = shell.toLowerCase();
+  if (name === 'auto') {
+    if (!env.SHELL) {
+      return platform === 'win32' ? 'powershell' : 'export';
+    }
+    name = env.SHELL.split(/[\\/]/).pop()?.replace(/\.exe$/i, '').toLowerCase() ?? '';
+    return SHELL_FORMATS[name] ?? 'export';
+  }
+
+  const format = SHELL_FORMATS[name];
+  if (!format) {
+    throw new CLIError(`Unknown shell: ${shell}`, 'INVALID_SHELL', {
+      validShells: ['auto', ...Object.keys(SHELL_FORMATS)],
+    });
+  }
+  return format;
+}
+
+export interface FormatOptions {
+  /** metadata.name for k8s-secret and k8s-configmap */
+  name?: string;
+  /** metadata.namespace for k8s-secret and k8s-configmap; omitted when unset */
+  namespace?: string;
+}
 
-export function formatSecrets(secrets: Record<string, string>, format: OutputFormat): string {
+export function formatSecrets(
+  secrets: Record<string, string>,
+  format: OutputFormat,
+  options: FormatOptions = {}
+): string {
   switch (format) {
     case 'env':
       return formatEnv(secrets);
@@ -43,27 +116,60 @@ export function formatSecrets(secrets: Record<string, string>, format: OutputFor
       return formatYaml(secrets);
     case 'export':
       return formatExport(secrets);
+    case 'fish':
+      return formatFish(secrets);
+    case 'powershell':
+      return formatPowerShell(secrets);
+    case 'nushell':
+      return formatNushell(secrets);
+    case 'docker':
+      return formatDocker(secrets);
+    case 'k8s-secret':
+      return formatKubernetes(secrets, 'Secret', options);
+    case 'k8s-configmap':
+      return formatKubernetes(secrets, 'ConfigMap', options);
+    case 'tfvars':
+      return formatTfvars(secrets);
+    case 'systemd':
+      return formatSystemd(secrets);
+    case 'properties':
+      return formatProperties(secrets);
+    case 'toml':
+      return formatToml(secrets);
+    case 'csv':
+      return formatCsv(secrets);
     default:
       throw new Error(`Unknown format: ${format}`);
   }
 }
 
+/** Fails with every offending key at once rather than the first one */
+function assertKeys(secrets: Record<string, string>, format: string, isValid: (key: string) => boolean, rule: string): void {
+  const invalid = Object.keys(secrets).filter(key => !isValid(key));
+  if (invalid.length > 0) {
+    throw new CLIError(`These keys cannot be written as ${format} (${rule}): ${invalid.join(', ')}`, 'UNSUPPORTED_KEY', {
+      keys: invalid,
+    });
+  }
+}
+
+function assertValues(secrets: Record<string, string>, format: string, isValid: (value: string) => boolean, rule: string): void {
+  const invalid = Object.entries(secrets).filter(([, value]) => !isValid(value)).map(([key]) => key);
+  if (invalid.length > 0) {
+    throw new CLIError(`These values cannot be written as ${format} (${rule}): ${invalid.join(', ')}`, 'UNSUPPORTED_VALUE', {
+      keys: invalid,
+    });
+  }
+}
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
 function formatEnv(secrets: Record<string, string>): string {
   const lines: string[] = [];
   
   for (const [key, value] of Object.entries(secrets)) {
-    // Escape quotes and handle multiline values
-    const escapedValue = value
-      .replace(/\\/g, '\\\\')
-      .replace(/"/g, '\\"')
-      .replace(/\n/g, '\\n');
-    
-    // Use quotes if value contains special characters
-    if (value.includes(' ') || value.includes('\n') || value.includes('"') || value.includes("'")) {
-      lines.push(`${key}="${escapedValue}"`);
-    } else {
-      lines.push(`${key}=${value}`);
-    }
+    // Quotes and escapes values only when needed so parseDotenv reads them back unchanged
+    lines.push(`${key}=${formatEnvValue(value)}`);
   }
   
   return lines.join('\n');
@@ -98,19 +204,232 @@ function formatYaml(secrets: Record<string, string>): string {
   return lines.join('\n');
 }
 
+/** Shell output is meant for eval, so keys must be plain variable names */
+function assertShellSafe(secrets: Record<string, string>, shell: string): void {
+  assertKeys(secrets, shell, key => ENV_NAME.test(key), 'letters, digits and "_" only');
+  assertValues(secrets, shell, value => !value.includes('\0'), 'environment variables cannot hold NUL');
+}
+
+/**
+ * POSIX single quotes keep every byte literal; a quote inside the value
+ * closes the string, adds an escaped quote and reopens it.
+ */
 function formatExport(secrets: Record<string, string>): string {
-  const lines: string[] = [];
-  
-  for (const [key, value] of Object.entries(secrets)) {
-    // Escape for shell
-    const escapedValue = value
-      .replace(/\\/g, '\\\\')
-      .replace(/"/g, '\\"')
-      .replace(/\$/g, '\\$')
-      .replace(/`/g, '\\`');
-    
-    lines.push(`export ${key}="${escapedValue}"`);
+  assertShellSafe(secrets, 'POSIX shell');
+  return Object.entries(secrets)
+    .map(([key, value]) => `export ${key}='${value.replace(/'/g, `'\\''`)}'`)
+    .join('\n');
+}
+
+/** In fish single quotes only \' and \\ are escapes */
+function formatFish(secrets: Record<string, string>): string {
+  assertShellSafe(secrets, 'fish');
+  return Object.entries(secrets)
+    .map(([key, value]) => `set -gx ${key} '${value.replace(/[\\']/g, '\\$&')}'`)
+    .join('\n');
+}
+
+/**
+ * PowerShell single-quoted strings have no escapes; a quote is doubled.
+ * The typographic quotes U+2018-U+201B also close the string.
+ */
+function formatPowerShell(secrets: Record<string, string>): string {
+  assertShellSafe(secrets, 'PowerShell');
+  return Object.entries(secrets)
+    .map(([key, value]) => `$env:${key} = '${value.replace(/['\u2018-\u201b]/g, '$&$&')}'`)
+    .join('\n');
+}
+
+/**
+ * Nushell single-quoted strings cannot contain a quote at all, so those
+ * values use a raw string r#'...'# with enough #s to never end early.
+ */
+function nushellString(value: string): string {
+  if (!value.includes("'")) {
+    return `'${value}'`;
+  }
+  let hashes = '#';
+  while (value.includes(`'${hashes}`)) {
+    hashes += '#';
+  }
+  return `r${hashes}'${value}'${hashes}`;
+}
+
+function formatNushell(secrets: Record<string, string>): string {
+  assertShellSafe(secrets, 'Nushell');
+  return Object.entries(secrets)
+    .map(([key, value]) => `$env.${key} = ${nushellString(value)}`)
+    .join('\n');
+}
+
+/**
+ * `docker run --env-file` reads everything after the first `=` literally,
+ * so values are written unquoted and cannot span lines.
+ */
+function formatDocker(secrets: Record<string, string>): string {
+  assertKeys(secrets, 'a Docker env file', key => /^[^\s=#][^\s=]*$/.test(key), 'no whitespace or "="');
+  assertValues(secrets, 'a Docker env file', value => !/[\r\n\0]/.test(value), 'no line breaks');
+  return Object.entries(secrets).map(([key, value]) => `${key}=${value}`).join('\n');
+}
+
+// Kubernetes object names are DNS subdomains
+const K8S_NAME = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*$/;
+
+/**
+ * YAML double-quoted scalar. JSON escapes are valid YAML, but YAML also
+ * forbids raw DEL, C1 controls and the BOM.
+ */
+function yamlQuoted(value: string): string {
+  return JSON.stringify(value).replace(
+    /[\u007f-\u009f\ufeff]/g,
+    char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+}
+
+/** A Secret (base64 `data`) or ConfigMap manifest */
+function formatKubernetes(secrets: Record<string, string>, kind: 'Secret' | 'ConfigMap', options: FormatOptions): string {
+  const name = options.name || (kind === 'Secret' ? 'ezenv-secrets' : 'ezenv-config');
+  for (const [label, value] of [['name', name], ['namespace', options.namespace]]) {
+    if (value !== undefined && (value.length > 253 || !K8S_NAME.test(value))) {
+      throw new CLIError(
+        `Invalid Kubernetes ${label} "${value}": use lowercase letters, digits, "-" and "."`,
+        'INVALID_OPTION'
+      );
+    }
+  }
+  assertKeys(secrets, `a ${kind}`, key => /^[-._a-zA-Z0-9]+$/.test(key), 'letters, digits, "-", "_" and "." only');
+
+  const lines = ['apiVersion: v1', `kind: ${kind}`, 'metadata:', `  name: ${name}`];
+  if (options.namespace) {
+    lines.push(`  namespace: ${options.namespace}`);
+  }
+  if (kind === 'Secret') {
+    lines.push('type: Opaque');
+  }
+
+  const entries = Object.entries(secrets);
+  if (entries.length === 0) {
+    lines.push('data: {}');
+  } else {
+    lines.push('data:');
+    for (const [key, value] of entries) {
+      const data = kind === 'Secret' ? Buffer.from(value, 'utf8').toString('base64') : value;
+      lines.push(`  ${yamlQuoted(key)}: ${yamlQuoted(data)}`);
+    }
   }
-  
   return lines.join('\n');
-}
\ No newline at end of file
+}
+
+/**
+ * HCL string: JSON-like escapes, except that HCL has no \b or \f and
+ * treats `${` and `%{` as template sequences.
+ */
+function hclString(value: string): string {
+  let out = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === '"' || char === '\\') {
+      out += `\\${char}`;
+    } else if (char === '\n') {
+      out += '\\n';
+    } else if (char === '\r') {
+      out += '\\r';
+    } else if (char === '\t') {
+      out += '\\t';
+    } else if (code < 0x20 || code === 0x7f) {
+      out += `\\u${code.toString(16).padStart(4, '0')}`;
+    } else {
+      out += char;
+    }
+  }
+  return `"${out.replace(/([$%])\{/g, '$1$1{')}"`;
+}
+
+function formatTfvars(secrets: Record<string, string>): string {
+  assertKeys(secrets, 'tfvars', key => /^[A-Za-z_][A-Za-z0-9_-]*$/.test(key), 'Terraform identifiers only');
+  return Object.entries(secrets).map(([key, value]) => `${key} = ${hclString(value)}`).join('\n');
+}
+
+/**
+ * systemd `EnvironmentFile=`: inside double quotes only \ " ` and $ need a
+ * backslash, and line breaks are kept as they are.
+ */
+function formatSystemd(secrets: Record<string, string>): string {
+  assertKeys(secrets, 'a systemd EnvironmentFile', key => ENV_NAME.test(key), 'letters, digits and "_" only');
+  return Object.entries(secrets)
+    .map(([key, value]) => `${key}="${value.replace(/[\\"`$]/g, '\\$&')}"`)
+    .join('\n');
+}
+
+/**
+ * Escapes like java.util.Properties#store, including \uXXXX for anything
+ * outside printable ASCII, so the file loads the same as ISO-8859-1 or UTF-8.
+ */
+function propertiesEscape(text: string, isKey: boolean): string {
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const code = text.charCodeAt(i);
+    if (char === ' ') {
+      out += i === 0 || isKey ? '\\ ' : ' ';
+    } else if (char === '\t') {
+      out += '\\t';
+    } else if (char === '\n') {
+      out += '\\n';
+    } else if (char === '\r') {
+      out += '\\r';
+    } else if (char === '\f') {
+      out += '\\f';
+    } else if ('\\=:#!'.includes(char)) {
+      out += `\\${char}`;
+    } else if (code < 0x20 || code > 0x7e) {
+      out += `\\u${code.toString(16).toUpperCase().padStart(4, '0')}`;
+    } else {
+      out += char;
+    }
+  }
+  return out;
+}
+
+function formatProperties(secrets: Record<string, string>): string {
+  return Object.entries(secrets)
+    .map(([key, value]) => `${propertiesEscape(key, true)}=${propertiesEscape(value, false)}`)
+    .join('\n');
+}
+
+function tomlString(value: string): string {
+  let out = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === '"' || char === '\\') {
+      out += `\\${char}`;
+    } else if (char === '\n') {
+      out += '\\n';
+    } else if (char === '\r') {
+      out += '\\r';
+    } else if (char === '\t') {
+      out += '\\t';
+    } else if (code < 0x20 || code === 0x7f) {
+      out += `\\u${code.toString(16).toUpperCase().padStart(4, '0')}`;
+    } else {
+      out += char;
+    }
+  }
+  return `"${out}"`;
+}
+
+function formatToml(secrets: Record<string, string>): string {
+  return Object.entries(secrets)
+    .map(([key, value]) => `${/^[A-Za-z0-9_-]+$/.test(key) ? key : tomlString(key)} = ${tomlString(value)}`)
+    .join('\n');
+}
+
+/** RFC 4180: quote fields containing separators, quotes or line breaks; double embedded quotes */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatCsv(secrets: Record<string, string>): string {
+  const rows = Object.entries(secrets).map(([key, value]) => `${csvField(key)},${csvField(value)}`);
+  return ['key,value', ...rows].join('\n');
+}
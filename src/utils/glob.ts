@@ -0,0 +1,39 @@
+/**
+ * Converts a key glob to a RegExp. `*` matches any run of characters and `?`
+ * a single character; everything else matches literally.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesAnyGlob(key: string, patterns: string[]): boolean {
+  return patterns.some(pattern => globToRegExp(pattern).test(key));
+}
+
+/**
+ * Splits repeated and comma-separated glob options into a flat list.
+ */
+export function parseGlobList(values?: string | string[]): string[] {
+  if (!values) {
+    return [];
+  }
+
+  return (Array.isArray(values) ? values : [values])
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(Boolean);
+}
+
+/** Commander argument parser that lets an option be repeated */
+export function collectOption(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
@@ -0,0 +1,25 @@
+export interface JwtClaims {
+  sub?: string;
+  email?: string;
+  /** Expiry as seconds since the epoch */
+  exp?: number;
+  role?: string;
+}
+
+/**
+ * Reads the payload of a JWT without verifying it. Returns null for tokens
+ * that are not JWTs (e.g. opaque service tokens).
+ */
+export function decodeJwtClaims(token: string): JwtClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    return payload && typeof payload === 'object' ? payload as JwtClaims : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,120 @@
+import { CLIError } from './errors';
+import { matchesAnyGlob, parseGlobList } from './glob';
+
+/**
+ * Which remote keys a command works with and how they are renamed locally.
+ * Globs match the remote names; prefixes are applied after filtering.
+ */
+export interface KeyRules {
+  only?: string[];
+  exclude?: string[];
+  stripPrefix?: string;
+  addPrefix?: string;
+}
+
+/** The --only/--exclude/--strip-prefix/--add-prefix flags as commander parses them */
+export interface KeyRuleOptions {
+  only?: string[];
+  exclude?: string[];
+  stripPrefix?: string;
+  addPrefix?: string;
+}
+
+/** Flags replace the rule of the same name from .ezenvrc; the others are kept */
+export function resolveKeyRules(options: KeyRuleOptions, persisted: KeyRules = {}): KeyRules {
+  const only = parseGlobList(options.only);
+  const exclude = parseGlobList(options.exclude);
+  return {
+    only: only.length > 0 ? only : persisted.only,
+    exclude: exclude.length > 0 ? exclude : persisted.exclude,
+    stripPrefix: options.stripPrefix ?? persisted.stripPrefix,
+    addPrefix: options.addPrefix ?? persisted.addPrefix,
+  };
+}
+
+export function hasKeyRules(rules: KeyRules): boolean {
+  return !!(rules.only?.length || rules.exclude?.length || rules.stripPrefix || rules.addPrefix);
+}
+
+/** e.g. `only NEXT_PUBLIC_*, strip NEXT_PUBLIC_`, for status lines */
+export function describeKeyRules(rules: KeyRules): string {
+  const parts: string[] = [];
+  if (rules.only?.length) parts.push(`only ${rules.only.join(', ')}`);
+  if (rules.exclude?.length) parts.push(`excluding ${rules.exclude.join(', ')}`);
+  if (rules.stripPrefix) parts.push(`strip ${rules.stripPrefix}`);
+  if (rules.addPrefix) parts.push(`add ${rules.addPrefix}`);
+  return parts.join('; ');
+}
+
+/** Whether a remote key passes --only and --exclude; an exclude always wins */
+function isSelected(key: string, rules: KeyRules): boolean {
+  if (rules.exclude?.length && matchesAnyGlob(key, rules.exclude)) {
+    return false;
+  }
+  return !rules.only?.length || matchesAnyGlob(key, rules.only);
+}
+
+function rename(key: string, rules: KeyRules): string {
+  let name = key;
+  // A key that is exactly the prefix keeps its name rather than becoming empty
+  if (rules.stripPrefix && name.startsWith(rules.stripPrefix) && name.length > rules.stripPrefix.length) {
+    name = name.slice(rules.stripPrefix.length);
+  }
+  return `${rules.addPrefix ?? ''}${name}`;
+}
+
+/**
+ * Filters and renames remote secrets. Throws when two keys would end up
+ * with the same name, e.g. NEXT_PUBLIC_API_URL and API_URL with
+ * --strip-prefix NEXT_PUBLIC_.
+ */
+export function applyKeyRules(secrets: Record<string, string>, rules: KeyRules): Record<string, string> {
+  const result: Record<string, string> = {};
+  const sources: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(secrets)) {
+    if (!isSelected(key, rules)) {
+      continue;
+    }
+    const name = rename(key, rules);
+    if (name in sources) {
+      throw new CLIError(
+        `Both ${sources[name]} and ${key} would be written as ${name}`,
+        'KEY_COLLISION',
+        { key: name, sources: [sources[name], key] }
+      );
+    }
+    sources[name] = key;
+    result[name] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Keeps the local keys the rules could have produced, so that comparing
+ * against applyKeyRules() output never reports keys outside the rules as
+ * removed.
+ */
+export function selectLocalKeys(local: Record<string, string>, rules: KeyRules): Record<string, string> {
+  if (!hasKeyRules(rules)) {
+    return local;
+  }
+  return Object.fromEntries(Object.entries(local).filter(([key]) => couldProduce(key, rules)));
+}
+
+function couldProduce(key: string, rules: KeyRules): boolean {
+  let name = key;
+  if (rules.addPrefix) {
+    if (!name.startsWith(rules.addPrefix)) {
+      return false;
+    }
+    name = name.slice(rules.addPrefix.length);
+  }
+
+  const candidates = [name];
+  if (rules.stripPrefix) {
+    candidates.push(`${rules.stripPrefix}${name}`);
+  }
+  return candidates.some(candidate => isSelected(candidate, rules) && rename(candidate, rules) === key);
+}
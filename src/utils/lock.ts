@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { CLIError } from './errors';
+
+export interface FileLockOptions {
+  /** Give up waiting for another holder after this long */
+  timeoutMs?: number;
+  /** Locks older than this are assumed to be left behind by a crashed process */
+  staleMs?: number;
+  retryMs?: number;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/** The owner written in a lock that looks abandoned, or undefined if it is live */
+async function readStaleOwner(lockPath: string, staleMs: number): Promise<string | undefined> {
+  try {
+    const [content, stats] = await Promise.all([fs.readFile(lockPath, 'utf-8'), fs.stat(lockPath)]);
+    const pid = parseInt(content, 10);
+    const stale = Date.now() - stats.mtimeMs > staleMs || (!isNaN(pid) && !isProcessAlive(pid));
+    return stale ? content : undefined;
+  } catch {
+    // Released while we looked; just try again
+    return undefined;
+  }
+}
+
+/**
+ * Deletes the lock only if it still names `owner`. The file is renamed aside
+ * first, which only one process can do, and a lock that turns out to belong
+ * to someone else is put back rather than deleted.
+ */
+async function removeLock(lockPath: string, owner: string): Promise<void> {
+  const aside = `${lockPath}.${randomUUID()}`;
+  try {
+    await fs.rename(lockPath, aside);
+  } catch {
+    // Already gone, or another process moved it first
+    return;
+  }
+
+  const content = await fs.readFile(aside, 'utf-8').catch(() => undefined);
+  if (content !== owner) {
+    // link() fails if a new lock appeared meanwhile; that one then stands
+    await fs.link(aside, lockPath).catch(() => undefined);
+  }
+  await fs.unlink(aside).catch(() => undefined);
+}
+
+/**
+ * Runs `fn` while holding an exclusive lock file, so only one ezenv process
+ * at a time gets past this point. The file holds the owner's pid, so locks
+ * left by a crashed process can be taken over, plus a unique token so no
+ * holder ever deletes a lock it does not own.
+ */
+export async function withFileLock<T>(lockPath: string, fn: () => Promise<T>, options: FileLockOptions = {}): Promise<T> {
+  const { timeoutMs = 30000, staleMs = 60000, retryMs = 100 } = options;
+  const deadline = Date.now() + timeoutMs;
+  const owner = `${process.pid}:${randomUUID()}`;
+
+  await fs.mkdir(path.dirname(lockPath), { recursive: true, mode: 0o700 });
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx', 0o600);
+      await handle.writeFile(owner);
+      await handle.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const staleOwner = await readStaleOwner(lockPath, staleMs);
+    if (staleOwner !== undefined) {
+      await removeLock(lockPath, staleOwner);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new CLIError(`Timed out waiting for lock ${lockPath}`, 'LOCK_TIMEOUT', { lockPath });
+    }
+    await new Promise(resolve => setTimeout(resolve, retryMs));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    // fn may outlive staleMs, after which the lock can belong to someone else
+    await removeLock(lockPath, owner);
+  }
+}
@@ -0,0 +1,95 @@
+import { createHmac, randomBytes } from 'crypto';
+import { CLIError } from './errors';
+import { MaskOptions, MaskStyle } from '../types';
+
+export const MASK_STYLES: MaskStyle[] = ['full', 'partial', 'hash', 'none'];
+export const DEFAULT_MASK: MaskOptions = { style: 'full', reveal: 3 };
+
+const MASK = '••••••••';
+
+// Drawn fresh for every run, so hashes can be compared within one output but
+// cannot be matched against earlier runs or against guessed values
+const HASH_KEY = randomBytes(32);
+
+/**
+ * Renders a secret value for display. `full` hides the value and its length,
+ * `partial` keeps the first and last `reveal` characters, `hash` shows a short
+ * HMAC so two values can be told apart, `none` shows the value.
+ */
+export function maskValue(value: string, options: MaskOptions = DEFAULT_MASK): string {
+  switch (options.style) {
+    case 'none':
+      return value;
+    case 'hash':
+      return `hmac:${createHmac('sha256', HASH_KEY).update(value).digest('hex').slice(0, 8)}`;
+    case 'partial': {
+      const reveal = options.reveal ?? DEFAULT_MASK.reveal ?? 0;
+      // Revealing both ends of a short value would give most of it away
+      if (reveal <= 0 || value.length <= reveal * 4) {
+        return MASK;
+      }
+      return `${value.slice(0, reveal)}…${value.slice(-reveal)}`;
+    }
+    default:
+      return MASK;
+  }
+}
+
+/**
+ * Summarizes how a value changed without revealing it, e.g.
+ * "length 12 → 14, 3 chars changed".
+ */
+export function describeChange(oldValue: string, newValue: string): string {
+  let prefix = 0;
+  while (prefix < oldValue.length && prefix < newValue.length && oldValue[prefix] === newValue[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldValue.length - prefix &&
+    suffix < newValue.length - prefix &&
+    oldValue[oldValue.length - 1 - suffix] === newValue[newValue.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const changed = Math.max(oldValue.length, newValue.length) - prefix - suffix;
+  const length = oldValue.length === newValue.length
+    ? `length ${newValue.length}`
+    : `length ${oldValue.length} → ${newValue.length}`;
+
+  return `${length}, ${changed} char${changed === 1 ? '' : 's'} changed`;
+}
+
+/**
+ * Builds mask options from the shared `--mask`, `--reveal` and `--show-values` flags.
+ */
+export function resolveMaskOptions(options: {
+  mask?: string;
+  reveal?: string;
+  showValues?: boolean;
+}): MaskOptions {
+  if (options.showValues) {
+    return { style: 'none' };
+  }
+
+  const style = (options.mask || DEFAULT_MASK.style) as MaskStyle;
+  if (!MASK_STYLES.includes(style)) {
+    throw new CLIError(
+      `Invalid mask style: ${style}`,
+      'INVALID_OPTION',
+      { validStyles: MASK_STYLES }
+    );
+  }
+
+  const reveal = options.reveal === undefined ? DEFAULT_MASK.reveal : Number(options.reveal);
+  if (reveal === undefined || !Number.isInteger(reveal) || reveal < 0) {
+    throw new CLIError(
+      `Invalid --reveal value: ${options.reveal}`,
+      'INVALID_OPTION'
+    );
+  }
+
+  return { style, reveal };
+}
@@ -0,0 +1,18 @@
+import { createHash, randomBytes } from 'crypto';
+
+export interface PkcePair {
+  verifier: string;
+  challenge: string;
+}
+
+/**
+ * Creates a PKCE code verifier and its S256 challenge (RFC 7636).
+ */
+export function createPkcePair(): PkcePair {
+  const verifier = randomBytes(32).toString('base64url');
+  return { verifier, challenge: pkceChallenge(verifier) };
+}
+
+export function pkceChallenge(verifier: string): string {
+  return createHash('sha256').update(verifier).digest('base64url');
+}
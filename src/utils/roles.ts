@@ -0,0 +1,30 @@
+import { CLIError } from './errors';
+
+export type Role = 'admin' | 'manager' | 'member';
+
+const ROLE_RANK: Record<Role, number> = {
+  member: 0,
+  manager: 1,
+  admin: 2
+};
+
+export function hasRole(role: Role | undefined, required: Role): boolean {
+  return ROLE_RANK[role || 'member'] >= ROLE_RANK[required];
+}
+
+/**
+ * Fails before sending a request the server would reject, naming the role
+ * that is missing rather than surfacing a bare "access denied".
+ */
+export function requireRole(role: Role | undefined, required: Role, action: string, scope: string): void {
+  if (hasRole(role, required)) {
+    return;
+  }
+
+  const needed = required === 'admin' ? 'an admin' : `a ${required} or admin`;
+  throw new CLIError(
+    `You must be ${needed} of ${scope} to ${action} (your role: ${role || 'member'})`,
+    'INSUFFICIENT_ROLE',
+    { role: role || 'member', required }
+  );
+}
@@ -0,0 +1,9 @@
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a project or environment reference is an ID. Names must not be
+ * sent to uuid columns: PostgREST answers them with 400, not an empty list.
+ */
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli } from '../fixtures/run-cli';
+
+const PROJECT_ID = '11111111-1111-4111-8111-111111111111';
+const ENVIRONMENT_ID = '22222222-2222-4222-8222-222222222222';
+
+/** Unsigned JWT; the CLI only reads its claims */
+function fakeToken(): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none' })}.${encode({ sub: 'user-1', exp: Math.floor(Date.now() / 1000) + 3600 })}.sig`;
+}
+
+/** Answers the requests `pull` makes, like a Supabase backend would */
+function startBackend(secrets: Record<string, string>): Promise<Server> {
+  const server = createServer((req, res) => {
+    const url = req.url || '';
+    let body: unknown;
+    if (url.startsWith('/rest/v1/projects')) {
+      body = [{ id: PROJECT_ID, name: 'web', team: { id: 't1', name: 'Team', team_members: [{ role: 'admin' }] } }];
+    } else if (url.startsWith('/rest/v1/environments')) {
+      body = [{ id: ENVIRONMENT_ID, name: 'production' }];
+    } else if (url.startsWith('/functions/v1/get-secrets')) {
+      body = { secrets };
+    } else {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('E2E: pull -o -', () => {
+  let server: Server;
+  let workDir: string;
+
+  beforeAll(async () => {
+    server = await startBackend({ API_URL: 'https://api.example.com', GREETING: "it's; echo pwned" });
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(join(tmpdir(), 'ezenv-pull-stdout-'));
+    await fs.writeFile(join(workDir, '.ezenvrc'), JSON.stringify({
+      selected_project: PROJECT_ID,
+      selected_environment: ENVIRONMENT_ID
+    }));
+    // dotenv loads this at startup and must not announce it on stdout
+    await fs.writeFile(join(workDir, '.env'), 'UNRELATED=1\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const backendEnv = (): NodeJS.ProcessEnv => ({
+    HOME: workDir,
+    SUPABASE_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    SUPABASE_ANON_KEY: 'test-anon-key',
+    EZENV_TOKEN: fakeToken(),
+    EZENV_CREDENTIAL_STORE: 'memory',
+    NO_PROXY: '*'
+  });
+
+  it('should write nothing but the formatted secrets to stdout', async () => {
+    const { code, stdout, stderr } = await runCli(['pull', '-f', 'export', '-o', '-'], { cwd: workDir, env: backendEnv() });
+
+    expect(code).toBe(0);
+    expect(stdout).toBe("export API_URL='https://api.example.com'\nexport GREETING='it'\\''s; echo pwned'\n");
+    expect(stderr).toContain('Current context:');
+  }, 90000);
+});
@@ -0,0 +1,39 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli } from '../fixtures/run-cli';
+
+describe('E2E: unknown instance pinned in .ezenvrc', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(join(tmpdir(), 'ezenv-instance-'));
+    await fs.writeFile(join(workDir, '.ezenvrc'), JSON.stringify({ instance: 'corp' }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const run = (...args: string[]) => runCli(args, { cwd: workDir, env: { HOME: workDir, EZENV_CREDENTIAL_STORE: 'memory' } });
+
+  it('should still allow listing and adding instances', async () => {
+    const list = await run('instances', 'list');
+    expect(list.code).toBe(0);
+    expect(list.stdout).toContain('hosted');
+
+    const add = await run('instances', 'add', 'corp', 'https://ezenv.corp.example', '--anon-key', 'anon');
+    expect(add.code).toBe(0);
+
+    expect((await run('instances', 'list')).stdout).toContain('https://ezenv.corp.example');
+  }, 120000);
+
+  it('should stop other commands with the hint on stderr', async () => {
+    const { code, stdout, stderr } = await run('pull', '-o', '-');
+
+    expect(code).toBe(1);
+    expect(stdout).toBe('');
+    expect(stderr).toContain('Unknown instance: corp');
+    expect(stderr).toContain('ezenv instances list');
+  }, 60000);
+});
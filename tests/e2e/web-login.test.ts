@@ -0,0 +1,129 @@
+import * as http from 'http';
+import { AuthService } from '../../src/services/auth.service';
+import { CredentialService } from '../../src/services/credential.service';
+import { MemoryCredentialStore } from '../../src/services/memory-credential-store';
+import { MockSupabaseServer } from '../fixtures/mock-server';
+import { clearAllMocks } from '../__mocks__/node-fetch';
+import { openBrowser } from '../../src/utils/browser';
+
+jest.mock('../../src/utils/browser');
+
+const mockOpenBrowser = openBrowser as jest.MockedFunction<typeof openBrowser>;
+
+// Stands in for the browser following a redirect to the CLI's callback server
+const visit = (url: string) =>
+  new Promise<number>((resolve, reject) => {
+    http
+      .get(url, res => {
+        res.resume();
+        res.on('end', () => resolve(res.statusCode || 0));
+      })
+      .on('error', reject);
+  });
+
+describe('E2E: Browser (PKCE) login', () => {
+  let authService: AuthService;
+  let mockServer: MockSupabaseServer;
+
+  beforeEach(async () => {
+    clearAllMocks();
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+
+    process.env.SUPABASE_URL = 'https://test.supabase.co';
+    process.env.SUPABASE_ANON_KEY = 'test-anon-key';
+
+    authService = new AuthService(new CredentialService());
+    mockServer = new MockSupabaseServer();
+    await mockServer.start();
+
+    mockOpenBrowser.mockImplementation(async (url: string) => {
+      await visit(mockServer.approveBrowserLogin(url));
+    });
+  });
+
+  afterEach(async () => {
+    await mockServer.stop();
+    delete process.env.SUPABASE_URL;
+    delete process.env.SUPABASE_ANON_KEY;
+    ((CredentialService as any).memoryStore as MemoryCredentialStore).clear();
+    jest.restoreAllMocks();
+  });
+
+  it('should exchange the code from the callback and store the tokens', async () => {
+    let authorizeUrl = '';
+
+    await authService.authenticateWithBrowser({ onAuthorizeUrl: url => (authorizeUrl = url) });
+
+    const params = new URL(authorizeUrl).searchParams;
+    expect(authorizeUrl).toContain('https://test.supabase.co/auth/v1/authorize');
+    expect(params.get('provider')).toBe('github');
+    expect(params.get('code_challenge_method')).toBe('s256');
+    expect(params.get('redirect_to')).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/callback\?state=[0-9a-f]{32}$/);
+
+    expect(await authService.getStoredToken()).toMatch(/^web_access_token_/);
+    expect(await authService.getStoredTokenData()).toMatchObject({
+      user_email: 'sso@example.com',
+      refresh_token: expect.stringMatching(/^web_refresh_token_/)
+    });
+  });
+
+  it('should log in through the SSO provider for a domain', async () => {
+    await authService.authenticateWithBrowser({ ssoDomain: 'example.com' });
+
+    expect(mockOpenBrowser).toHaveBeenCalledWith(expect.stringContaining('https://test.supabase.co/sso/saml'));
+    expect(await authService.getStoredToken()).toMatch(/^web_access_token_/);
+  });
+
+  it('should reject an unknown SSO domain', async () => {
+    await expect(authService.authenticateWithBrowser({ ssoDomain: 'unknown.org' })).rejects.toMatchObject({
+      code: 'SSO_NOT_CONFIGURED'
+    });
+  });
+
+  it('should ignore callbacks with the wrong state', async () => {
+    mockOpenBrowser.mockImplementation(async (url: string) => {
+      const redirect = new URL(mockServer.approveBrowserLogin(url));
+      const forged = new URL(redirect);
+      forged.searchParams.set('state', 'forged');
+
+      expect(await visit(forged.toString())).toBe(400);
+      expect(await visit(redirect.toString())).toBe(200);
+    });
+
+    await authService.authenticateWithBrowser();
+
+    expect(await authService.getStoredToken()).toMatch(/^web_access_token_/);
+  });
+
+  it('should fail when the provider reports an error', async () => {
+    mockOpenBrowser.mockImplementation(async (url: string) => {
+      const redirect = new URL(new URL(url).searchParams.get('redirect_to') || '');
+      redirect.searchParams.set('error_description', 'access_denied');
+      await visit(redirect.toString());
+    });
+
+    await expect(authService.authenticateWithBrowser()).rejects.toMatchObject({ code: 'WEB_AUTH_FAILED' });
+  });
+
+  it('should time out when the browser never comes back', async () => {
+    await expect(
+      authService.authenticateWithBrowser({ openBrowser: false, timeoutMs: 50 })
+    ).rejects.toMatchObject({ code: 'WEB_AUTH_TIMEOUT' });
+
+    expect(mockOpenBrowser).not.toHaveBeenCalled();
+  });
+
+  it('should stop waiting when the signal is aborted', async () => {
+    const controller = new AbortController();
+
+    const login = authService.authenticateWithBrowser({
+      openBrowser: false,
+      signal: controller.signal,
+      onAuthorizeUrl: () => setTimeout(() => controller.abort(), 10)
+    });
+
+    await expect(login).rejects.toMatchObject({ code: 'WEB_AUTH_CANCELLED' });
+  });
+});
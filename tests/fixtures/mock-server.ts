@@ -1,5 +1,6 @@
+import { createHash } from 'crypto';
 import { setMockResponse } from '../__mocks__/node-fetch';
-import type { TokenResponse } from '../../src/types';
+import type { TokenResponse } from '../../src/services/auth.service';
 
 export interface MockServerOptions {
   baseUrl?: string;
@@ -10,6 +11,7 @@ export class MockSupabaseServer {
   private userTokens: Map<string, TokenResponse> = new Map();
   private networkErrors: Set<string> = new Set();
   private serverErrors: Map<string, { status: number; error: string }> = new Map();
+  private authCodes: Map<string, string> = new Map();
 
   constructor(options: MockServerOptions = {}) {
     this.baseUrl = options.baseUrl || 'https://test.supabase.co';
@@ -94,6 +96,39 @@ export class MockSupabaseServer {
             })
           };
         }
+      } else if (grantType === 'pkce') {
+        const { auth_code: authCode, code_verifier: verifier } = JSON.parse(options.body);
+        const challenge = this.authCodes.get(authCode);
+        const expected = verifier && createHash('sha256').update(verifier).digest('base64url');
+
+        if (!challenge || challenge !== expected) {
+          return {
+            ok: false,
+            status: 400,
+            json: async () => ({
+              error: 'invalid_grant',
+              error_description: 'Invalid authorization code or code verifier'
+            })
+          };
+        }
+
+        this.authCodes.delete(authCode);
+        const token: TokenResponse = {
+          access_token: `web_access_token_${Date.now()}`,
+          refresh_token: `web_refresh_token_${Date.now()}`,
+          token_type: 'Bearer',
+          expires_in: 3600
+        };
+        this.userTokens.set(token.access_token, token);
+
+        return {
+          ok: true,
+          status: 200,
+          json: async () => ({
+            ...token,
+            user: { id: '123e4567-e89b-12d3-a456-426614174000', email: 'sso@example.com' }
+          })
+        };
       } else if (grantType === 'refresh_token') {
         const body = JSON.parse(options.body);
         const refreshToken = body.refresh_token;
@@ -130,6 +165,20 @@ export class MockSupabaseServer {
     });
 
 
+    // SAML SSO: hands back the identity provider URL for the domain
+    setMockResponse('/auth/v1/sso', async (url, options) => {
+      const body = JSON.parse(options.body);
+      if (body.domain !== 'example.com') {
+        return { ok: false, status: 404, json: async () => ({ error: 'sso_provider_not_found' }) };
+      }
+
+      const params = new URLSearchParams({
+        redirect_to: body.redirect_to,
+        code_challenge: body.code_challenge
+      });
+      return { ok: true, status: 200, json: async () => ({ url: `${this.baseUrl}/sso/saml?${params}` }) };
+    });
+
     // User endpoint for status check
     setMockResponse('/auth/v1/user', async (url, options) => {
       const authHeader = options?.headers?.['Authorization'] || options?.headers?.['authorization'];
@@ -203,8 +252,23 @@ export class MockSupabaseServer {
     });
   }
 
+  /**
+   * Plays the identity provider for a browser login: issues a code for the
+   * PKCE challenge in the authorize URL and returns the redirect back to the CLI.
+   */
+  approveBrowserLogin(authorizeUrl: string): string {
+    const params = new URL(authorizeUrl).searchParams;
+    const code = `auth_code_${this.authCodes.size + 1}`;
+    this.authCodes.set(code, params.get('code_challenge') || '');
+
+    const redirect = new URL(params.get('redirect_to') || '');
+    redirect.searchParams.set('code', code);
+    return redirect.toString();
+  }
+
   reset(): void {
     this.userTokens.clear();
+    this.authCodes.clear();
     this.networkErrors.clear();
     this.serverErrors.clear();
     this.setupDefaultHandlers();
@@ -0,0 +1,18 @@
+// Preloaded into CLIs spawned by tests: the keychain is replaced with one that
+// is always unavailable, as tests/__mocks__/keytar.ts does inside jest, so the
+// CLI runs without libsecret or a desktop session.
+const keytarPath = require.resolve('keytar');
+const unavailable = () => Promise.reject(new Error('Keytar is not available'));
+
+require.cache[keytarPath] = {
+  id: keytarPath,
+  filename: keytarPath,
+  loaded: true,
+  exports: {
+    getPassword: unavailable,
+    setPassword: unavailable,
+    deletePassword: unavailable,
+    findPassword: unavailable,
+    findCredentials: unavailable,
+  },
+};
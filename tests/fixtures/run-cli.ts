@@ -0,0 +1,35 @@
+import { execFile } from 'child_process';
+import { join } from 'path';
+
+const ROOT = join(__dirname, '../..');
+
+export interface CliResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Runs src/index.ts in a child process with only the given environment
+ * (plus PATH), so nothing leaks in from the developer's shell or jest.
+ */
+export function runCli(args: string[], options: { cwd: string; env: NodeJS.ProcessEnv }): Promise<CliResult> {
+  const nodeArgs = [
+    '--require', join(__dirname, 'no-keytar.js'),
+    '--require', require.resolve('tsx/cjs', { paths: [ROOT] }),
+    join(ROOT, 'src/index.ts'),
+    ...args
+  ];
+
+  return new Promise(resolve => {
+    execFile(
+      process.execPath,
+      nodeArgs,
+      { cwd: options.cwd, env: { PATH: process.env.PATH, ...options.env }, timeout: 60000 },
+      (error, stdout, stderr) => {
+        const code = error ? (typeof error.code === 'number' ? error.code : 1) : 0;
+        resolve({ code, stdout, stderr });
+      }
+    );
+  });
+}
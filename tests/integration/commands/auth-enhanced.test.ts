@@ -33,10 +33,12 @@ describe('Auth Commands Integration', () => {
     mockAuthInstance = {
       setEnvironment: jest.fn(),
       getEnvironment: jest.fn(() => 'production'),
+      getProfile: jest.fn(() => 'default'),
       getStoredTokenData: jest.fn(),
       isTokenExpired: jest.fn(),
       refreshToken: jest.fn(),
       deleteStoredToken: jest.fn(),
+      getTokenSource: jest.fn().mockResolvedValue({ source: 'store', description: 'system credential store' }),
     } as any;
     
     // Set up mock implementations
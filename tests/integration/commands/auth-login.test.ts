@@ -0,0 +1,107 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import { LoginCommand } from '../../../src/commands/auth/login';
+
+jest.mock('ora', () => {
+  return jest.fn(() => ({
+    start: jest.fn().mockReturnThis(),
+    stop: jest.fn().mockReturnThis(),
+    succeed: jest.fn().mockReturnThis(),
+    fail: jest.fn().mockReturnThis(),
+  }));
+});
+
+jest.mock('inquirer');
+jest.mock('../../../src/services/auth.service');
+jest.mock('../../../src/services/credential.service');
+
+const mockInquirer = inquirer as jest.Mocked<typeof inquirer>;
+
+describe('auth login with codes', () => {
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+  let mockProcessExit: jest.SpyInstance;
+
+  const AuthService = () => require('../../../src/services/auth.service').AuthService;
+  const CredentialService = () => require('../../../src/services/credential.service').CredentialService;
+
+  const run = async (...args: string[]) => {
+    const program = new Command();
+    program.exitOverride();
+    new LoginCommand().register(program.command('auth'));
+    await program.parseAsync(['node', 'test', 'auth', 'login', ...args]);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    CredentialService().getInstance = jest.fn().mockReturnValue({
+      isUsingMemoryStorage: jest.fn().mockReturnValue(false)
+    });
+    AuthService().prototype.setEnvironment = jest.fn();
+    AuthService().prototype.getProfile = jest.fn().mockReturnValue('default');
+    AuthService().prototype.requestEmailOtp = jest.fn().mockResolvedValue(undefined);
+    AuthService().prototype.verifyEmailOtp = jest.fn().mockResolvedValue(undefined);
+    AuthService().prototype.authenticateWithPassword = jest.fn().mockResolvedValue(undefined);
+
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+    mockProcessExit = jest.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+  });
+
+  afterEach(() => {
+    mockConsoleLog.mockRestore();
+    mockConsoleError.mockRestore();
+    mockProcessExit.mockRestore();
+  });
+
+  it('should send an email code and verify it with --otp', async () => {
+    (mockInquirer.prompt as unknown as jest.Mock)
+      .mockResolvedValueOnce({ email: 'dev@example.com' })
+      .mockResolvedValueOnce({ secret: ' 123456 ' });
+
+    await run('--otp');
+
+    expect(AuthService().prototype.requestEmailOtp).toHaveBeenCalledWith('dev@example.com');
+    expect(AuthService().prototype.verifyEmailOtp).toHaveBeenCalledWith(
+      'dev@example.com',
+      '123456',
+      expect.objectContaining({ getTotpCode: expect.any(Function) })
+    );
+    expect(AuthService().prototype.authenticateWithPassword).not.toHaveBeenCalled();
+  });
+
+  it('should prompt for an authenticator code when the account has MFA', async () => {
+    (mockInquirer.prompt as unknown as jest.Mock)
+      .mockResolvedValueOnce({ email: 'dev@example.com' })
+      .mockResolvedValueOnce({ secret: 'pw' })
+      .mockResolvedValueOnce({ code: '654321' });
+    AuthService().prototype.authenticateWithPassword = jest.fn(
+      async (_email: string, _password: string, mfa: { getTotpCode: (attempt: number) => Promise<string> }) => {
+        expect(await mfa.getTotpCode(1)).toBe('654321');
+      }
+    );
+
+    await run();
+
+    expect(mockInquirer.prompt).toHaveBeenLastCalledWith([
+      expect.objectContaining({ name: 'code', message: 'Authenticator code:' })
+    ]);
+    expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('Logged in successfully'));
+  });
+
+  it('should explain an invalid two-factor code', async () => {
+    (mockInquirer.prompt as unknown as jest.Mock)
+      .mockResolvedValueOnce({ email: 'dev@example.com' })
+      .mockResolvedValueOnce({ secret: 'pw' });
+    AuthService().prototype.authenticateWithPassword = jest.fn().mockRejectedValue(
+      Object.assign(new Error('Invalid TOTP code entered'), { code: 'MFA_INVALID_CODE' })
+    );
+
+    await expect(run()).rejects.toThrow('process.exit');
+
+    expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('Invalid code'));
+  });
+});
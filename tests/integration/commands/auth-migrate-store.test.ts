@@ -0,0 +1,95 @@
+import { Command } from 'commander';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MigrateStoreCommand } from '../../../src/commands/auth/migrate-store';
+import { FileCredentialStore } from '../../../src/services/file-credential-store';
+
+// credential.service uses the keytar namespace, so named exports are needed here
+const mockKeychain = new Map<string, string>();
+jest.mock('keytar', () => ({
+  getPassword: jest.fn(async (service: string, account: string) => mockKeychain.get(`${service}:${account}`) ?? null),
+  setPassword: jest.fn(async (service: string, account: string, password: string) => {
+    mockKeychain.set(`${service}:${account}`, password);
+  }),
+  deletePassword: jest.fn(async (service: string, account: string) => mockKeychain.delete(`${service}:${account}`))
+}));
+jest.mock('ora', () => {
+  const spinner = {
+    start: jest.fn().mockReturnThis(),
+    succeed: jest.fn().mockReturnThis(),
+    fail: jest.fn().mockReturnThis()
+  };
+  return jest.fn(() => spinner);
+});
+
+describe('auth migrate-store', () => {
+  let tempDir: string;
+  let mockProcessExit: jest.SpyInstance;
+  const originalHome = process.env.HOME;
+
+  const run = async (...args: string[]) => {
+    const program = new Command();
+    program.exitOverride();
+    const auth = program.command('auth');
+    new MigrateStoreCommand().register(auth);
+    await program.parseAsync(['node', 'test', 'auth', 'migrate-store', ...args]);
+  };
+
+  const readConfig = async () =>
+    JSON.parse(await fs.readFile(path.join(tempDir, '.ezenv', 'config.json'), 'utf-8'));
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ezenv-migrate-'));
+    process.env.HOME = tempDir;
+    await fs.mkdir(path.join(tempDir, '.ezenv'));
+    await fs.writeFile(
+      path.join(tempDir, '.ezenv', 'config.json'),
+      JSON.stringify({ profiles: ['client-x'], instances: { acme: { url: 'https://ezenv.acme.dev', anonKey: 'k' } } })
+    );
+
+    mockKeychain.clear();
+    mockKeychain.set('ezenv-cli-production:token_data', '{"access_token":"default"}');
+    mockKeychain.set('ezenv-cli-production:client-x:token_data', '{"access_token":"client-x"}');
+    mockKeychain.set('ezenv-cli-staging@acme:token_data', '{"access_token":"acme"}');
+
+    mockProcessExit = jest.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+  });
+
+  afterEach(async () => {
+    process.env.HOME = originalHome;
+    mockProcessExit.mockRestore();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should move every profile and instance login from the keychain to the file store', async () => {
+    await run('file');
+
+    const fileStore = new FileCredentialStore(tempDir);
+    expect(await fileStore.retrieve('ezenv-cli-production', 'token_data')).toBe('{"access_token":"default"}');
+    expect(await fileStore.retrieve('ezenv-cli-production:client-x', 'token_data')).toBe('{"access_token":"client-x"}');
+    expect(await fileStore.retrieve('ezenv-cli-staging@acme', 'token_data')).toBe('{"access_token":"acme"}');
+    expect(mockKeychain.size).toBe(0);
+    expect((await readConfig()).credentialStore).toBe('file');
+  });
+
+  it('should keep the source logins with --keep and move them back', async () => {
+    await run('file', '--keep');
+    expect(mockKeychain.size).toBe(3);
+
+    mockKeychain.clear();
+    await run('keychain');
+
+    expect(mockKeychain.get('ezenv-cli-production:client-x:token_data')).toBe('{"access_token":"client-x"}');
+    expect(await new FileCredentialStore(tempDir).retrieve('ezenv-cli-production', 'token_data')).toBeNull();
+    expect((await readConfig()).credentialStore).toBe('keychain');
+  });
+
+  it('should refuse the memory store', async () => {
+    await expect(run('memory')).rejects.toThrow('process.exit');
+
+    expect(mockKeychain.size).toBe(3);
+  });
+});
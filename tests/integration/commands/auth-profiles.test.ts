@@ -0,0 +1,144 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import { SwitchCommand } from '../../../src/commands/auth/switch';
+import { ListProfilesCommand } from '../../../src/commands/auth/list';
+
+jest.mock('inquirer');
+jest.mock('../../../src/services/auth.service');
+jest.mock('../../../src/services/credential.service');
+jest.mock('../../../src/services/config.service', () => ({
+  ...jest.requireActual('../../../src/services/config.service'),
+  ConfigService: jest.fn()
+}));
+
+const mockInquirer = inquirer as jest.Mocked<typeof inquirer>;
+
+describe('auth profiles', () => {
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+  let mockProcessExit: jest.SpyInstance;
+  let configInstance: Record<string, jest.Mock>;
+
+  const AuthService = () => require('../../../src/services/auth.service').AuthService;
+  const ConfigService = () => require('../../../src/services/config.service').ConfigService;
+
+  const run = async (...args: string[]) => {
+    const program = new Command();
+    program.exitOverride();
+    const auth = program.command('auth');
+    new SwitchCommand().register(auth);
+    new ListProfilesCommand().register(auth);
+    await program.parseAsync(['node', 'test', 'auth', ...args]);
+  };
+
+  const output = () => mockConsoleLog.mock.calls.map(call => call.join(' ')).join('\n');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    configInstance = {
+      init: jest.fn().mockResolvedValue(undefined),
+      listProfiles: jest.fn().mockReturnValue(['default', 'client-x']),
+      getProfile: jest.fn().mockReturnValue('default'),
+      resolveProfile: jest.fn().mockReturnValue({ name: 'default', source: 'default' }),
+      setActiveProfile: jest.fn().mockResolvedValue(undefined),
+      pinProfile: jest.fn().mockResolvedValue(undefined)
+    };
+    ConfigService().mockImplementation(() => configInstance);
+
+    AuthService().prototype.setEnvironment = jest.fn();
+    AuthService().prototype.getTokenSource = jest.fn().mockResolvedValue({
+      source: 'store',
+      description: 'system credential store'
+    });
+
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+    mockProcessExit = jest.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+  });
+
+  afterEach(() => {
+    mockConsoleLog.mockRestore();
+    mockConsoleError.mockRestore();
+    mockProcessExit.mockRestore();
+  });
+
+  describe('switch', () => {
+    it('should make a known profile the default', async () => {
+      await run('switch', 'client-x');
+
+      expect(configInstance.setActiveProfile).toHaveBeenCalledWith('client-x');
+      expect(output()).toContain('Switched to profile client-x');
+    });
+
+    it('should pin the profile in .ezenvrc with --pin', async () => {
+      await run('switch', 'client-x', '--pin');
+
+      expect(configInstance.pinProfile).toHaveBeenCalledWith('client-x');
+      expect(configInstance.setActiveProfile).not.toHaveBeenCalled();
+    });
+
+    it('should prompt for a profile when none is given', async () => {
+      (mockInquirer.prompt as unknown as jest.Mock).mockResolvedValueOnce({ profile: 'client-x' });
+
+      await run('switch');
+
+      expect(configInstance.setActiveProfile).toHaveBeenCalledWith('client-x');
+    });
+
+    it('should reject profiles that have not been logged in to', async () => {
+      await expect(run('switch', 'unknown')).rejects.toThrow('process.exit');
+
+      expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('Unknown profile "unknown"'));
+      expect(configInstance.setActiveProfile).not.toHaveBeenCalled();
+    });
+
+    it('should warn when .ezenvrc still selects another profile', async () => {
+      configInstance.resolveProfile.mockReturnValue({ name: 'default', source: 'ezenvrc' });
+
+      await run('switch', 'client-x');
+
+      expect(output()).toContain('.ezenvrc in this directory selects profile default here');
+    });
+  });
+
+  describe('list', () => {
+    beforeEach(() => {
+      AuthService().prototype.getProfile = jest.fn().mockReturnValue('client-x');
+      AuthService().prototype.getStoredTokenData = jest.fn()
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({
+          access_token: 'token',
+          refresh_token: 'refresh',
+          expires_at: '2100-01-01T00:00:00.000Z',
+          environment: 'production',
+          user_email: 'me@client-x.com'
+        });
+    });
+
+    it('should show each profile with its account', async () => {
+      configInstance.resolveProfile.mockReturnValue({ name: 'client-x', source: 'ezenvrc' });
+      configInstance.getProfile.mockReturnValue('client-x');
+
+      await run('list');
+
+      expect(AuthService().prototype.setProfile).toHaveBeenCalledWith('client-x');
+      expect(AuthService().prototype.getStoredTokenData).toHaveBeenCalledWith({ ignoreExternal: true });
+      expect(output()).toContain('not logged in');
+      expect(output()).toContain('me@client-x.com');
+      expect(output()).toContain('Active profile selected by .ezenvrc');
+    });
+
+    it('should output JSON with --json', async () => {
+      await run('list', '--json');
+
+      const result = JSON.parse(mockConsoleLog.mock.calls[0][0]);
+      expect(result).toEqual([
+        { profile: 'default', active: false, email: null, expiresAt: null, expired: false },
+        { profile: 'client-x', active: true, email: 'me@client-x.com', expiresAt: '2100-01-01T00:00:00.000Z', expired: false }
+      ]);
+    });
+  });
+});
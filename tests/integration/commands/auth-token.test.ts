@@ -0,0 +1,91 @@
+import { Command } from 'commander';
+import { LoginCommand } from '../../../src/commands/auth/login';
+import { StatusCommand } from '../../../src/commands/auth/status';
+
+jest.mock('../../../src/services/auth.service');
+jest.mock('../../../src/services/credential.service');
+
+describe('token-based authentication', () => {
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+  let mockProcessExit: jest.SpyInstance;
+  const originalIsTTY = process.stdin.isTTY;
+
+  const AuthService = () => require('../../../src/services/auth.service').AuthService;
+  const CredentialService = () => require('../../../src/services/credential.service').CredentialService;
+
+  const run = async (...args: string[]) => {
+    const program = new Command();
+    program.exitOverride();
+    const auth = program.command('auth');
+    new LoginCommand().register(auth);
+    new StatusCommand().register(auth);
+    await program.parseAsync(['node', 'test', 'auth', ...args]);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    CredentialService().getInstance = jest.fn().mockReturnValue({
+      isUsingMemoryStorage: jest.fn().mockReturnValue(false)
+    });
+    AuthService().prototype.setEnvironment = jest.fn();
+    AuthService().prototype.getProfile = jest.fn().mockReturnValue('default');
+    AuthService().prototype.loginWithToken = jest.fn().mockResolvedValue({
+      access_token: 'token',
+      expires_at: '2100-01-01T00:00:00.000Z',
+      environment: 'production',
+      user_email: 'ci@example.com'
+    });
+
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+    mockProcessExit = jest.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+  });
+
+  afterEach(() => {
+    process.stdin.isTTY = originalIsTTY;
+    mockConsoleLog.mockRestore();
+    mockConsoleError.mockRestore();
+    mockProcessExit.mockRestore();
+    jest.restoreAllMocks();
+  });
+
+  it('should store the token read from stdin with --with-token', async () => {
+    process.stdin.isTTY = false;
+    jest.spyOn(LoginCommand.prototype as any, 'readStdin').mockResolvedValue('  token\n');
+
+    await run('login', '--with-token');
+
+    expect(AuthService().prototype.loginWithToken).toHaveBeenCalledWith('token');
+    expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('Token stored for production environment'));
+  });
+
+  it('should refuse --with-token when stdin is a terminal', async () => {
+    process.stdin.isTTY = true;
+
+    await expect(run('login', '--with-token')).rejects.toThrow('process.exit');
+
+    expect(AuthService().prototype.loginWithToken).not.toHaveBeenCalled();
+    expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('No token on stdin'));
+  });
+
+  it('should report the active token source in auth status', async () => {
+    AuthService().prototype.getStoredTokenData = jest.fn().mockResolvedValue({
+      access_token: 'token',
+      expires_at: '2100-01-01T00:00:00.000Z',
+      environment: 'production'
+    });
+    AuthService().prototype.isTokenExpired = jest.fn().mockResolvedValue(false);
+    AuthService().prototype.getTokenSource = jest.fn().mockResolvedValue({
+      source: 'env',
+      description: 'EZENV_TOKEN environment variable'
+    });
+
+    await run('status');
+
+    expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('Token source: EZENV_TOKEN environment variable'));
+  });
+});
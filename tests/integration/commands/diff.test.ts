@@ -115,7 +115,8 @@ describe('DiffCommand', () => {
       
       expect(DiffService.prototype.formatDiff).toHaveBeenCalledWith(diffResult, {
         format: 'inline',
-        colorize: true
+        colorize: true,
+        mask: { style: 'full', reveal: 3 }
       });
       expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('+ KEY2=value2'));
       expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('Last synced: 2024-01-01T00:00:00Z'));
@@ -145,7 +146,8 @@ describe('DiffCommand', () => {
       
       expect(DiffService.prototype.formatDiff).toHaveBeenCalledWith(expect.any(Object), {
         format: 'side-by-side',
-        colorize: true
+        colorize: true,
+        mask: { style: 'full', reveal: 3 }
       });
     });
 
@@ -173,7 +175,8 @@ describe('DiffCommand', () => {
       
       expect(DiffService.prototype.formatDiff).toHaveBeenCalledWith(expect.any(Object), {
         format: 'summary',
-        colorize: true
+        colorize: true,
+        mask: { style: 'full', reveal: 3 }
       });
       expect(mockConsoleLog).toHaveBeenCalledWith('Modified: 1');
     });
@@ -230,7 +233,8 @@ describe('DiffCommand', () => {
       
       expect(DiffService.prototype.formatDiff).toHaveBeenCalledWith(diffResult, {
         format: 'inline',
-        colorize: false
+        colorize: false,
+        mask: { style: 'full', reveal: 3 }
       });
     });
 
@@ -258,5 +262,238 @@ describe('DiffCommand', () => {
       
       expect(SecretsService.prototype.getSecrets).toHaveBeenCalledWith('Test Project', 'production');
     });
+
+    describe('--exit-code', () => {
+      const run = async (...args: string[]) => {
+        const command = new Command();
+        diffCommand.register(command);
+        await command.parseAsync(['node', 'test', 'diff', ...args]);
+      };
+
+      beforeEach(() => {
+        const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+        const FileService = require('../../../src/services/file.service').FileService;
+        const DiffService = require('../../../src/services/diff.service').DiffService;
+
+        SecretsService.prototype.getSecrets.mockResolvedValue({ KEY1: 'value1' });
+        FileService.prototype.readEnvFile.mockResolvedValue({});
+        DiffService.prototype.formatDiff.mockReturnValue('+ KEY1=value1');
+        DiffService.prototype.compareSecrets.mockReturnValue({
+          added: { KEY1: 'value1' },
+          modified: {},
+          removed: {},
+          localOnly: {}
+        });
+      });
+
+      it('should exit 1 when there are differences', async () => {
+        await expect(run('--exit-code')).rejects.toThrow('process.exit');
+
+        expect(mockProcessExit).toHaveBeenCalledWith(1);
+      });
+
+      it('should exit 0 when only local-only variables differ', async () => {
+        const DiffService = require('../../../src/services/diff.service').DiffService;
+        DiffService.prototype.compareSecrets.mockReturnValue({
+          added: {},
+          modified: {},
+          removed: {},
+          localOnly: { LOCAL_DB: 'localhost' }
+        });
+
+        await run('--exit-code');
+
+        expect(mockProcessExit).not.toHaveBeenCalled();
+      });
+
+      it('should not change the exit code without the flag', async () => {
+        await run();
+
+        expect(mockProcessExit).not.toHaveBeenCalled();
+      });
+
+      it('should exit 2 on errors', async () => {
+        const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+        SecretsService.prototype.getSecrets.mockRejectedValue(new Error('Network down'));
+
+        await expect(run('--exit-code')).rejects.toThrow('process.exit');
+
+        expect(mockProcessExit).toHaveBeenCalledWith(2);
+      });
+    });
+
+    it('should print only the JSON document with --format json', async () => {
+      const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+      const FileService = require('../../../src/services/file.service').FileService;
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+
+      SecretsService.prototype.getSecrets.mockResolvedValue({});
+      FileService.prototype.readEnvFile.mockResolvedValue({});
+      FileService.prototype.getLastSyncTime.mockResolvedValue('2024-01-01T00:00:00Z');
+      DiffService.prototype.compareSecrets.mockReturnValue({ added: {}, modified: {}, removed: {}, localOnly: {} });
+      DiffService.prototype.formatDiff.mockReturnValue('{}');
+
+      const command = new Command();
+      diffCommand.register(command);
+      await command.parseAsync(['node', 'test', 'diff', '--format', 'json']);
+
+      expect(mockConsoleLog.mock.calls).toEqual([['{}']]);
+    });
+
+    it('should pass mask options through', async () => {
+      const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+      const FileService = require('../../../src/services/file.service').FileService;
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+
+      SecretsService.prototype.getSecrets.mockResolvedValue({});
+      FileService.prototype.readEnvFile.mockResolvedValue({});
+      DiffService.prototype.compareSecrets.mockReturnValue({ added: {}, modified: {}, removed: {}, localOnly: {} });
+      DiffService.prototype.formatDiff.mockReturnValue('');
+
+      const run = async (...args: string[]) => {
+        const command = new Command();
+        diffCommand.register(command);
+        await command.parseAsync(['node', 'test', 'diff', ...args]);
+      };
+
+      await run('--mask', 'partial', '--reveal', '2');
+      await run('--show-values');
+
+      expect(DiffService.prototype.formatDiff.mock.calls[0][1].mask).toEqual({ style: 'partial', reveal: 2 });
+      expect(DiffService.prototype.formatDiff.mock.calls[1][1].mask).toEqual({ style: 'none' });
+    });
+
+    it('should reject unknown formats', async () => {
+      const command = new Command();
+      diffCommand.register(command);
+
+      await expect(command.parseAsync(['node', 'test', 'diff', '--format', 'xml'])).rejects.toThrow('process.exit');
+
+      expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('Invalid format: xml'));
+    });
+  });
+
+  describe('comparing two environments', () => {
+    const run = async (...args: string[]) => {
+      const command = new Command();
+      diffCommand.register(command);
+      await command.parseAsync(['node', 'test', 'diff', ...args]);
+    };
+
+    beforeEach(() => {
+      const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+
+      SecretsService.prototype.getSecrets.mockImplementation((_project: string, env: string) =>
+        Promise.resolve(env === 'staging' ? { A: '1', NEW: 'x' } : { A: '2' })
+      );
+      DiffService.prototype.compareSecrets.mockReturnValue({
+        added: {},
+        modified: { A: { old: '2', new: '1' } },
+        removed: {},
+        localOnly: {}
+      });
+      DiffService.prototype.formatDiff.mockReturnValue('~ A');
+    });
+
+    it('should fetch both environments from the selected project', async () => {
+      const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+      const FileService = require('../../../src/services/file.service').FileService;
+
+      await run('production', 'staging', '--format', 'side-by-side');
+
+      expect(SecretsService.prototype.getSecrets).toHaveBeenCalledWith('test-project', 'production');
+      expect(SecretsService.prototype.getSecrets).toHaveBeenCalledWith('test-project', 'staging');
+      expect(DiffService.prototype.compareSecrets).toHaveBeenCalledWith({ A: '2' }, { A: '1', NEW: 'x' });
+      expect(DiffService.prototype.formatDiff).toHaveBeenCalledWith(expect.any(Object), expect.objectContaining({
+        format: 'side-by-side',
+        labels: { left: 'production', right: 'staging' }
+      }));
+      expect(FileService.prototype.readEnvFile).not.toHaveBeenCalled();
+    });
+
+    it('should accept project/env references', async () => {
+      const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+
+      await run('web/staging', 'api/production');
+
+      expect(SecretsService.prototype.getSecrets).toHaveBeenCalledWith('web', 'staging');
+      expect(SecretsService.prototype.getSecrets).toHaveBeenCalledWith('api', 'production');
+    });
+
+    it('should pass keys-only mode to the formatter', async () => {
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+
+      await run('staging', 'production', '--keys-only');
+
+      expect(DiffService.prototype.formatDiff.mock.calls[0][1].keysOnly).toBe(true);
+    });
+
+    it('should exit 1 on drift with --exit-code', async () => {
+      await expect(run('staging', 'production', '--exit-code')).rejects.toThrow('process.exit');
+
+      expect(mockProcessExit).toHaveBeenCalledWith(1);
+    });
+
+    it('should require a project for bare environment names', async () => {
+      const ConfigService = require('../../../src/services/config.service').ConfigService;
+      ConfigService.prototype.getSelectedProject.mockReturnValue(undefined);
+
+      await expect(run('staging', 'production')).rejects.toThrow('process.exit');
+
+      expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('No project selected'));
+    });
+  });
+
+  describe('key rules', () => {
+    const run = async (...args: string[]) => {
+      const command = new Command();
+      diffCommand.register(command);
+      await command.parseAsync(['node', 'test', 'diff', ...args]);
+    };
+
+    beforeEach(() => {
+      const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+
+      SecretsService.prototype.getSecrets.mockImplementation((_project: string, env: string) =>
+        Promise.resolve(env === 'staging'
+          ? { NEXT_PUBLIC_API_URL: 'staging', STRIPE_SECRET_KEY: 'sk_test', SENTRY_DSN: 'dsn' }
+          : { NEXT_PUBLIC_API_URL: 'prod', STRIPE_SECRET_KEY: 'sk_live' })
+      );
+      DiffService.prototype.compareSecrets.mockReturnValue({ added: {}, modified: {}, removed: {}, localOnly: {} });
+    });
+
+    it('should apply repeated --exclude flags to both environments', async () => {
+      const ConfigService = require('../../../src/services/config.service').ConfigService;
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+
+      await run('production', '--exclude', 'STRIPE_*', '--exclude', 'SENTRY_*', 'staging');
+
+      expect(DiffService.prototype.compareSecrets).toHaveBeenCalledWith(
+        { NEXT_PUBLIC_API_URL: 'prod' },
+        { NEXT_PUBLIC_API_URL: 'staging' }
+      );
+      expect(ConfigService.prototype.getOutputRules).not.toHaveBeenCalled();
+    });
+
+    it('should compare the local file with the rules stored for it', async () => {
+      const ConfigService = require('../../../src/services/config.service').ConfigService;
+      const FileService = require('../../../src/services/file.service').FileService;
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+      ConfigService.prototype.getOutputRules = jest.fn().mockReturnValue({ exclude: ['STRIPE_*'] });
+      FileService.prototype.readEnvFile.mockResolvedValue({ NEXT_PUBLIC_API_URL: 'local', SENTRY_DSN: 'dsn' });
+      diffCommand = new DiffCommand();
+
+      await run('staging', '--format', 'json');
+
+      expect(ConfigService.prototype.getOutputRules).toHaveBeenCalledWith('.env');
+      expect(DiffService.prototype.compareSecrets).toHaveBeenCalledWith(
+        { NEXT_PUBLIC_API_URL: 'local', SENTRY_DSN: 'dsn' },
+        { NEXT_PUBLIC_API_URL: 'staging', SENTRY_DSN: 'dsn' }
+      );
+      expect(mockConsoleLog).not.toHaveBeenCalledWith(expect.stringContaining('Keys:'));
+    });
   });
-});
\ No newline at end of file
+});
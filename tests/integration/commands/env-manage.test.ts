@@ -0,0 +1,161 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import { CreateEnvironmentCommand } from '../../../src/commands/env/create';
+import { RenameEnvironmentCommand } from '../../../src/commands/env/rename';
+import { DeleteEnvironmentCommand } from '../../../src/commands/env/delete';
+import { CloneEnvironmentCommand } from '../../../src/commands/env/clone';
+
+jest.mock('ora', () => {
+  return jest.fn(() => ({
+    start: jest.fn().mockReturnThis(),
+    stop: jest.fn().mockReturnThis(),
+    succeed: jest.fn().mockReturnThis(),
+    fail: jest.fn().mockReturnThis(),
+  }));
+});
+
+jest.mock('inquirer');
+jest.mock('../../../src/services/config.service');
+jest.mock('../../../src/services/project.service');
+jest.mock('../../../src/services/environment.service');
+jest.mock('../../../src/services/secrets.service');
+
+const mockInquirer = inquirer as jest.Mocked<typeof inquirer>;
+
+describe('env create/rename/delete/clone', () => {
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+  let mockProcessExit: jest.SpyInstance;
+
+  const ProjectService = () => require('../../../src/services/project.service').ProjectService;
+  const ConfigService = () => require('../../../src/services/config.service').ConfigService;
+  const EnvironmentService = () => require('../../../src/services/environment.service').EnvironmentService;
+  const SecretsService = () => require('../../../src/services/secrets.service').SecretsService;
+
+  const environments = [
+    { id: 'env-dev', project_id: 'proj-1', name: 'development' },
+    { id: 'env-stg', project_id: 'proj-1', name: 'staging' }
+  ];
+
+  const run = async (...args: string[]) => {
+    const program = new Command();
+    program.exitOverride();
+    const env = program.command('env');
+    new CreateEnvironmentCommand().register(env);
+    new RenameEnvironmentCommand().register(env);
+    new DeleteEnvironmentCommand().register(env);
+    new CloneEnvironmentCommand().register(env);
+    await program.parseAsync(['node', 'test', 'env', ...args]);
+  };
+
+  const withRole = (role: string) => {
+    ProjectService().prototype.resolveProject = jest.fn().mockResolvedValue({
+      id: 'proj-1',
+      name: 'web',
+      team_id: 'team-1',
+      user_role: role
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    withRole('admin');
+
+    ConfigService().prototype.init = jest.fn().mockResolvedValue(undefined);
+    ConfigService().prototype.getSelectedEnvironment = jest.fn().mockReturnValue('env-stg');
+    ConfigService().prototype.clearSelectedEnvironment = jest.fn().mockResolvedValue(undefined);
+    ConfigService().prototype.selectEnvironment = jest.fn().mockResolvedValue(undefined);
+
+    EnvironmentService().prototype.resolveEnvironmentAlias = jest.fn((name: string) => (name === 'stage' ? 'staging' : name));
+    EnvironmentService().prototype.getEnvironment = jest.fn((_projectId: string, name: string) =>
+      Promise.resolve(environments.find(env => env.name === name) || null)
+    );
+    EnvironmentService().prototype.createEnvironment = jest.fn((projectId: string, name: string) =>
+      Promise.resolve({ id: 'env-new', project_id: projectId, name })
+    );
+    EnvironmentService().prototype.renameEnvironment = jest.fn().mockResolvedValue(undefined);
+    EnvironmentService().prototype.deleteEnvironment = jest.fn().mockResolvedValue(undefined);
+
+    SecretsService().prototype.getSecrets = jest.fn().mockResolvedValue({ API_URL: 'https://staging', API_KEY: 'k' });
+    SecretsService().prototype.updateSecrets = jest.fn().mockResolvedValue(undefined);
+
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+    mockProcessExit = jest.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+  });
+
+  afterEach(() => {
+    mockConsoleLog.mockRestore();
+    mockConsoleError.mockRestore();
+    mockProcessExit.mockRestore();
+  });
+
+  it('should create an environment as manager', async () => {
+    withRole('manager');
+
+    await run('create', 'preview', '--select');
+
+    expect(EnvironmentService().prototype.createEnvironment).toHaveBeenCalledWith('proj-1', 'preview');
+    expect(ConfigService().prototype.selectEnvironment).toHaveBeenCalledWith(expect.objectContaining({ id: 'env-new' }));
+  });
+
+  it('should refuse to create an environment as member', async () => {
+    withRole('member');
+
+    await expect(run('create', 'preview')).rejects.toThrow('process.exit');
+
+    expect(EnvironmentService().prototype.createEnvironment).not.toHaveBeenCalled();
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      expect.stringContaining('You must be a manager or admin of project "web" to create environments')
+    );
+  });
+
+  it('should reject creating an environment that already exists', async () => {
+    await expect(run('create', 'staging')).rejects.toThrow('process.exit');
+
+    expect(EnvironmentService().prototype.createEnvironment).not.toHaveBeenCalled();
+  });
+
+  it('should rename an environment resolved through its alias', async () => {
+    await run('rename', 'stage', 'qa');
+
+    expect(EnvironmentService().prototype.renameEnvironment).toHaveBeenCalledWith('env-stg', 'qa');
+  });
+
+  it('should require the admin role to delete an environment', async () => {
+    withRole('manager');
+
+    await expect(run('delete', 'staging', '--confirm', 'staging')).rejects.toThrow('process.exit');
+
+    expect(EnvironmentService().prototype.deleteEnvironment).not.toHaveBeenCalled();
+  });
+
+  it('should delete a confirmed environment and clear the selection', async () => {
+    (mockInquirer.prompt as unknown as jest.Mock).mockResolvedValueOnce({ typed: 'staging' });
+
+    await run('delete', 'staging');
+
+    expect(EnvironmentService().prototype.deleteEnvironment).toHaveBeenCalledWith('env-stg');
+    expect(ConfigService().prototype.clearSelectedEnvironment).toHaveBeenCalled();
+  });
+
+  it('should clone secrets into a new environment', async () => {
+    await run('clone', 'preview', '--from', 'stage');
+
+    expect(SecretsService().prototype.getSecrets).toHaveBeenCalledWith('proj-1', 'env-stg');
+    expect(EnvironmentService().prototype.createEnvironment).toHaveBeenCalledWith('proj-1', 'preview');
+    expect(SecretsService().prototype.updateSecrets).toHaveBeenCalledWith('proj-1', 'env-new', {
+      upsert: { API_URL: 'https://staging', API_KEY: 'k' },
+      delete: []
+    });
+  });
+
+  it('should fail to clone from an unknown environment', async () => {
+    await expect(run('clone', 'preview', '--from', 'qa')).rejects.toThrow('process.exit');
+
+    expect(EnvironmentService().prototype.createEnvironment).not.toHaveBeenCalled();
+    expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('Environment "qa" not found'));
+  });
+});
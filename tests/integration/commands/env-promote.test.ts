@@ -0,0 +1,213 @@
+import { Command } from 'commander';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import inquirer from 'inquirer';
+import { PromoteEnvironmentCommand } from '../../../src/commands/env/promote';
+
+jest.mock('ora', () => {
+  return jest.fn(() => ({
+    start: jest.fn().mockReturnThis(),
+    stop: jest.fn().mockReturnThis(),
+    succeed: jest.fn().mockReturnThis(),
+    fail: jest.fn().mockReturnThis(),
+  }));
+});
+
+jest.mock('inquirer');
+jest.mock('../../../src/services/config.service');
+jest.mock('../../../src/services/secrets.service');
+jest.mock('../../../src/services/project.service');
+jest.mock('../../../src/services/environment.service');
+
+const mockInquirer = inquirer as jest.Mocked<typeof inquirer>;
+
+describe('env promote', () => {
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+  let mockProcessExit: jest.SpyInstance;
+
+  const SecretsService = () => require('../../../src/services/secrets.service').SecretsService;
+  const ConfigService = () => require('../../../src/services/config.service').ConfigService;
+  const ProjectService = () => require('../../../src/services/project.service').ProjectService;
+  const EnvironmentService = () => require('../../../src/services/environment.service').EnvironmentService;
+
+  const run = async (...args: string[]) => {
+    const program = new Command();
+    program.exitOverride();
+    new PromoteEnvironmentCommand().register(program.command('env'));
+    await program.parseAsync(['node', 'test', 'env', 'promote', ...args]);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    ConfigService().prototype.init = jest.fn().mockResolvedValue(undefined);
+    ProjectService().prototype.resolveProject = jest.fn().mockResolvedValue({ id: 'project-id', name: 'web' });
+    EnvironmentService().prototype.listEnvironments = jest.fn().mockResolvedValue([
+      { id: 'staging-id', name: 'staging' },
+      { id: 'qa-id', name: 'qa' },
+      { id: 'production-id', name: 'production' },
+      { id: 'live-id', name: 'live' },
+      { id: 'preprod-id', name: 'preprod' }
+    ]);
+    EnvironmentService().prototype.resolveEnvironmentAlias = jest.fn((alias: string) =>
+      alias === 'prod' ? 'production' : alias
+    );
+
+    const secrets: Record<string, Record<string, string>> = {
+      'staging-id': { API_URL: 'https://staging', API_KEY: 'new-key', FEATURE_X: 'on', SHARED: 'same' },
+      'qa-id': { API_URL: 'https://qa', SHARED: 'same', QA_ONLY: 'x' },
+      'production-id': { API_URL: 'https://prod', SHARED: 'same', PROD_ONLY: 'keep' },
+      'live-id': { API_URL: 'https://live' },
+      'preprod-id': { API_URL: 'https://preprod' }
+    };
+    SecretsService().prototype.getSecrets = jest.fn((_project: string, env: string) =>
+      Promise.resolve(secrets[env])
+    );
+    SecretsService().prototype.updateSecrets = jest.fn().mockResolvedValue(undefined);
+
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+    mockProcessExit = jest.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+  });
+
+  afterEach(() => {
+    mockConsoleLog.mockRestore();
+    mockConsoleError.mockRestore();
+    mockProcessExit.mockRestore();
+  });
+
+  it('should promote added and changed keys but keep target-only keys', async () => {
+    await run('staging', 'qa', '--auto-approve');
+
+    expect(SecretsService().prototype.updateSecrets).toHaveBeenCalledWith('project-id', 'qa-id', {
+      upsert: { API_KEY: 'new-key', FEATURE_X: 'on', API_URL: 'https://staging' },
+      delete: []
+    });
+    expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('Keeping 1 target-only key(s): QA_ONLY'));
+  });
+
+  it('should delete target-only keys with --prune', async () => {
+    await run('staging', 'qa', '--auto-approve', '--prune');
+
+    expect(SecretsService().prototype.updateSecrets.mock.calls[0][2].delete).toEqual(['QA_ONLY']);
+  });
+
+  it('should only promote keys matching --keys globs', async () => {
+    await run('staging', 'qa', '--auto-approve', '--keys', 'API_*');
+
+    expect(SecretsService().prototype.updateSecrets.mock.calls[0][2].upsert).toEqual({
+      API_KEY: 'new-key',
+      API_URL: 'https://staging'
+    });
+  });
+
+  it('should promote only the interactively selected keys', async () => {
+    (mockInquirer.prompt as unknown as jest.Mock).mockResolvedValueOnce({ keys: ['FEATURE_X'] });
+
+    await run('staging', 'qa', '--interactive', '--auto-approve');
+
+    expect(SecretsService().prototype.updateSecrets.mock.calls[0][2].upsert).toEqual({ FEATURE_X: 'on' });
+  });
+
+  it('should require the production name to be typed', async () => {
+    (mockInquirer.prompt as unknown as jest.Mock).mockResolvedValueOnce({ typed: 'prod' });
+
+    await run('staging', 'production', '--auto-approve');
+
+    expect(mockInquirer.prompt).toHaveBeenCalledWith([
+      expect.objectContaining({ type: 'input', name: 'typed' })
+    ]);
+    expect(SecretsService().prototype.updateSecrets).not.toHaveBeenCalled();
+    expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('Promotion cancelled'));
+  });
+
+  it('should accept --confirm for production targets', async () => {
+    await run('staging', 'production', '--confirm', 'production');
+
+    expect(mockInquirer.prompt).not.toHaveBeenCalled();
+    expect(SecretsService().prototype.updateSecrets).toHaveBeenCalled();
+  });
+
+  it('should require the production name when the target is given by ID or alias', async () => {
+    (mockInquirer.prompt as unknown as jest.Mock).mockResolvedValue({ typed: 'production' });
+
+    await run('staging', 'production-id', '--auto-approve');
+    await run('staging', 'prod', '--auto-approve');
+
+    expect(mockInquirer.prompt).toHaveBeenCalledTimes(2);
+    expect(mockInquirer.prompt).toHaveBeenCalledWith([
+      expect.objectContaining({ type: 'input', message: expect.stringContaining('Type production to confirm') })
+    ]);
+    expect(SecretsService().prototype.updateSecrets).toHaveBeenCalledWith('project-id', 'production-id', expect.any(Object));
+  });
+
+  it('should treat live as production but not preprod', async () => {
+    await expect(run('staging', 'live', '--auto-approve', '--confirm', 'staging')).rejects.toThrow('process.exit');
+    await run('staging', 'preprod', '--auto-approve');
+
+    expect(mockInquirer.prompt).not.toHaveBeenCalled();
+    expect(SecretsService().prototype.updateSecrets).toHaveBeenCalledTimes(1);
+    expect(SecretsService().prototype.updateSecrets).toHaveBeenCalledWith('project-id', 'preprod-id', expect.any(Object));
+  });
+
+  it('should reject unknown environments and promoting to the same one', async () => {
+    await expect(run('staging', 'nope', '--auto-approve')).rejects.toThrow('process.exit');
+    await expect(run('staging', 'staging-id', '--auto-approve')).rejects.toThrow('process.exit');
+
+    expect(SecretsService().prototype.getSecrets).not.toHaveBeenCalled();
+  });
+
+  it('should reject a mismatched --confirm', async () => {
+    await expect(run('staging', 'production', '--confirm', 'staging')).rejects.toThrow('process.exit');
+
+    expect(SecretsService().prototype.updateSecrets).not.toHaveBeenCalled();
+  });
+
+  it('should print a JSON report on stdout', async () => {
+    await run('staging', 'production', '--confirm', 'production', '--json', '--keys', 'API_URL');
+
+    const report = JSON.parse(mockConsoleLog.mock.calls[mockConsoleLog.mock.calls.length - 1][0]);
+    expect(report).toMatchObject({
+      project: 'web',
+      source: 'staging',
+      target: 'production',
+      created: [],
+      updated: ['API_URL'],
+      deleted: [],
+      skipped: ['API_KEY', 'FEATURE_X'],
+      protected: ['PROD_ONLY']
+    });
+    expect(report.promotedAt).toEqual(expect.any(String));
+    expect(report.cancelled).toBe(false);
+    expect(mockConsoleLog).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a declined confirmation as cancelled', async () => {
+    (mockInquirer.prompt as unknown as jest.Mock).mockResolvedValueOnce({ confirmed: false });
+
+    await run('staging', 'qa', '--json');
+
+    const report = JSON.parse(mockConsoleLog.mock.calls[mockConsoleLog.mock.calls.length - 1][0]);
+    expect(report).toMatchObject({ target: 'qa', cancelled: true, promotedAt: null });
+    expect(report.updated.length).toBeGreaterThan(0);
+    expect(SecretsService().prototype.updateSecrets).not.toHaveBeenCalled();
+  });
+
+  it('should write the report to a file', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ezenv-promote-'));
+    const reportPath = path.join(tempDir, 'report.json');
+
+    try {
+      await run('staging', 'qa', '--auto-approve', '--report', reportPath);
+
+      const report = JSON.parse(await fs.readFile(reportPath, 'utf-8'));
+      expect(report.created).toEqual(['API_KEY', 'FEATURE_X']);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -370,4 +370,71 @@ describe('InitCommand Integration', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('Dry Run', () => {
+    let existing: Record<string, string>;
+
+    beforeEach(() => {
+      existing = {};
+      const FileService = require('../../../src/services/file.service').FileService;
+      FileService.prototype.readFileIfExists = jest.fn(async (file: string) => existing[file]);
+      FileService.prototype.getBackupPath = jest.fn((file: string) => `${file}.backup.2024-01-01T00-00-00-000Z`);
+
+      // Automocked services copy their methods at construction
+      initCommand = new InitCommand();
+      command = new Command();
+      command.exitOverride();
+      initCommand.register(command);
+    });
+
+    const output = () => consoleLogSpy.mock.calls.map(call => call.join(' ')).join('\n');
+
+    it('should list the files it would create without writing them', async () => {
+      await command.parseAsync(['node', 'test', 'init', '--dry-run', '--non-interactive', '--project', 'proj-123', '--environment', 'env-123']);
+
+      const FileService = require('../../../src/services/file.service').FileService;
+      expect(output()).toMatch(/\.env \(create\)/);
+      expect(output()).toMatch(/\.ezenvrc \(create\)/);
+      expect(output()).toMatch(/\.gitignore \(update\)/);
+      expect(output()).not.toContain('initialized successfully');
+      expect(FileService.prototype.writeEnvFile).not.toHaveBeenCalled();
+      expect(mockWriteFileSync).not.toHaveBeenCalled();
+      const { GitignoreManager } = require('../../../src/utils/gitignore');
+      expect(GitignoreManager.mock.results[0].value.addEntry).not.toHaveBeenCalled();
+    });
+
+    it('should describe changes to existing files and not prompt to overwrite', async () => {
+      const { resolve } = require('path');
+      existing[resolve('.env')] = 'API_KEY=old-key\nDATABASE_URL=postgres://test\n';
+      existing[resolve('.ezenvrc')] = JSON.stringify({
+        project: { id: 'proj-123', name: 'Test Project' },
+        environment: { id: 'env-123', name: 'development' }
+      }, null, 2) + '\n';
+      mockExistsSync.mockReturnValue(true);
+      mockInquirer.prompt
+        .mockResolvedValueOnce({ selectedEnvironment: mockEnvironment })
+        .mockResolvedValueOnce({ confirmEnv: true });
+
+      await command.parseAsync(['node', 'test', 'init', '--dry-run']);
+
+      const FileService = require('../../../src/services/file.service').FileService;
+      expect(mockInquirer.prompt).toHaveBeenCalledTimes(2);
+      expect(output()).toContain('~ API_KEY (line 1)');
+      expect(output()).toMatch(/\.env\.backup\.2024-01-01T00-00-00-000Z \(create\)/);
+      expect(output()).toMatch(/\.ezenvrc \(unchanged\)/);
+      expect(FileService.prototype.backupFile).not.toHaveBeenCalled();
+      expect(FileService.prototype.writeEnvFile).not.toHaveBeenCalled();
+    });
+
+    it('should not log in during a dry run', async () => {
+      const AuthService = require('../../../src/services/auth.service').AuthService;
+      AuthService.prototype.isAuthenticated.mockResolvedValue(false);
+
+      await command.parseAsync(['node', 'test', 'init', '--dry-run']);
+
+      expect(mockInquirer.prompt).not.toHaveBeenCalled();
+      expect(AuthService.prototype.authenticateWithPassword).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Not authenticated'));
+    });
+  });
+});
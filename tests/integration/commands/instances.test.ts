@@ -0,0 +1,162 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import { AddInstanceCommand } from '../../../src/commands/instances/add';
+import { ListInstancesCommand } from '../../../src/commands/instances/list';
+import { UseInstanceCommand } from '../../../src/commands/instances/use';
+import { RemoveInstanceCommand } from '../../../src/commands/instances/remove';
+import { setBackendInstance } from '../../../src/config/defaults';
+
+jest.mock('inquirer');
+jest.mock('../../../src/services/auth.service');
+jest.mock('../../../src/services/credential.service');
+jest.mock('../../../src/services/config.service', () => ({
+  ...jest.requireActual('../../../src/services/config.service'),
+  ConfigService: jest.fn()
+}));
+
+const mockInquirer = inquirer as jest.Mocked<typeof inquirer>;
+
+describe('instances commands', () => {
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+  let mockProcessExit: jest.SpyInstance;
+  let configInstance: Record<string, jest.Mock>;
+
+  const AuthService = () => require('../../../src/services/auth.service').AuthService;
+  const ConfigService = () => require('../../../src/services/config.service').ConfigService;
+
+  const acme = { url: 'https://ezenv.acme.dev', anonKey: 'acme-key' };
+
+  const run = async (...args: string[]) => {
+    const program = new Command();
+    program.exitOverride();
+    const instances = program.command('instances');
+    new AddInstanceCommand().register(instances);
+    new ListInstancesCommand().register(instances);
+    new UseInstanceCommand().register(instances);
+    new RemoveInstanceCommand().register(instances);
+    await program.parseAsync(['node', 'test', 'instances', ...args]);
+  };
+
+  const output = () => mockConsoleLog.mock.calls.map(call => call.join(' ')).join('\n');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    configInstance = {
+      init: jest.fn().mockResolvedValue(undefined),
+      getInstance: jest.fn((name: string) => (name === 'acme' ? acme : name === 'hosted' ? { url: 'https://hosted.supabase.co', anonKey: 'k' } : undefined)),
+      listInstances: jest.fn().mockReturnValue([
+        { name: 'hosted', url: 'https://hosted.supabase.co', anonKey: 'k' },
+        { name: 'acme', ...acme }
+      ]),
+      resolveInstance: jest.fn().mockReturnValue(undefined),
+      addInstance: jest.fn().mockResolvedValue(undefined),
+      removeInstance: jest.fn().mockResolvedValue(undefined),
+      setActiveInstance: jest.fn().mockResolvedValue(undefined),
+      pinInstance: jest.fn().mockResolvedValue(undefined),
+      listProfiles: jest.fn().mockReturnValue(['default', 'client-x'])
+    };
+    ConfigService().mockImplementation(() => configInstance);
+
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+    mockProcessExit = jest.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+  });
+
+  afterEach(() => {
+    setBackendInstance(undefined);
+    mockConsoleLog.mockRestore();
+    mockConsoleError.mockRestore();
+    mockProcessExit.mockRestore();
+  });
+
+  describe('add', () => {
+    it('should store the URL and anon key', async () => {
+      await run('add', 'corp', 'https://ezenv.corp.dev/', '--anon-key', 'corp-key', '--use');
+
+      expect(configInstance.addInstance).toHaveBeenCalledWith('corp', { url: 'https://ezenv.corp.dev', anonKey: 'corp-key' });
+      expect(configInstance.setActiveInstance).toHaveBeenCalledWith('corp');
+      expect(output()).toContain('Added instance corp');
+    });
+
+    it('should prompt for the anon key when it is not given', async () => {
+      (mockInquirer.prompt as unknown as jest.Mock).mockResolvedValueOnce({ anonKey: 'typed-key' });
+
+      await run('add', 'corp', 'http://localhost:54321');
+
+      expect(configInstance.addInstance).toHaveBeenCalledWith('corp', { url: 'http://localhost:54321', anonKey: 'typed-key' });
+      expect(configInstance.setActiveInstance).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid URLs and the reserved hosted name', async () => {
+      await expect(run('add', 'corp', 'ftp://example.com', '--anon-key', 'k')).rejects.toThrow('process.exit');
+      await expect(run('add', 'hosted', 'https://example.com', '--anon-key', 'k')).rejects.toThrow('process.exit');
+
+      expect(configInstance.addInstance).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('use', () => {
+    it('should switch to a known instance', async () => {
+      await run('use', 'acme');
+
+      expect(configInstance.setActiveInstance).toHaveBeenCalledWith('acme');
+    });
+
+    it('should pin the instance in .ezenvrc with --pin', async () => {
+      await run('use', 'acme', '--pin');
+
+      expect(configInstance.pinInstance).toHaveBeenCalledWith('acme');
+      expect(configInstance.setActiveInstance).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown instances', async () => {
+      await expect(run('use', 'nope')).rejects.toThrow('process.exit');
+
+      expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('Unknown instance "nope"'));
+    });
+  });
+
+  describe('list', () => {
+    it('should mark the instance in use', async () => {
+      setBackendInstance({ name: 'acme', ...acme });
+      configInstance.resolveInstance.mockReturnValue({ name: 'acme', source: 'ezenvrc' });
+
+      await run('list', '--json');
+
+      expect(JSON.parse(mockConsoleLog.mock.calls[0][0])).toEqual([
+        { name: 'hosted', url: 'https://hosted.supabase.co', active: false },
+        { name: 'acme', url: 'https://ezenv.acme.dev', active: true }
+      ]);
+    });
+
+    it('should say which setting selected the instance', async () => {
+      setBackendInstance({ name: 'acme', ...acme });
+      configInstance.resolveInstance.mockReturnValue({ name: 'acme', source: 'ezenvrc' });
+
+      await run('list');
+
+      expect(output()).toContain('Active instance selected by .ezenvrc');
+    });
+  });
+
+  describe('remove', () => {
+    it('should log out of the instance before removing it', async () => {
+      await run('remove', 'acme');
+
+      expect(AuthService().prototype.setInstance).toHaveBeenCalledWith('acme');
+      // 2 profiles x 3 environments
+      expect(AuthService().prototype.logout).toHaveBeenCalledTimes(6);
+      expect(configInstance.removeInstance).toHaveBeenCalledWith('acme');
+    });
+
+    it('should refuse to remove the hosted instance', async () => {
+      await expect(run('remove', 'hosted')).rejects.toThrow('process.exit');
+
+      expect(configInstance.removeInstance).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import { CreateProjectCommand } from '../../../src/commands/projects/create';
+import { RenameProjectCommand } from '../../../src/commands/projects/rename';
+import { DeleteProjectCommand } from '../../../src/commands/projects/delete';
+
+jest.mock('ora', () => {
+  return jest.fn(() => ({
+    start: jest.fn().mockReturnThis(),
+    stop: jest.fn().mockReturnThis(),
+    succeed: jest.fn().mockReturnThis(),
+    fail: jest.fn().mockReturnThis(),
+  }));
+});
+
+jest.mock('inquirer');
+jest.mock('../../../src/services/config.service');
+jest.mock('../../../src/services/project.service');
+
+const mockInquirer = inquirer as jest.Mocked<typeof inquirer>;
+
+describe('projects create/rename/delete', () => {
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+  let mockProcessExit: jest.SpyInstance;
+
+  const ProjectService = () => require('../../../src/services/project.service').ProjectService;
+  const ConfigService = () => require('../../../src/services/config.service').ConfigService;
+
+  const project = (role: string) => ({
+    id: 'proj-1',
+    name: 'web',
+    team_id: 'team-1',
+    user_role: role,
+    created_at: '',
+    updated_at: ''
+  });
+
+  const run = async (...args: string[]) => {
+    const program = new Command();
+    program.exitOverride();
+    const projects = program.command('projects');
+    new CreateProjectCommand().register(projects);
+    new RenameProjectCommand().register(projects);
+    new DeleteProjectCommand().register(projects);
+    await program.parseAsync(['node', 'test', 'projects', ...args]);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    ConfigService().prototype.init = jest.fn().mockResolvedValue(undefined);
+    ConfigService().prototype.getSelectedProject = jest.fn().mockReturnValue('proj-1');
+    ConfigService().prototype.setSelectedProject = jest.fn().mockResolvedValue(undefined);
+    ConfigService().prototype.clearSelectedEnvironment = jest.fn().mockResolvedValue(undefined);
+
+    ProjectService().prototype.listTeams = jest.fn().mockResolvedValue([
+      { id: 'team-1', name: 'Acme', role: 'admin' },
+      { id: 'team-2', name: 'Side', role: 'member' }
+    ]);
+    ProjectService().prototype.createProject = jest.fn().mockResolvedValue({ ...project('admin'), id: 'proj-2', name: 'api' });
+    ProjectService().prototype.findProject = jest.fn().mockResolvedValue(project('admin'));
+    ProjectService().prototype.renameProject = jest.fn().mockResolvedValue(undefined);
+    ProjectService().prototype.deleteProject = jest.fn().mockResolvedValue(undefined);
+
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+    mockProcessExit = jest.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+  });
+
+  afterEach(() => {
+    mockConsoleLog.mockRestore();
+    mockConsoleError.mockRestore();
+    mockProcessExit.mockRestore();
+  });
+
+  it('should create a project in the team given by --team', async () => {
+    await run('create', 'api', '--team', 'acme');
+
+    expect(mockInquirer.prompt).not.toHaveBeenCalled();
+    expect(ProjectService().prototype.createProject).toHaveBeenCalledWith('api', { id: 'team-1', name: 'Acme', role: 'admin' });
+  });
+
+  it('should prompt for a team when the user belongs to several', async () => {
+    (mockInquirer.prompt as unknown as jest.Mock).mockResolvedValueOnce({ teamId: 'team-1' });
+
+    await run('create', 'api', '--select');
+
+    expect(ProjectService().prototype.createProject).toHaveBeenCalled();
+    expect(ConfigService().prototype.setSelectedProject).toHaveBeenCalledWith('proj-2');
+  });
+
+  it('should refuse to create a project in a team where the user is not admin', async () => {
+    await expect(run('create', 'api', '--team', 'Side')).rejects.toThrow('process.exit');
+
+    expect(ProjectService().prototype.createProject).not.toHaveBeenCalled();
+    expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('You must be an admin of team "Side"'));
+  });
+
+  it('should rename a project as admin', async () => {
+    await run('rename', 'web', 'website');
+
+    expect(ProjectService().prototype.renameProject).toHaveBeenCalledWith('proj-1', 'website');
+  });
+
+  it('should refuse to rename a project without the admin role', async () => {
+    ProjectService().prototype.findProject = jest.fn().mockResolvedValue(project('manager'));
+
+    await expect(run('rename', 'web', 'website')).rejects.toThrow('process.exit');
+
+    expect(ProjectService().prototype.renameProject).not.toHaveBeenCalled();
+    expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('(your role: manager)'));
+  });
+
+  it('should delete a project after --confirm and clear the selection', async () => {
+    await run('delete', 'web', '--confirm', 'web');
+
+    expect(ProjectService().prototype.deleteProject).toHaveBeenCalledWith('proj-1');
+    expect(ConfigService().prototype.setSelectedProject).toHaveBeenCalledWith('');
+    expect(ConfigService().prototype.clearSelectedEnvironment).toHaveBeenCalled();
+  });
+
+  it('should cancel the deletion when the typed name does not match', async () => {
+    (mockInquirer.prompt as unknown as jest.Mock).mockResolvedValueOnce({ typed: 'wbe' });
+
+    await run('delete', 'web');
+
+    expect(ProjectService().prototype.deleteProject).not.toHaveBeenCalled();
+    expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('Deletion cancelled'));
+  });
+});
@@ -165,7 +165,7 @@ describe('Pull Command Integration', () => {
       await program.parseAsync(['node', 'test', 'pull', '--output', exportPath, '--format', 'export']);
       
       expect(FileService.prototype.writeEnvFile).toHaveBeenCalledWith(
-        expect.stringContaining('export DATABASE_URL="postgresql://localhost:5432/db"'),
+        expect.stringContaining("export DATABASE_URL='postgresql://localhost:5432/db'"),
         exportPath
       );
     });
@@ -334,6 +334,156 @@ describe('Pull Command Integration', () => {
     });
   });
 
+  describe('stdout and dry run', () => {
+    let stdoutSpy: jest.SpyInstance;
+    let existingContent: string | undefined;
+
+    beforeEach(() => {
+      const { ConfigService } = require('../../../src/services/config.service');
+      const { ProjectService } = require('../../../src/services/project.service');
+      const { EnvironmentService } = require('../../../src/services/environment.service');
+      const { SecretsService } = require('../../../src/services/secrets.service');
+      const { FileService } = require('../../../src/services/file.service');
+
+      ConfigService.prototype.init = jest.fn().mockResolvedValue(undefined);
+      ConfigService.prototype.getSelectedProject = jest.fn().mockReturnValue('project-123');
+      ConfigService.prototype.getSelectedEnvironment = jest.fn().mockReturnValue('env-456');
+      ProjectService.prototype.getProject = jest.fn().mockResolvedValue({ id: 'project-123', name: 'my-project' });
+      EnvironmentService.prototype.listEnvironments = jest.fn().mockResolvedValue([
+        { id: 'env-456', name: 'development' }
+      ]);
+      SecretsService.prototype.getSecrets = jest.fn().mockResolvedValue({ KEY: 'new', ADDED: 'x' });
+      FileService.prototype.checkWritePermission = jest.fn().mockResolvedValue(true);
+      FileService.prototype.writeEnvFile = jest.fn().mockResolvedValue(undefined);
+      FileService.prototype.backupFile = jest.fn().mockResolvedValue(undefined);
+      FileService.prototype.readFileIfExists = jest.fn(async () => existingContent);
+      FileService.prototype.getBackupPath = jest.fn((file: string) => `${file}.backup.2024-01-01T00-00-00-000Z`);
+
+      stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      // Automocked services copy their methods at construction, so build the command after stubbing
+      program = new Command();
+      program.exitOverride();
+      new PullCommand().register(program);
+    });
+
+    it('should write only the secrets to stdout with -o -', async () => {
+      const inquirer = require('inquirer');
+      inquirer.prompt = jest.fn();
+      const { FileService } = require('../../../src/services/file.service');
+
+      await program.parseAsync(['node', 'test', 'pull', '-o', '-', '--shell', 'bash']);
+
+      expect(stdoutSpy).toHaveBeenCalledTimes(1);
+      expect(stdoutSpy).toHaveBeenCalledWith("export KEY='new'\nexport ADDED='x'\n");
+      expect(consoleLogSpy).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(chalk.cyan('Current context:'));
+      expect(inquirer.prompt).not.toHaveBeenCalled();
+      expect(FileService.prototype.checkWritePermission).not.toHaveBeenCalled();
+      expect(FileService.prototype.writeEnvFile).not.toHaveBeenCalled();
+    });
+
+    it('should report the planned changes with --dry-run without writing', async () => {
+      const envPath = path.join(tempDir, '.env');
+      const inquirer = require('inquirer');
+      inquirer.prompt = jest.fn();
+      const { FileService } = require('../../../src/services/file.service');
+      existingContent = 'KEY=old\nGONE=x\n';
+
+      await program.parseAsync(['node', 'test', 'pull', '-o', envPath, '--dry-run']);
+
+      const output = consoleLogSpy.mock.calls.map(call => call.join(' ')).join('\n');
+      expect(output).toContain('(update)');
+      expect(output).toContain('~ KEY (line 1)');
+      expect(output).toContain('+ ADDED');
+      expect(output).toContain('- GONE (line 2)');
+      expect(output).toContain(`${envPath}.backup.2024-01-01T00-00-00-000Z`);
+      expect(output).not.toContain('new');
+      expect(inquirer.prompt).not.toHaveBeenCalled();
+      expect(FileService.prototype.writeEnvFile).not.toHaveBeenCalled();
+      expect(FileService.prototype.backupFile).not.toHaveBeenCalled();
+      expect(stdoutSpy).not.toHaveBeenCalled();
+    });
+
+    it('should plan creating a missing file', async () => {
+      const envPath = path.join(tempDir, 'secrets.json');
+      const { FileService } = require('../../../src/services/file.service');
+      existingContent = undefined;
+
+      await program.parseAsync(['node', 'test', 'pull', '-o', envPath, '-f', 'json', '--dry-run']);
+
+      const output = consoleLogSpy.mock.calls.map(call => call.join(' ')).join('\n');
+      expect(output).toContain('(create)');
+      expect(output).toContain('4 line(s)');
+      expect(output).not.toContain('backup');
+      expect(FileService.prototype.writeEnvFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('key rules', () => {
+    let stdoutSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      const { ConfigService } = require('../../../src/services/config.service');
+      const { ProjectService } = require('../../../src/services/project.service');
+      const { EnvironmentService } = require('../../../src/services/environment.service');
+      const { SecretsService } = require('../../../src/services/secrets.service');
+      const { FileService } = require('../../../src/services/file.service');
+
+      ConfigService.prototype.init = jest.fn().mockResolvedValue(undefined);
+      ConfigService.prototype.getSelectedProject = jest.fn().mockReturnValue('project-123');
+      ConfigService.prototype.getSelectedEnvironment = jest.fn().mockReturnValue('env-456');
+      ConfigService.prototype.getOutputRules = jest.fn().mockReturnValue({});
+      ProjectService.prototype.getProject = jest.fn().mockResolvedValue({ id: 'project-123', name: 'my-project' });
+      EnvironmentService.prototype.listEnvironments = jest.fn().mockResolvedValue([
+        { id: 'env-456', name: 'development' }
+      ]);
+      SecretsService.prototype.getSecrets = jest.fn().mockResolvedValue({
+        NEXT_PUBLIC_API_URL: 'https://api.example.com',
+        NEXT_PUBLIC_SENTRY_DSN: 'https://sentry',
+        STRIPE_SECRET_KEY: 'sk_live_123'
+      });
+      FileService.prototype.checkWritePermission = jest.fn().mockResolvedValue(true);
+      FileService.prototype.writeEnvFile = jest.fn().mockResolvedValue(undefined);
+
+      stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      program = new Command();
+      program.exitOverride();
+      new PullCommand().register(program);
+    });
+
+    it('should filter and rename keys before formatting', async () => {
+      await program.parseAsync([
+        'node', 'test', 'pull', '-o', '-', '-f', 'json',
+        '--only', 'NEXT_PUBLIC_*', '--exclude', '*_DSN', '--strip-prefix', 'NEXT_PUBLIC_', '--add-prefix', 'VITE_'
+      ]);
+
+      expect(JSON.parse(stdoutSpy.mock.calls[0][0])).toEqual({ VITE_API_URL: 'https://api.example.com' });
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        chalk.gray('Keys: only NEXT_PUBLIC_*; excluding *_DSN; strip NEXT_PUBLIC_; add VITE_')
+      );
+    });
+
+    it('should apply the rules stored in .ezenvrc for the output file', async () => {
+      const { ConfigService } = require('../../../src/services/config.service');
+      const { FileService } = require('../../../src/services/file.service');
+      const envPath = path.join(tempDir, '.env.worker');
+      (ConfigService.prototype.getOutputRules as jest.Mock).mockReturnValue({
+        exclude: ['STRIPE_*'],
+        stripPrefix: 'NEXT_PUBLIC_'
+      });
+
+      await program.parseAsync(['node', 'test', 'pull', '-o', envPath, '--strip-prefix', 'NEXT_']);
+
+      expect(ConfigService.prototype.getOutputRules).toHaveBeenCalledWith(envPath);
+      expect(FileService.prototype.writeEnvFile).toHaveBeenCalledWith(
+        'PUBLIC_API_URL=https://api.example.com\nPUBLIC_SENTRY_DSN=https://sentry',
+        envPath
+      );
+    });
+  });
+
   describe('empty secrets', () => {
     beforeEach(() => {
       const { ConfigService } = require('../../../src/services/config.service');
@@ -0,0 +1,157 @@
+import { PushCommand } from '../../../src/commands/push';
+import { Command } from 'commander';
+import * as readline from 'readline';
+
+// Mock the environment variable for supabase URL
+process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+
+jest.mock('../../../src/services/credential.service');
+jest.mock('../../../src/services/config.service');
+jest.mock('../../../src/services/api.service');
+jest.mock('../../../src/services/file.service');
+jest.mock('../../../src/services/secrets.service');
+jest.mock('readline');
+
+describe('PushCommand', () => {
+  let pushCommand: PushCommand;
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+  let mockProcessExit: jest.SpyInstance;
+
+  const run = async (...args: string[]) => {
+    const command = new Command();
+    pushCommand.register(command);
+    await command.parseAsync(['node', 'test', 'push', ...args]);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    const ConfigService = require('../../../src/services/config.service').ConfigService;
+    ConfigService.prototype.init = jest.fn().mockResolvedValue(undefined);
+    ConfigService.prototype.getSelectedProject = jest.fn().mockReturnValue('project-id');
+    ConfigService.prototype.getSelectedEnvironment = jest.fn().mockReturnValue('development');
+
+    const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+    SecretsService.prototype.getSecrets = jest.fn().mockResolvedValue({
+      SHARED: 'same',
+      CHANGED: 'remote-value',
+      REMOTE_ONLY: 'remote'
+    });
+    SecretsService.prototype.updateSecrets = jest.fn().mockResolvedValue(undefined);
+
+    const FileService = require('../../../src/services/file.service').FileService;
+    FileService.prototype.getEnvPath = jest.fn().mockResolvedValue('.env');
+    FileService.prototype.readEnvFile = jest.fn().mockResolvedValue({
+      SHARED: 'same',
+      CHANGED: 'local-value',
+      NEW_KEY: 'new',
+      LOCAL_DB: 'localhost',
+      CACHE_LOCAL: 'off'
+    });
+
+    pushCommand = new PushCommand();
+
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+    mockProcessExit = jest.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+  });
+
+  afterEach(() => {
+    mockConsoleLog.mockRestore();
+    mockConsoleError.mockRestore();
+    mockProcessExit.mockRestore();
+  });
+
+  it('should push creates, updates and deletes with auto-approve', async () => {
+    const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+
+    await run('--auto-approve');
+
+    expect(SecretsService.prototype.updateSecrets).toHaveBeenCalledWith('project-id', 'development', {
+      upsert: { NEW_KEY: 'new', CHANGED: 'local-value' },
+      delete: ['REMOTE_ONLY']
+    });
+    expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('Created 1, updated 1, deleted 1'));
+  });
+
+  it('should never push local-only variables', async () => {
+    const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+
+    await run('--auto-approve');
+
+    const changes = SecretsService.prototype.updateSecrets.mock.calls[0][2];
+    expect(changes.upsert).not.toHaveProperty('LOCAL_DB');
+    expect(changes.upsert).not.toHaveProperty('CACHE_LOCAL');
+    expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('2 local-only variable(s) will not be pushed'));
+  });
+
+  it('should keep remote-only variables with --no-delete', async () => {
+    const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+
+    await run('--auto-approve', '--no-delete');
+
+    const changes = SecretsService.prototype.updateSecrets.mock.calls[0][2];
+    expect(changes.delete).toEqual([]);
+  });
+
+  it('should show the planned changes', async () => {
+    await run('--auto-approve', '--show-values');
+
+    const output = mockConsoleLog.mock.calls.map(call => call[0]).join('\n');
+    expect(output).toContain('+ NEW_KEY=new');
+    expect(output).toContain('~ CHANGED');
+    expect(output).toContain('- REMOTE_ONLY=remote');
+  });
+
+  it('should mask values by default', async () => {
+    await run('--auto-approve');
+
+    const output = mockConsoleLog.mock.calls.map(call => call[0]).join('\n');
+    expect(output).toContain('~ CHANGED (length 12 → 11, 6 chars changed)');
+    expect(output).not.toContain('local-value');
+    expect(output).not.toContain('remote-value');
+  });
+
+  it('should report when remote is already up to date', async () => {
+    const FileService = require('../../../src/services/file.service').FileService;
+    const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+    FileService.prototype.readEnvFile.mockResolvedValue({
+      SHARED: 'same',
+      CHANGED: 'remote-value',
+      REMOTE_ONLY: 'remote',
+      LOCAL_DB: 'localhost'
+    });
+
+    await run();
+
+    expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('already up to date'));
+    expect(SecretsService.prototype.updateSecrets).not.toHaveBeenCalled();
+  });
+
+  it('should cancel when confirmation is declined', async () => {
+    const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+    const mockQuestion = jest.fn((_query, callback) => callback('no'));
+    (readline.createInterface as jest.Mock).mockReturnValue({
+      question: mockQuestion,
+      close: jest.fn()
+    });
+
+    await run();
+
+    expect(mockQuestion).toHaveBeenCalledWith(expect.stringContaining('Push these changes?'), expect.any(Function));
+    expect(SecretsService.prototype.updateSecrets).not.toHaveBeenCalled();
+    expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('Push cancelled'));
+  });
+
+  it('should show error when no environment is selected', async () => {
+    const ConfigService = require('../../../src/services/config.service').ConfigService;
+    ConfigService.prototype.getSelectedEnvironment.mockReturnValue(null);
+
+    await expect(run()).rejects.toThrow('process.exit');
+
+    expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('No environment selected'));
+  });
+});
@@ -0,0 +1,184 @@
+import { RunCommand } from '../../../src/commands/run';
+import { Command } from 'commander';
+import { EventEmitter } from 'events';
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+jest.mock('../../../src/services/credential.service');
+jest.mock('../../../src/services/config.service');
+jest.mock('../../../src/services/api.service');
+jest.mock('../../../src/services/file.service');
+jest.mock('../../../src/services/secrets.service');
+jest.mock('child_process');
+jest.mock('ora', () => {
+  return jest.fn(() => ({
+    start: jest.fn().mockReturnThis(),
+    stop: jest.fn().mockReturnThis(),
+    succeed: jest.fn().mockReturnThis(),
+    fail: jest.fn().mockReturnThis(),
+    text: ''
+  }));
+});
+
+const mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
+
+describe('RunCommand', () => {
+  let runCommand: RunCommand;
+  let child: EventEmitter & { kill: jest.Mock };
+  let tempDir: string;
+  let mockConsoleError: jest.SpyInstance;
+  let mockProcessExit: jest.SpyInstance;
+
+  const runWith = async (args: string[], exit: { code: number | null; signal?: string }) => {
+    const command = new Command();
+    runCommand.register(command);
+    const parsing = command.parseAsync(['node', 'test', 'run', ...args]);
+    await new Promise(resolve => setImmediate(resolve));
+    child.emit('exit', exit.code, exit.signal || null);
+    await expect(parsing).rejects.toThrow('process.exit');
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ezenv-run-'));
+
+    const ConfigService = require('../../../src/services/config.service').ConfigService;
+    ConfigService.prototype.init = jest.fn().mockResolvedValue(undefined);
+    ConfigService.prototype.getSelectedProject = jest.fn().mockReturnValue('project-id');
+    ConfigService.prototype.getSelectedEnvironment = jest.fn().mockReturnValue('env-id');
+
+    const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+    SecretsService.prototype.getSecrets = jest.fn().mockResolvedValue({
+      API_KEY: 'remote-key',
+      DEBUG: 'false'
+    });
+
+    const FileService = require('../../../src/services/file.service').FileService;
+    FileService.prototype.getEnvPath = jest.fn().mockResolvedValue(path.join(tempDir, '.env'));
+    FileService.prototype.readEnvFile = jest.fn();
+
+    child = Object.assign(new EventEmitter(), { kill: jest.fn() });
+    mockSpawn.mockReturnValue(child as any);
+
+    runCommand = new RunCommand();
+
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+    mockProcessExit = jest.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+    mockConsoleError.mockRestore();
+    mockProcessExit.mockRestore();
+  });
+
+  it('should spawn the command with secrets merged over process.env', async () => {
+    process.env.EZENV_RUN_TEST = 'inherited';
+
+    await runWith(['--', 'node', 'server.js', '--port', '3000'], { code: 0 });
+
+    expect(mockSpawn).toHaveBeenCalledWith(
+      'node',
+      ['server.js', '--port', '3000'],
+      expect.objectContaining({
+        stdio: 'inherit',
+        env: expect.objectContaining({
+          EZENV_RUN_TEST: 'inherited',
+          API_KEY: 'remote-key',
+          DEBUG: 'false'
+        })
+      })
+    );
+    expect(mockProcessExit).toHaveBeenCalledWith(0);
+
+    delete process.env.EZENV_RUN_TEST;
+  });
+
+  it('should use the --env override', async () => {
+    const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+
+    await runWith(['--env', 'staging', '--', 'true'], { code: 0 });
+
+    expect(SecretsService.prototype.getSecrets).toHaveBeenCalledWith('project-id', 'staging');
+  });
+
+  it('should exit with the child exit code', async () => {
+    await runWith(['--', 'false'], { code: 3 });
+
+    expect(mockProcessExit).toHaveBeenCalledWith(3);
+  });
+
+  it('should exit with 128 + signal number when the child is killed', async () => {
+    await runWith(['--', 'sleep', '10'], { code: null, signal: 'SIGTERM' });
+
+    expect(mockProcessExit).toHaveBeenCalledWith(128 + os.constants.signals.SIGTERM);
+  });
+
+  it('should forward signals to the child process', async () => {
+    const command = new Command();
+    runCommand.register(command);
+    const parsing = command.parseAsync(['node', 'test', 'run', '--', 'sleep', '10']);
+    await new Promise(resolve => setImmediate(resolve));
+
+    process.emit('SIGINT', 'SIGINT');
+    expect(child.kill).toHaveBeenCalledWith('SIGINT');
+
+    child.emit('exit', 130, null);
+    await expect(parsing).rejects.toThrow('process.exit');
+    expect(process.listenerCount('SIGINT')).toBe(0);
+  });
+
+  it('should apply local-only overrides from .env when requested', async () => {
+    const FileService = require('../../../src/services/file.service').FileService;
+    await fs.writeFile(path.join(tempDir, '.env'), 'LOCAL_DB=localhost\n');
+    FileService.prototype.readEnvFile.mockResolvedValue({
+      LOCAL_DB: 'localhost',
+      API_KEY: 'stale-local-key'
+    });
+
+    await runWith(['--local-overrides', '--', 'node'], { code: 0 });
+
+    const env = mockSpawn.mock.calls[0][2]?.env as Record<string, string>;
+    expect(env.LOCAL_DB).toBe('localhost');
+    expect(env.API_KEY).toBe('remote-key');
+  });
+
+  it('should let local-only overrides win over the same key from the remote', async () => {
+    const FileService = require('../../../src/services/file.service').FileService;
+    const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+    await fs.writeFile(path.join(tempDir, '.env'), 'LOCAL_DB=localhost\n');
+    SecretsService.prototype.getSecrets.mockResolvedValue({ LOCAL_DB: 'remote-db', API_KEY: 'remote-key' });
+    FileService.prototype.readEnvFile.mockResolvedValue({ LOCAL_DB: 'localhost' });
+    runCommand = new RunCommand();
+
+    await runWith(['--local-overrides', '--', 'node'], { code: 0 });
+
+    const env = mockSpawn.mock.calls[0][2]?.env as Record<string, string>;
+    expect(env.LOCAL_DB).toBe('localhost');
+    expect(env.API_KEY).toBe('remote-key');
+  });
+
+  it('should not read .env without --local-overrides', async () => {
+    const FileService = require('../../../src/services/file.service').FileService;
+
+    await runWith(['--', 'node'], { code: 0 });
+
+    expect(FileService.prototype.readEnvFile).not.toHaveBeenCalled();
+  });
+
+  it('should show error when no project is selected', async () => {
+    const ConfigService = require('../../../src/services/config.service').ConfigService;
+    ConfigService.prototype.getSelectedProject.mockReturnValue(undefined);
+
+    const command = new Command();
+    runCommand.register(command);
+
+    await expect(command.parseAsync(['node', 'test', 'run', '--', 'node'])).rejects.toThrow('process.exit');
+    expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('No project selected'));
+    expect(mockSpawn).not.toHaveBeenCalled();
+  });
+});
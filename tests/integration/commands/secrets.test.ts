@@ -0,0 +1,187 @@
+import { Command } from 'commander';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ListSecretsCommand } from '../../../src/commands/secrets/list';
+import { GetSecretCommand } from '../../../src/commands/secrets/get';
+import { SetSecretCommand } from '../../../src/commands/secrets/set';
+import { UnsetSecretCommand } from '../../../src/commands/secrets/unset';
+
+jest.mock('ora', () => {
+  return jest.fn(() => ({
+    start: jest.fn().mockReturnThis(),
+    stop: jest.fn().mockReturnThis(),
+    succeed: jest.fn().mockReturnThis(),
+    fail: jest.fn().mockReturnThis(),
+  }));
+});
+
+jest.mock('../../../src/services/config.service');
+jest.mock('../../../src/services/secrets.service');
+
+describe('Secrets Commands', () => {
+  let program: Command;
+  let secretsCommand: Command;
+  let mockConsoleLog: jest.SpyInstance;
+  let mockConsoleError: jest.SpyInstance;
+  let mockProcessExit: jest.SpyInstance;
+  let mockStdoutWrite: jest.SpyInstance;
+
+  const SecretsService = () => require('../../../src/services/secrets.service').SecretsService;
+  const ConfigService = () => require('../../../src/services/config.service').ConfigService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    ConfigService().prototype.init = jest.fn().mockResolvedValue(undefined);
+    ConfigService().prototype.getSelectedProject = jest.fn().mockReturnValue('project-id');
+    ConfigService().prototype.getSelectedEnvironment = jest.fn().mockReturnValue('env-id');
+
+    SecretsService().prototype.getSecrets = jest.fn().mockResolvedValue({
+      API_KEY: 'sk-123',
+      DEBUG: 'true'
+    });
+    SecretsService().prototype.updateSecrets = jest.fn().mockResolvedValue(undefined);
+
+    program = new Command();
+    program.exitOverride();
+    secretsCommand = program.command('secrets');
+
+    mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+    mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+    mockStdoutWrite = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    mockProcessExit = jest.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+  });
+
+  afterEach(() => {
+    mockConsoleLog.mockRestore();
+    mockConsoleError.mockRestore();
+    mockStdoutWrite.mockRestore();
+    mockProcessExit.mockRestore();
+  });
+
+  describe('secrets list', () => {
+    beforeEach(() => {
+      new ListSecretsCommand().register(secretsCommand);
+    });
+
+    it('should list keys only by default', async () => {
+      await program.parseAsync(['node', 'test', 'secrets', 'list']);
+
+      expect(mockConsoleLog).toHaveBeenCalledWith('API_KEY');
+      expect(mockConsoleLog).toHaveBeenCalledWith('DEBUG');
+      expect(JSON.stringify(mockConsoleLog.mock.calls)).not.toContain('sk-123');
+    });
+
+    it('should show values with --reveal', async () => {
+      await program.parseAsync(['node', 'test', 'secrets', 'list', '--reveal']);
+
+      expect(mockConsoleLog).toHaveBeenCalledWith('API_KEY=sk-123');
+    });
+
+    it('should resolve --project and --env overrides', async () => {
+      await program.parseAsync(['node', 'test', 'secrets', 'list', '--project', 'web', '--env', 'staging']);
+
+      expect(SecretsService().prototype.getSecrets).toHaveBeenCalledWith('web', 'staging');
+    });
+
+    it('should fail when no environment is selected', async () => {
+      ConfigService().prototype.getSelectedEnvironment.mockReturnValue(undefined);
+
+      await expect(
+        program.parseAsync(['node', 'test', 'secrets', 'list'])
+      ).rejects.toThrow('process.exit');
+
+      expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('No environment selected'));
+    });
+  });
+
+  describe('secrets get', () => {
+    beforeEach(() => {
+      new GetSecretCommand().register(secretsCommand);
+    });
+
+    it('should write the raw value to stdout', async () => {
+      await program.parseAsync(['node', 'test', 'secrets', 'get', 'API_KEY']);
+
+      expect(mockStdoutWrite).toHaveBeenCalledWith('sk-123');
+      expect(mockConsoleLog).not.toHaveBeenCalled();
+    });
+
+    it('should fail for an unknown key', async () => {
+      await expect(
+        program.parseAsync(['node', 'test', 'secrets', 'get', 'MISSING'])
+      ).rejects.toThrow('process.exit');
+
+      expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('Secret "MISSING" not found'));
+    });
+  });
+
+  describe('secrets set', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      new SetSecretCommand().register(secretsCommand);
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ezenv-secrets-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should set a value from KEY=VALUE', async () => {
+      await program.parseAsync(['node', 'test', 'secrets', 'set', 'DATABASE_URL=postgres://u:p@h/db?a=b']);
+
+      expect(SecretsService().prototype.updateSecrets).toHaveBeenCalledWith('project-id', 'env-id', {
+        upsert: { DATABASE_URL: 'postgres://u:p@h/db?a=b' },
+        delete: []
+      });
+    });
+
+    it('should read the value from --from-file verbatim', async () => {
+      const certPath = path.join(tempDir, 'cert.pem');
+      await fs.writeFile(certPath, '-----BEGIN-----\nabc\n-----END-----\n');
+
+      await program.parseAsync(['node', 'test', 'secrets', 'set', 'TLS_CERT', '--from-file', certPath]);
+
+      expect(SecretsService().prototype.updateSecrets).toHaveBeenCalledWith('project-id', 'env-id', {
+        upsert: { TLS_CERT: '-----BEGIN-----\nabc\n-----END-----\n' },
+        delete: []
+      });
+    });
+
+    it('should reject invalid key names', async () => {
+      await expect(
+        program.parseAsync(['node', 'test', 'secrets', 'set', '1BAD-KEY=value'])
+      ).rejects.toThrow('process.exit');
+
+      expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('Invalid secret name'));
+      expect(SecretsService().prototype.updateSecrets).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('secrets unset', () => {
+    beforeEach(() => {
+      new UnsetSecretCommand().register(secretsCommand);
+    });
+
+    it('should delete an existing key', async () => {
+      await program.parseAsync(['node', 'test', 'secrets', 'unset', 'DEBUG']);
+
+      expect(SecretsService().prototype.updateSecrets).toHaveBeenCalledWith('project-id', 'env-id', {
+        upsert: {},
+        delete: ['DEBUG']
+      });
+    });
+
+    it('should fail for an unknown key', async () => {
+      await expect(
+        program.parseAsync(['node', 'test', 'secrets', 'unset', 'MISSING'])
+      ).rejects.toThrow('process.exit');
+
+      expect(SecretsService().prototype.updateSecrets).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { SyncCommand } from '../../../src/commands/sync';
 import { Command } from 'commander';
 import * as readline from 'readline';
+import inquirer from 'inquirer';
 
 // Mock the environment variable for supabase URL
 process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
@@ -11,7 +12,11 @@ jest.mock('../../../src/services/api.service');
 jest.mock('../../../src/services/file.service');
 jest.mock('../../../src/services/diff.service');
 jest.mock('../../../src/services/secrets.service');
+jest.mock('../../../src/services/snapshot.service');
 jest.mock('readline');
+jest.mock('inquirer');
+
+const mockInquirer = inquirer as jest.Mocked<typeof inquirer>;
 
 describe('SyncCommand', () => {
   let syncCommand: SyncCommand;
@@ -28,6 +33,7 @@ describe('SyncCommand', () => {
     ConfigService.prototype.init = jest.fn().mockResolvedValue(undefined);
     ConfigService.prototype.getSelectedProject = jest.fn().mockReturnValue('project-id');
     ConfigService.prototype.getSelectedEnvironment = jest.fn().mockReturnValue('development');
+    ConfigService.prototype.getSyncRemovedMode = jest.fn().mockReturnValue('comment');
 
     // Mock SecretsService
     const SecretsService = require('../../../src/services/secrets.service').SecretsService;
@@ -45,6 +51,12 @@ describe('SyncCommand', () => {
     DiffService.prototype.compareSecrets = jest.fn();
     DiffService.prototype.formatDiff = jest.fn();
     DiffService.prototype.applyDiff = jest.fn();
+    DiffService.prototype.mergeWithSnapshot = jest.fn();
+
+    // Mock SnapshotService (no previous sync by default)
+    const SnapshotService = require('../../../src/services/snapshot.service').SnapshotService;
+    SnapshotService.prototype.load = jest.fn().mockResolvedValue(null);
+    SnapshotService.prototype.save = jest.fn().mockResolvedValue(undefined);
 
     syncCommand = new SyncCommand();
 
@@ -137,7 +149,9 @@ describe('SyncCommand', () => {
       
       await command.parseAsync(['node', 'test', 'sync', '--auto-approve']);
       
-      expect(DiffService.prototype.applyDiff).toHaveBeenCalledWith('.env', diffResult, expect.any(Object));
+      expect(DiffService.prototype.applyDiff).toHaveBeenCalledWith('.env', diffResult, expect.any(Object), {
+        removed: 'comment'
+      });
       expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('synchronized'));
     });
 
@@ -289,4 +303,308 @@ describe('SyncCommand', () => {
       expect(FileService.prototype.backupFile).not.toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+
+  describe('three-way merge', () => {
+    const emptyDiff = () => ({ added: {}, modified: {}, removed: {}, localOnly: {} });
+
+    beforeEach(() => {
+      const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+      const FileService = require('../../../src/services/file.service').FileService;
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+      const SnapshotService = require('../../../src/services/snapshot.service').SnapshotService;
+
+      SecretsService.prototype.getSecrets.mockResolvedValue({ A: 'remote', B: 'remote-b' });
+      FileService.prototype.readEnvFile.mockResolvedValue({ A: 'local', B: 'local-b' });
+      SnapshotService.prototype.load.mockResolvedValue({ salt: 'salt', hashes: { A: 'base', B: 'base-b' } });
+      DiffService.prototype.compareSecrets.mockReturnValue(emptyDiff());
+      DiffService.prototype.formatDiff.mockReturnValue('~ A');
+      DiffService.prototype.mergeWithSnapshot.mockReturnValue({
+        remote: { ...emptyDiff(), modified: { B: { old: 'local-b', new: 'remote-b' } } },
+        local: ['C'],
+        conflicts: [{ key: 'A', local: 'local', remote: 'remote' }]
+      });
+    });
+
+    const run = async (...args: string[]) => {
+      const command = new Command();
+      syncCommand.register(command);
+      await command.parseAsync(['node', 'test', 'sync', '--no-backup', ...args]);
+    };
+
+    it('should take remote values for conflicts with --prefer remote', async () => {
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+      const SnapshotService = require('../../../src/services/snapshot.service').SnapshotService;
+
+      await run('--auto-approve', '--prefer', 'remote');
+
+      expect(DiffService.prototype.applyDiff.mock.calls[0][1].modified).toEqual({
+        A: { old: 'local', new: 'remote' },
+        B: { old: 'local-b', new: 'remote-b' }
+      });
+      expect(SnapshotService.prototype.save).toHaveBeenCalledWith(
+        'project-id', 'development', '.env', { A: 'remote', B: 'remote-b' }, expect.any(Object)
+      );
+    });
+
+    it('should keep local values for conflicts with --prefer local', async () => {
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+
+      await run('--auto-approve', '--prefer', 'local');
+
+      expect(DiffService.prototype.applyDiff.mock.calls[0][1].modified).toEqual({
+        B: { old: 'local-b', new: 'remote-b' }
+      });
+      expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('Keeping local changes: C'));
+      expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('Keeping local values for: A'));
+    });
+
+    it('should prompt for each conflict', async () => {
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+      const mockRl = {
+        question: jest.fn((query: string, cb) => cb(query.includes('(r)emote') ? 'r' : 'yes')),
+        close: jest.fn()
+      };
+      (readline.createInterface as jest.Mock).mockReturnValue(mockRl);
+
+      await run();
+
+      expect(mockRl.question).toHaveBeenCalledWith(
+        expect.stringContaining('Keep (l)ocal or take (r)emote?'),
+        expect.any(Function)
+      );
+      expect(DiffService.prototype.applyDiff.mock.calls[0][1].modified).toHaveProperty('A');
+    });
+
+    it('should refuse to guess with --auto-approve and no --prefer', async () => {
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+
+      await expect(run('--auto-approve')).rejects.toThrow('process.exit');
+
+      expect(mockConsoleError).toHaveBeenCalledWith(expect.stringContaining('changed both locally and remotely'));
+      expect(DiffService.prototype.applyDiff).not.toHaveBeenCalled();
+    });
+
+    it('should not save a snapshot when the sync is cancelled', async () => {
+      const SnapshotService = require('../../../src/services/snapshot.service').SnapshotService;
+      const mockRl = {
+        question: jest.fn((_, cb) => cb('no')),
+        close: jest.fn()
+      };
+      (readline.createInterface as jest.Mock).mockReturnValue(mockRl);
+
+      await run('--prefer', 'local');
+
+      expect(SnapshotService.prototype.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('interactive mode', () => {
+    const diffResult = () => ({
+      added: { NEW_KEY: 'new' },
+      modified: { CHANGED: { old: 'old', new: 'new' } },
+      removed: { GONE: 'value' },
+      localOnly: {}
+    });
+
+    beforeEach(() => {
+      const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+      const FileService = require('../../../src/services/file.service').FileService;
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+
+      SecretsService.prototype.getSecrets.mockResolvedValue({ NEW_KEY: 'new', CHANGED: 'new' });
+      FileService.prototype.readEnvFile.mockResolvedValue({ CHANGED: 'old', GONE: 'value' });
+      DiffService.prototype.compareSecrets.mockReturnValue(diffResult());
+      DiffService.prototype.formatDiff.mockReturnValue('+ NEW_KEY=new');
+    });
+
+    const run = async () => {
+      const command = new Command();
+      syncCommand.register(command);
+      await command.parseAsync(['node', 'test', 'sync', '--interactive', '--no-backup']);
+    };
+
+    it('should apply only the selected changes and summarize the rest', async () => {
+      (mockInquirer.prompt as unknown as jest.Mock).mockResolvedValue({ changes: ['added:NEW_KEY'] });
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+      const SnapshotService = require('../../../src/services/snapshot.service').SnapshotService;
+
+      await run();
+
+      expect(mockInquirer.prompt).toHaveBeenCalledWith([
+        expect.objectContaining({ type: 'checkbox', name: 'changes' })
+      ]);
+      expect(DiffService.prototype.applyDiff).toHaveBeenCalledWith(
+        '.env',
+        { added: { NEW_KEY: 'new' }, modified: {}, removed: {}, localOnly: {} },
+        expect.any(Object),
+        { removed: 'comment' }
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('Skipped 2 change(s)'));
+      expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('~ CHANGED (kept local value)'));
+      expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('- GONE (kept, removed remotely)'));
+
+      // Skipped keys keep their local value in the snapshot so they are offered again
+      expect(SnapshotService.prototype.save).toHaveBeenCalledWith(
+        'project-id', 'development', '.env', { NEW_KEY: 'new', CHANGED: 'old', GONE: 'value' }, expect.any(Object)
+      );
+    });
+
+    it('should not touch the file when nothing is selected', async () => {
+      (mockInquirer.prompt as unknown as jest.Mock).mockResolvedValue({ changes: [] });
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+
+      await run();
+
+      expect(DiffService.prototype.applyDiff).not.toHaveBeenCalled();
+      expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('No changes selected'));
+      expect(mockConsoleLog).toHaveBeenCalledWith(expect.stringContaining('Skipped 3 change(s)'));
+    });
+
+    it('should not ask for a separate confirmation', async () => {
+      (mockInquirer.prompt as unknown as jest.Mock).mockResolvedValue({ changes: ['removed:GONE'] });
+
+      await run();
+
+      expect(readline.createInterface).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dry run', () => {
+    beforeEach(() => {
+      const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+      const FileService = require('../../../src/services/file.service').FileService;
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+      const SnapshotService = require('../../../src/services/snapshot.service').SnapshotService;
+      const { DiffService: RealDiffService } = jest.requireActual('../../../src/services/diff.service');
+
+      SecretsService.prototype.getSecrets.mockResolvedValue({ KEY1: 'new', ADDED: 'x' });
+      FileService.prototype.readEnvFile.mockResolvedValue({ KEY1: 'old', GONE: 'y' });
+      FileService.prototype.readFileIfExists = jest.fn().mockResolvedValue('KEY1=old\nGONE=y\n');
+      FileService.prototype.getBackupPath = jest.fn((file: string) => `${file}.backup.2024-01-01T00-00-00-000Z`);
+      DiffService.prototype.compareSecrets.mockReturnValue({
+        added: { ADDED: 'x' },
+        modified: { KEY1: { old: 'old', new: 'new' } },
+        removed: { GONE: 'y' },
+        localOnly: {}
+      });
+      DiffService.prototype.formatDiff.mockReturnValue('~ KEY1');
+      DiffService.prototype.toDotenvChanges = RealDiffService.prototype.toDotenvChanges;
+      SnapshotService.prototype.getSnapshotPath = jest.fn().mockReturnValue('/nonexistent/.ezenv/snapshots/abc.json');
+
+      // Automocked services copy their methods at construction
+      syncCommand = new SyncCommand();
+    });
+
+    const run = async (...args: string[]) => {
+      const command = new Command();
+      syncCommand.register(command);
+      await command.parseAsync(['node', 'test', 'sync', '--dry-run', ...args]);
+    };
+
+    const output = () => mockConsoleLog.mock.calls.map(call => call.join(' ')).join('\n');
+
+    it('should list every file that would change without writing or asking', async () => {
+      const FileService = require('../../../src/services/file.service').FileService;
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+      const SnapshotService = require('../../../src/services/snapshot.service').SnapshotService;
+
+      await run();
+
+      expect(output()).toContain('.env (update)');
+      expect(output()).toContain('~ KEY1 (line 1)');
+      expect(output()).toContain('+ ADDED');
+      expect(output()).toContain('- GONE (line 2)');
+      expect(output()).toContain('removed keys are commented out');
+      expect(output()).toContain('.env.backup.2024-01-01T00-00-00-000Z (create)');
+      expect(output()).toContain('/nonexistent/.ezenv/snapshots/abc.json (create)');
+      expect(readline.createInterface).not.toHaveBeenCalled();
+      expect(DiffService.prototype.applyDiff).not.toHaveBeenCalled();
+      expect(FileService.prototype.backupFile).not.toHaveBeenCalled();
+      expect(SnapshotService.prototype.save).not.toHaveBeenCalled();
+    });
+
+    it('should leave out the backup with --no-backup and describe deletes', async () => {
+      await run('--no-backup', '--removed', 'delete');
+
+      expect(output()).not.toContain('backup');
+      expect(output()).toContain('removed keys are deleted');
+    });
+
+    it('should not ask about conflicts', async () => {
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+      const SnapshotService = require('../../../src/services/snapshot.service').SnapshotService;
+      SnapshotService.prototype.load.mockResolvedValue({ salt: 'salt', hashes: {} });
+      DiffService.prototype.mergeWithSnapshot.mockReturnValue({
+        remote: { added: { ADDED: 'x' }, modified: {}, removed: {}, localOnly: {} },
+        local: [],
+        conflicts: [{ key: 'KEY1', local: 'old', remote: 'new' }]
+      });
+
+      await run();
+
+      expect(readline.createInterface).not.toHaveBeenCalled();
+      expect(output()).toContain('Would ask about: KEY1');
+      expect(output()).not.toContain('~ KEY1 (line');
+      expect(output()).toContain('+ ADDED');
+    });
+
+    it('should not save the snapshot when already up to date', async () => {
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+      const SnapshotService = require('../../../src/services/snapshot.service').SnapshotService;
+      DiffService.prototype.compareSecrets.mockReturnValue({ added: {}, modified: {}, removed: {}, localOnly: {} });
+
+      await run();
+
+      expect(output()).toContain('already up to date');
+      expect(output()).toContain('snapshots/abc.json (create)');
+      expect(SnapshotService.prototype.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('key rules', () => {
+    beforeEach(() => {
+      const ConfigService = require('../../../src/services/config.service').ConfigService;
+      const SecretsService = require('../../../src/services/secrets.service').SecretsService;
+      const FileService = require('../../../src/services/file.service').FileService;
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+
+      ConfigService.prototype.getOutputRules = jest.fn().mockReturnValue({ only: ['NEXT_PUBLIC_*'] });
+      SecretsService.prototype.getSecrets.mockResolvedValue({
+        NEXT_PUBLIC_API_URL: 'https://api.example.com',
+        STRIPE_SECRET_KEY: 'sk_live_123'
+      });
+      FileService.prototype.readEnvFile.mockResolvedValue({ VITE_API_URL: 'https://old.example.com', LOCAL_DEBUG: 'true' });
+      DiffService.prototype.compareSecrets.mockReturnValue({ added: {}, modified: {}, removed: {}, localOnly: {} });
+
+      // Automocked services copy their methods at construction
+      syncCommand = new SyncCommand();
+    });
+
+    it('should compare only the keys the rules select, as they are named locally', async () => {
+      const ConfigService = require('../../../src/services/config.service').ConfigService;
+      const DiffService = require('../../../src/services/diff.service').DiffService;
+      const SnapshotService = require('../../../src/services/snapshot.service').SnapshotService;
+
+      const command = new Command();
+      syncCommand.register(command);
+      await command.parseAsync(['node', 'test', 'sync', '--strip-prefix', 'NEXT_PUBLIC_', '--add-prefix', 'VITE_']);
+
+      expect(ConfigService.prototype.getOutputRules).toHaveBeenCalledWith('.env');
+      expect(DiffService.prototype.compareSecrets).toHaveBeenCalledWith(
+        { VITE_API_URL: 'https://old.example.com' },
+        { VITE_API_URL: 'https://api.example.com' }
+      );
+      expect(SnapshotService.prototype.save).toHaveBeenCalledWith(
+        'project-id', 'development', '.env', { VITE_API_URL: 'https://api.example.com' },
+        expect.objectContaining({ only: ['NEXT_PUBLIC_*'], stripPrefix: 'NEXT_PUBLIC_', addPrefix: 'VITE_' })
+      );
+      // Snapshots are kept per set of rules, as they hold the renamed keys
+      expect(SnapshotService.prototype.load).toHaveBeenCalledWith(
+        'project-id', 'development', '.env', SnapshotService.prototype.save.mock.calls[0][4]
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        expect.stringContaining('Keys: only NEXT_PUBLIC_*; strip NEXT_PUBLIC_; add VITE_')
+      );
+    });
+  });
+});
@@ -1,6 +1,9 @@
 import { AuthService } from '../../../src/services/auth.service';
 import { CredentialService } from '../../../src/services/credential.service';
 import fetch from 'node-fetch';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // Mock node-fetch
 jest.mock('node-fetch');
@@ -174,6 +177,20 @@ describe('AuthService - Enhanced Features', () => {
   });
 
   describe('token refresh', () => {
+    const originalHome = process.env.HOME;
+    let tempDir: string;
+
+    // Refreshes take a lock file under ~/.ezenv
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ezenv-refresh-'));
+      process.env.HOME = tempDir;
+    });
+
+    afterEach(() => {
+      process.env.HOME = originalHome;
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
     it('should refresh token successfully', async () => {
       const storedToken = {
         access_token: 'old-token',
@@ -1,6 +1,10 @@
 import { AuthService } from '../../../src/services/auth.service';
 import { CredentialService } from '../../../src/services/credential.service';
+import { setBackendInstance } from '../../../src/config/defaults';
 import fetch from 'node-fetch';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // Mock node-fetch
 jest.mock('node-fetch');
@@ -226,6 +230,20 @@ describe('AuthService', () => {
   });
 
   describe('refreshToken', () => {
+    const originalHome = process.env.HOME;
+    let tempDir: string;
+
+    // Refreshes take a lock file under ~/.ezenv
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ezenv-refresh-'));
+      process.env.HOME = tempDir;
+    });
+
+    afterEach(() => {
+      process.env.HOME = originalHome;
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
     it('should successfully refresh token', async () => {
       const storedData = {
         access_token: 'old-token',
@@ -290,6 +308,100 @@ describe('AuthService', () => {
     });
   });
 
+  describe('refresh coordination', () => {
+    const jwt = (claims: Record<string, unknown>) =>
+      ['header', Buffer.from(JSON.stringify(claims)).toString('base64url'), 'signature'].join('.');
+    const originalHome = process.env.HOME;
+    let tempDir: string;
+    let stored: string | null;
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ezenv-refresh-'));
+      process.env.HOME = tempDir;
+
+      stored = JSON.stringify({
+        access_token: 'old-token',
+        refresh_token: 'refresh-token',
+        expires_at: new Date(Date.now() - 1000).toISOString(),
+        environment: 'production',
+      });
+      mockCredentialService.retrieve.mockImplementation(async () => stored);
+      mockCredentialService.store.mockImplementation(async (_service, _account, value) => {
+        stored = value;
+      });
+    });
+
+    afterEach(() => {
+      process.env.HOME = originalHome;
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should share one refresh between concurrent callers', async () => {
+      mockFetch.mockImplementation(async () => ({
+        ok: true,
+        json: async () => ({ access_token: 'new-token', refresh_token: 'new-refresh', expires_in: 3600 }),
+      }) as any);
+
+      const results = await Promise.all([authService.refreshToken(), authService.refreshToken(), authService.refreshToken()]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(results.map(result => result?.access_token)).toEqual(['new-token', 'new-token', 'new-token']);
+      expect(JSON.parse(stored as string).refresh_token).toBe('new-refresh');
+    });
+
+    it('should use the token another process stored while it held the lock', async () => {
+      const lockPath = path.join(tempDir, '.ezenv', 'locks', 'refresh-ezenv-cli-production.lock');
+      fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+      fs.writeFileSync(lockPath, String(process.pid));
+
+      const refresh = authService.refreshToken();
+      await new Promise(resolve => setTimeout(resolve, 150));
+      // The other process finishes its refresh and releases the lock
+      stored = JSON.stringify({
+        access_token: 'rotated-elsewhere',
+        refresh_token: 'rotated-refresh',
+        expires_at: new Date(Date.now() + 3600 * 1000).toISOString(),
+        environment: 'production',
+      });
+      fs.unlinkSync(lockPath);
+
+      const result = await refresh;
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result?.access_token).toBe('rotated-elsewhere');
+      expect(result?.refresh_token).toBe('rotated-refresh');
+    });
+
+    it('should trust the JWT exp claim over the stored expires_at', async () => {
+      stored = JSON.stringify({
+        access_token: jwt({ exp: Math.floor(Date.now() / 1000) - 60 }),
+        expires_at: new Date(Date.now() + 3600 * 1000).toISOString(),
+        environment: 'production',
+      });
+      expect(await authService.isTokenExpired()).toBe(true);
+
+      stored = JSON.stringify({
+        access_token: jwt({ exp: Math.floor(Date.now() / 1000) + 3600 }),
+        expires_at: new Date(Date.now() - 1000).toISOString(),
+        environment: 'production',
+      });
+      expect(await authService.isTokenExpired()).toBe(false);
+    });
+
+    it('should store the expiry from the exp claim when refreshing', async () => {
+      const exp = Math.floor(Date.now() / 1000) + 600;
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ access_token: jwt({ exp }), expires_in: 3600 }),
+      } as any);
+
+      await authService.refreshToken();
+
+      expect(JSON.parse(stored as string).expires_at).toBe(new Date(exp * 1000).toISOString());
+    });
+  });
+
   describe('logout', () => {
     it('should delete stored token', async () => {
       mockCredentialService.delete.mockResolvedValueOnce(true);
@@ -435,4 +547,243 @@ describe('AuthService', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('profiles', () => {
+    afterEach(() => {
+      AuthService.setDefaultProfile('default');
+    });
+
+    it('should keep the default profile under the original service name', async () => {
+      expect(authService.getProfile()).toBe('default');
+
+      await authService.storeCredentials('test-token', 3600);
+
+      expect(mockCredentialService.store).toHaveBeenCalledWith('ezenv-cli-production', 'token_data', expect.any(String));
+    });
+
+    it('should store named profiles separately', async () => {
+      AuthService.setDefaultProfile('client-x');
+      const profileService = new AuthService(mockCredentialService);
+
+      await profileService.storeCredentials('test-token', 3600);
+      profileService.setProfile('other');
+      await profileService.logout();
+
+      expect(mockCredentialService.store).toHaveBeenCalledWith('ezenv-cli-production:client-x', 'token_data', expect.any(String));
+      expect(mockCredentialService.delete).toHaveBeenCalledWith('ezenv-cli-production:other', 'token_data');
+    });
+  });
+
+  describe('instances', () => {
+    afterEach(() => {
+      setBackendInstance(undefined);
+      AuthService.setDefaultProfile('default');
+    });
+
+    it('should talk to the selected instance even if it was chosen after construction', async () => {
+      setBackendInstance({ name: 'acme', url: 'https://ezenv.acme.dev/', anonKey: 'acme-key' });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ access_token: 'token', refresh_token: 'refresh', expires_in: 3600, user: { id: 'u1' } })
+      } as any);
+
+      await authService.authenticateWithPassword('test@example.com', 'password');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://ezenv.acme.dev/auth/v1/token?grant_type=password',
+        expect.objectContaining({ headers: expect.objectContaining({ apikey: 'acme-key' }) })
+      );
+    });
+
+    it('should scope stored credentials per instance and profile', async () => {
+      setBackendInstance({ name: 'acme', url: 'https://ezenv.acme.dev', anonKey: 'acme-key' });
+      AuthService.setDefaultProfile('client-x');
+
+      await authService.storeCredentials('test-token', 3600);
+      authService.setInstance('hosted');
+      await authService.storeCredentials('test-token', 3600);
+
+      expect(mockCredentialService.store).toHaveBeenNthCalledWith(1, 'ezenv-cli-production@acme:client-x', 'token_data', expect.any(String));
+      expect(mockCredentialService.store).toHaveBeenNthCalledWith(2, 'ezenv-cli-production:client-x', 'token_data', expect.any(String));
+    });
+  });
+
+  describe('external tokens', () => {
+    const jwt = (claims: Record<string, unknown>) =>
+      ['header', Buffer.from(JSON.stringify(claims)).toString('base64url'), 'signature'].join('.');
+    let tempDir: string;
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ezenv-token-'));
+    });
+
+    afterEach(() => {
+      delete process.env.EZENV_TOKEN;
+      delete process.env.EZENV_TOKEN_FILE;
+      AuthService.setTokenFile(undefined);
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should prefer EZENV_TOKEN over the credential store', async () => {
+      process.env.EZENV_TOKEN = jwt({ sub: 'user-1', email: 'ci@example.com', exp: 4102444800 });
+
+      const tokenData = await authService.getStoredTokenData();
+
+      expect(await authService.getStoredToken()).toBe(process.env.EZENV_TOKEN);
+      expect(tokenData).toMatchObject({
+        user_id: 'user-1',
+        user_email: 'ci@example.com',
+        expires_at: '2100-01-01T00:00:00.000Z'
+      });
+      expect(mockCredentialService.retrieve).not.toHaveBeenCalled();
+      expect(await authService.getTokenSource()).toEqual({
+        source: 'env',
+        description: 'EZENV_TOKEN environment variable'
+      });
+    });
+
+    it('should read the token from --token-file ahead of EZENV_TOKEN', async () => {
+      const tokenFile = path.join(tempDir, 'token');
+      fs.writeFileSync(tokenFile, 'opaque-service-token\n');
+      process.env.EZENV_TOKEN = 'from-env';
+      AuthService.setTokenFile(tokenFile);
+
+      expect(await authService.getStoredToken()).toBe('opaque-service-token');
+      expect(await authService.isTokenExpired()).toBe(false);
+      expect((await authService.getTokenSource()).source).toBe('token-file');
+    });
+
+    it('should fail clearly when the token file is missing', async () => {
+      process.env.EZENV_TOKEN_FILE = path.join(tempDir, 'missing');
+
+      await expect(authService.getStoredToken()).rejects.toMatchObject({ code: 'TOKEN_FILE_ERROR' });
+    });
+
+    it('should report the credential store when no external token is set', async () => {
+      mockCredentialService.isUsingMemoryStorage = jest.fn().mockReturnValue(false);
+      mockCredentialService.isUsingFileStorage = jest.fn().mockReturnValue(false);
+
+      expect(await authService.getTokenSource()).toEqual({
+        source: 'store',
+        description: 'system credential store'
+      });
+
+      mockCredentialService.isUsingFileStorage.mockReturnValue(true);
+      expect((await authService.getTokenSource()).description).toBe('encrypted credential file');
+    });
+
+    it('should store a token passed to loginWithToken', async () => {
+      const token = jwt({ sub: 'user-2', exp: 4102444800 });
+
+      await authService.loginWithToken(token);
+
+      const stored = JSON.parse(mockCredentialService.store.mock.calls[0][2]);
+      expect(stored).toMatchObject({ access_token: token, user_id: 'user-2' });
+    });
+
+    it('should reject an expired token', async () => {
+      await expect(authService.loginWithToken(jwt({ exp: 1 }))).rejects.toMatchObject({
+        code: 'TOKEN_EXPIRED'
+      });
+      expect(mockCredentialService.store).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('two-factor and one-time codes', () => {
+    const session = (accessToken: string, factors: unknown[] = []) => ({
+      ok: true,
+      json: async () => ({
+        access_token: accessToken,
+        refresh_token: `${accessToken}-refresh`,
+        expires_in: 3600,
+        user: { id: 'user-123', email: 'test@example.com', factors }
+      })
+    });
+    const totp = [{ id: 'factor-1', factor_type: 'totp', status: 'verified' }];
+    const failure = (status: number, message: string) => ({
+      ok: false,
+      status,
+      text: async () => JSON.stringify({ msg: message })
+    });
+
+    it('should report MFA_REQUIRED when no code prompt is available', async () => {
+      mockFetch.mockResolvedValueOnce(session('aal1-token', totp) as any);
+
+      await expect(authService.authenticateWithPassword('test@example.com', 'pw')).rejects.toMatchObject({
+        code: 'MFA_REQUIRED'
+      });
+      expect(mockCredentialService.store).not.toHaveBeenCalled();
+    });
+
+    it('should verify the TOTP code and store the stepped-up session', async () => {
+      mockFetch
+        .mockResolvedValueOnce(session('aal1-token', totp) as any)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'challenge-1' }) } as any)
+        .mockResolvedValueOnce(session('aal2-token') as any);
+      const getTotpCode = jest.fn().mockResolvedValue('123456');
+
+      await authService.authenticateWithPassword('test@example.com', 'pw', { getTotpCode });
+
+      expect(mockFetch.mock.calls[1][0]).toContain('/auth/v1/factors/factor-1/challenge');
+      expect(mockFetch.mock.calls[2][1]).toMatchObject({
+        body: JSON.stringify({ challenge_id: 'challenge-1', code: '123456' })
+      });
+      expect((mockFetch.mock.calls[2][1] as any).headers.Authorization).toBe('Bearer aal1-token');
+      expect(mockCredentialService.store).toHaveBeenCalledWith(
+        'ezenv-cli-production',
+        'token_data',
+        expect.stringContaining('aal2-token')
+      );
+    });
+
+    it('should ask again after an invalid TOTP code and give up after three attempts', async () => {
+      mockFetch.mockResolvedValueOnce(session('aal1-token', totp) as any);
+      for (let i = 0; i < 3; i++) {
+        mockFetch
+          .mockResolvedValueOnce({ ok: true, json: async () => ({ id: `challenge-${i}` }) } as any)
+          .mockResolvedValueOnce(failure(422, 'Invalid TOTP code entered') as any);
+      }
+      const getTotpCode = jest.fn().mockResolvedValue('000000');
+
+      await expect(
+        authService.authenticateWithPassword('test@example.com', 'pw', { getTotpCode })
+      ).rejects.toMatchObject({ code: 'MFA_INVALID_CODE' });
+      expect(getTotpCode).toHaveBeenCalledTimes(3);
+      expect(getTotpCode).toHaveBeenLastCalledWith(3);
+    });
+
+    it('should request and verify an email code', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({}) } as any)
+        .mockResolvedValueOnce(session('otp-token') as any);
+
+      await authService.requestEmailOtp('test@example.com');
+      await authService.verifyEmailOtp('test@example.com', '654321');
+
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({
+        body: JSON.stringify({ email: 'test@example.com', create_user: false })
+      });
+      expect(mockFetch.mock.calls[1][1]).toMatchObject({
+        body: JSON.stringify({ type: 'email', email: 'test@example.com', token: '654321' })
+      });
+      expect(mockCredentialService.store).toHaveBeenCalledWith(
+        'ezenv-cli-production',
+        'token_data',
+        expect.stringContaining('otp-token')
+      );
+    });
+
+    it('should map expired and rate-limited email codes', async () => {
+      mockFetch.mockResolvedValueOnce(failure(403, 'Token has expired or is invalid') as any);
+      await expect(authService.verifyEmailOtp('test@example.com', '1')).rejects.toMatchObject({
+        code: 'OTP_EXPIRED'
+      });
+
+      mockFetch.mockResolvedValueOnce(failure(429, 'Too many requests') as any);
+      await expect(authService.requestEmailOtp('test@example.com')).rejects.toMatchObject({
+        code: 'RATE_LIMITED'
+      });
+    });
+  });
+});
@@ -121,6 +121,28 @@ describe('ConfigService', () => {
       expect(lastWriteCall?.[1]).not.toContain('selected_environment');
     });
 
+    it('should keep other .ezenvrc settings when saving the selection', async () => {
+      const mockFs = fs as jest.Mocked<typeof fs>;
+      mockFs.readFile.mockImplementation((filePath) => {
+        if (filePath === path.join(mockCwd, '.ezenvrc')) {
+          return Promise.resolve(JSON.stringify({ selected_project: 'old', sync_removed: 'delete' }));
+        }
+        return Promise.reject(new Error('ENOENT'));
+      });
+
+      await configService.init();
+      await configService.setSelectedProject('new-project-id');
+
+      const written = mockFs.writeFile.mock.calls.find(
+        call => call[0] === path.join(mockCwd, '.ezenvrc')
+      );
+      expect(JSON.parse(written?.[1] as string)).toEqual({
+        selected_project: 'new-project-id',
+        sync_removed: 'delete'
+      });
+      expect(configService.getSyncRemovedMode()).toBe('delete');
+    });
+
     it('should override with --project flag', async () => {
       const mockFs = fs as jest.Mocked<typeof fs>;
       mockFs.readFile.mockRejectedValue(new Error('ENOENT'));
@@ -171,4 +193,204 @@ describe('ConfigService', () => {
       expect(configService.getAuthConfig()).toEqual(authConfig);
     });
   });
-});
\ No newline at end of file
+
+  describe('auth profiles', () => {
+    const mockFs = fs as jest.Mocked<typeof fs>;
+    const rcPath = path.join(mockCwd, '.ezenvrc');
+
+    afterEach(() => {
+      delete process.env.EZENV_PROFILE;
+    });
+
+    const withFiles = (files: Record<string, unknown>) => {
+      mockFs.readFile.mockImplementation((filePath) => {
+        const content = files[filePath as string];
+        return content ? Promise.resolve(JSON.stringify(content)) : Promise.reject(new Error('ENOENT'));
+      });
+    };
+
+    it('should fall back to the default profile', async () => {
+      withFiles({});
+      await configService.init();
+
+      expect(configService.resolveProfile()).toEqual({ name: 'default', source: 'default' });
+      expect(configService.listProfiles()).toEqual(['default']);
+    });
+
+    it('should resolve the flag, EZENV_PROFILE, .ezenvrc and the switched profile in that order', async () => {
+      withFiles({
+        [path.join(mockHomeDir, '.ezenv', 'config.json')]: { activeProfile: 'work', profiles: ['work', 'client-x'] },
+        [rcPath]: { selected_project: 'p1', profile: 'client-x' }
+      });
+      await configService.init();
+
+      expect(configService.resolveProfile()).toEqual({ name: 'client-x', source: 'ezenvrc' });
+      process.env.EZENV_PROFILE = 'ci';
+      expect(configService.resolveProfile()).toEqual({ name: 'ci', source: 'env' });
+      expect(configService.resolveProfile('other')).toEqual({ name: 'other', source: 'flag' });
+      expect(configService.getSelectedProject()).toBe('p1');
+    });
+
+    it('should remember new profiles and the switched profile globally', async () => {
+      withFiles({});
+      await configService.init();
+      await configService.addProfile('client-x');
+      await configService.addProfile('client-x');
+      await configService.setActiveProfile('client-x');
+
+      expect(configService.listProfiles()).toEqual(['default', 'client-x']);
+      expect(configService.resolveProfile()).toEqual({ name: 'client-x', source: 'active' });
+      const lastWrite = mockFs.writeFile.mock.calls[mockFs.writeFile.mock.calls.length - 1];
+      expect(JSON.parse(lastWrite[1] as string)).toMatchObject({ profiles: ['client-x'], activeProfile: 'client-x' });
+    });
+
+    it('should pin a profile in .ezenvrc without touching other settings', async () => {
+      withFiles({ [rcPath]: { selected_project: 'p1' } });
+      await configService.init();
+      await configService.pinProfile('client-x');
+
+      const written = mockFs.writeFile.mock.calls.find(call => call[0] === rcPath);
+      expect(JSON.parse(written?.[1] as string)).toEqual({ selected_project: 'p1', profile: 'client-x' });
+      expect(configService.resolveProfile()).toEqual({ name: 'client-x', source: 'ezenvrc' });
+    });
+  });
+
+  describe('instances', () => {
+    const mockFs = fs as jest.Mocked<typeof fs>;
+    const configPath = path.join(mockHomeDir, '.ezenv', 'config.json');
+    const rcPath = path.join(mockCwd, '.ezenvrc');
+    const acme = { url: 'https://ezenv.acme.dev', anonKey: 'acme-key' };
+
+    afterEach(() => {
+      delete process.env.EZENV_INSTANCE;
+    });
+
+    const withFiles = (files: Record<string, unknown>) => {
+      mockFs.readFile.mockImplementation((filePath) => {
+        const content = files[filePath as string];
+        return content ? Promise.resolve(JSON.stringify(content)) : Promise.reject(new Error('ENOENT'));
+      });
+    };
+
+    it('should always offer the hosted instance', async () => {
+      withFiles({ [configPath]: { instances: { acme } } });
+      await configService.init();
+
+      expect(configService.resolveInstance()).toBeUndefined();
+      expect(configService.listInstances().map(instance => instance.name)).toEqual(['hosted', 'acme']);
+      expect(configService.getInstance('hosted')?.url).toContain('supabase.co');
+      expect(configService.getInstance('acme')).toEqual(acme);
+      expect(configService.getInstance('missing')).toBeUndefined();
+    });
+
+    it('should resolve the flag, EZENV_INSTANCE, .ezenvrc and the used instance in that order', async () => {
+      withFiles({
+        [configPath]: { instances: { acme }, activeInstance: 'acme' },
+        [rcPath]: { instance: 'hosted' }
+      });
+      await configService.init();
+
+      expect(configService.resolveInstance()).toEqual({ name: 'hosted', source: 'ezenvrc' });
+      process.env.EZENV_INSTANCE = 'staging';
+      expect(configService.resolveInstance()).toEqual({ name: 'staging', source: 'env' });
+      expect(configService.resolveInstance('acme')).toEqual({ name: 'acme', source: 'flag' });
+    });
+
+    it('should clear the used instance when it is removed', async () => {
+      withFiles({});
+      await configService.init();
+      await configService.addInstance('acme', acme);
+      await configService.setActiveInstance('acme');
+      expect(configService.resolveInstance()).toEqual({ name: 'acme', source: 'active' });
+
+      await configService.removeInstance('acme');
+
+      expect(configService.resolveInstance()).toBeUndefined();
+      const lastWrite = mockFs.writeFile.mock.calls[mockFs.writeFile.mock.calls.length - 1];
+      expect(JSON.parse(lastWrite[1] as string).instances).toEqual({});
+    });
+
+    it('should pin an instance in .ezenvrc next to the pinned profile', async () => {
+      withFiles({ [rcPath]: { selected_project: 'p1', profile: 'client-x' } });
+      await configService.init();
+      await configService.pinInstance('acme');
+
+      const written = mockFs.writeFile.mock.calls.find(call => call[0] === rcPath);
+      expect(JSON.parse(written?.[1] as string)).toEqual({ selected_project: 'p1', profile: 'client-x', instance: 'acme' });
+    });
+  });
+
+  describe('network settings', () => {
+    const mockFs = fs as jest.Mocked<typeof fs>;
+    const configPath = path.join(mockHomeDir, '.ezenv', 'config.json');
+    const rcPath = path.join(mockCwd, '.ezenvrc');
+
+    it('should read proxy and ca_file from the global config only', async () => {
+      mockFs.readFile.mockImplementation((filePath) => {
+        if (filePath === configPath) {
+          return Promise.resolve(JSON.stringify({
+            cliConfig: { proxy: 'http://proxy.corp:3128', ca_file: '~/corp-ca.pem' }
+          }));
+        }
+        if (filePath === rcPath) {
+          return Promise.resolve(JSON.stringify({
+            selected_project: 'p1',
+            proxy: 'http://evil.example:8080',
+            ca_file: './evil-ca.pem'
+          }));
+        }
+        return Promise.reject(new Error('ENOENT'));
+      });
+
+      await configService.init();
+
+      expect(configService.getNetworkConfig()).toEqual({
+        proxy: 'http://proxy.corp:3128',
+        caFile: '~/corp-ca.pem'
+      });
+      expect(configService.getSelectedProject()).toBe('p1');
+    });
+  });
+
+  describe('output key rules', () => {
+    const mockFs = fs as jest.Mocked<typeof fs>;
+    const rcPath = path.join(mockCwd, '.ezenvrc');
+
+    const loadRc = async (rc: Record<string, unknown>) => {
+      mockFs.readFile.mockImplementation((filePath) =>
+        filePath === rcPath ? Promise.resolve(JSON.stringify(rc)) : Promise.reject(new Error('ENOENT'))
+      );
+      await configService.init();
+    };
+
+    it('should look up rules by output path relative to .ezenvrc', async () => {
+      await loadRc({
+        selected_project: 'p1',
+        outputs: {
+          'apps/web/.env.local': { only: ['NEXT_PUBLIC_*'], strip_prefix: 'NEXT_PUBLIC_' },
+          '.env.worker': { exclude: 'STRIPE_SECRET_KEY', add_prefix: 'WORKER_' }
+        }
+      });
+
+      expect(configService.getOutputRules('/project/dir/apps/web/.env.local')).toEqual({
+        only: ['NEXT_PUBLIC_*'],
+        exclude: undefined,
+        stripPrefix: 'NEXT_PUBLIC_',
+        addPrefix: undefined
+      });
+      expect(configService.getOutputRules('/project/dir/.env.worker')).toMatchObject({
+        exclude: ['STRIPE_SECRET_KEY'],
+        addPrefix: 'WORKER_'
+      });
+      expect(configService.getOutputRules('/project/dir/.env')).toEqual({});
+    });
+
+    it('should reject malformed rules', async () => {
+      await loadRc({ outputs: { '.env': { only: [1] }, '.env.test': { strip_prefix: '' } } });
+
+      expect(() => configService.getOutputRules('/project/dir/.env'))
+        .toThrow(expect.objectContaining({ code: 'INVALID_CONFIG', message: expect.stringContaining('only') }));
+      expect(() => configService.getOutputRules('/project/dir/.env.test')).toThrow(/strip_prefix/);
+    });
+  });
+});
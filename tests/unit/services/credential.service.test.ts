@@ -53,8 +53,8 @@ describe.skip('CredentialService - Skipped due to singleton/mocking issues', ()
       expect(mockKeytar.getPassword).toHaveBeenCalledWith('ezenv-test', 'test');
       // Should have called setPassword
       expect(mockKeytar.setPassword).toHaveBeenCalledWith('test', 'account', 'password');
-      // Check console.log was called with credential store message
-      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('credential store'));
+      // Check console.error was called with credential store message
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('credential store'));
     });
 
     it('should fallback to memory storage when keytar fails', async () => {
@@ -220,4 +220,54 @@ describe.skip('CredentialService - Skipped due to singleton/mocking issues', ()
       ).rejects.toThrow('Failed to delete credentials. Please ensure your system keychain is accessible.');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('CredentialService backend selection', () => {
+  let tempDir: string;
+  const originalHome = process.env.HOME;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const fs = require('fs').promises;
+    const os = require('os');
+    const path = require('path');
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ezenv-credentials-'));
+    process.env.HOME = tempDir;
+    (CredentialService as any).memoryStore = new MemoryCredentialStore();
+  });
+
+  afterEach(async () => {
+    process.env.HOME = originalHome;
+    CredentialService.setPreferredBackend(undefined);
+    await require('fs').promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should use the encrypted file store when chosen', async () => {
+    const service = new CredentialService('file');
+    await service.store('test', 'account', 'password');
+
+    expect(await service.getBackend()).toBe('file');
+    expect(service.isUsingFileStorage()).toBe(true);
+    expect(await new CredentialService('file').retrieve('test', 'account')).toBe('password');
+    expect(mockKeytar.getPassword).not.toHaveBeenCalled();
+  });
+
+  it('should follow the preferred backend when none is passed', async () => {
+    CredentialService.setPreferredBackend('memory');
+    const service = new CredentialService();
+
+    expect(await service.getBackend()).toBe('memory');
+    expect(service.isUsingMemoryStorage()).toBe(true);
+  });
+
+  it('should fail instead of falling back when the keychain was chosen explicitly', async () => {
+    await expect(new CredentialService('keychain').retrieve('test', 'account'))
+      .rejects.toMatchObject({ code: 'KEYCHAIN_UNAVAILABLE' });
+  });
+
+  it('should fall back to memory when no backend was chosen', async () => {
+    const service = new CredentialService();
+
+    expect(await service.getBackend()).toBe('memory');
+  });
+});
@@ -1,4 +1,5 @@
 import { DiffService } from '../../../src/services/diff.service';
+import { hashSecretValue } from '../../../src/services/snapshot.service';
 import { DiffResult, DiffOptions } from '../../../src/types';
 
 describe('DiffService', () => {
@@ -125,7 +126,8 @@ describe('DiffService', () => {
     it('should format inline diff', () => {
       const result = diffService.formatDiff(sampleDiff, {
         format: 'inline',
-        colorize: false
+        colorize: false,
+        mask: { style: 'none' }
       });
 
       expect(result).toContain('+ API_KEY=new-value');
@@ -179,35 +181,218 @@ describe('DiffService', () => {
     });
   });
 
+  describe('machine-readable formats', () => {
+    const sampleDiff: DiffResult = {
+      added: { API_KEY: 'new-value' },
+      modified: { DATABASE_URL: { old: 'a|b', new: 'line1\nline2' } },
+      removed: {},
+      localOnly: {}
+    };
+
+    it('should format the full result as JSON', () => {
+      const result = diffService.formatDiff(sampleDiff, { format: 'json', colorize: true, mask: { style: 'none' } });
+
+      expect(JSON.parse(result)).toEqual(sampleDiff);
+    });
+
+    it('should emit JSON even when nothing differs', () => {
+      const emptyDiff: DiffResult = { added: {}, modified: {}, removed: {}, localOnly: {} };
+
+      expect(JSON.parse(diffService.formatDiff(emptyDiff, { format: 'json', colorize: false }))).toEqual(emptyDiff);
+    });
+
+    it('should format a markdown table with escaped cells', () => {
+      const result = diffService.formatDiff(sampleDiff, { format: 'markdown', colorize: true, mask: { style: 'none' } });
+
+      expect(result).toContain('| Status | Key | Local | Remote |');
+      expect(result).toContain('| Added | `API_KEY` | | new-value |');
+      expect(result).toContain('| Modified | `DATABASE_URL` | a\\|b | line1<br>line2 |');
+      expect(result).toContain('_1 added, 1 modified, 0 removed, 0 local only_');
+    });
+  });
+
+  describe('masking', () => {
+    const secretDiff: DiffResult = {
+      added: { API_KEY: 'sk-live-abcdef123456' },
+      modified: { DB_PASSWORD: { old: 'hunter2', new: 'hunter22' } },
+      removed: { OLD_TOKEN: 'tok_0123456789' },
+      localOnly: {}
+    };
+
+    const allValues = ['sk-live-abcdef123456', 'hunter2', 'tok_0123456789'];
+
+    it.each(['inline', 'side-by-side', 'json', 'markdown'] as const)(
+      'should not print values in %s output by default',
+      (format) => {
+        const result = diffService.formatDiff(secretDiff, { format, colorize: false });
+
+        for (const value of allValues) {
+          expect(result).not.toContain(value);
+        }
+      }
+    );
+
+    it('should hint at how a masked value changed', () => {
+      const result = diffService.formatDiff(secretDiff, { format: 'inline', colorize: false });
+
+      expect(result).toContain('~ DB_PASSWORD (length 7 → 8, 1 char changed)');
+    });
+
+    it('should tell values apart with short hashes', () => {
+      const result = diffService.formatDiff(secretDiff, {
+        format: 'inline',
+        colorize: false,
+        mask: { style: 'hash' }
+      });
+
+      expect(result).toMatch(/\+ API_KEY=hmac:[0-9a-f]{8}/);
+    });
+
+    it('should reveal the ends of a value with partial masking', () => {
+      const result = diffService.formatDiff(secretDiff, {
+        format: 'inline',
+        colorize: false,
+        mask: { style: 'partial', reveal: 3 }
+      });
+
+      expect(result).toContain('+ API_KEY=sk-…456');
+    });
+  });
+
+  describe('keys-only mode', () => {
+    const sampleDiff: DiffResult = {
+      added: { API_KEY: 'sk-live-abcdef123456' },
+      modified: { DB_PASSWORD: { old: 'hunter2', new: 'hunter22' } },
+      removed: { OLD_TOKEN: 'tok_0123456789' },
+      localOnly: {}
+    };
+
+    it.each(['inline', 'side-by-side', 'json', 'markdown'] as const)(
+      'should never include values or hints in %s output',
+      (format) => {
+        const result = diffService.formatDiff(sampleDiff, {
+          format,
+          colorize: false,
+          keysOnly: true,
+          mask: { style: 'none' }
+        });
+
+        expect(result).toContain('API_KEY');
+        expect(result).toContain('DB_PASSWORD');
+        expect(result).not.toMatch(/hunter|sk-live|tok_|length/);
+      }
+    );
+
+    it('should list keys per category in JSON', () => {
+      const result = diffService.formatDiff(sampleDiff, { format: 'json', colorize: false, keysOnly: true });
+
+      expect(JSON.parse(result)).toEqual({
+        added: ['API_KEY'],
+        modified: ['DB_PASSWORD'],
+        removed: ['OLD_TOKEN'],
+        localOnly: []
+      });
+    });
+
+    it('should use custom labels for the side-by-side header', () => {
+      const result = diffService.formatDiff(sampleDiff, {
+        format: 'side-by-side',
+        colorize: false,
+        labels: { left: 'staging', right: 'production' }
+      });
+
+      expect(result.split('\n')[0]).toMatch(/^KEY\s+\| staging\s+\| production\s+\| STATUS$/);
+    });
+  });
+
+  describe('mergeWithSnapshot', () => {
+    const salt = 'test-salt';
+    const snapshot = (values: Record<string, string>) =>
+      Object.fromEntries(Object.entries(values).map(([key, value]) => [key, hashSecretValue(value, salt)]));
+
+    it('should apply changes made only on the remote side', () => {
+      const local = { A: '1', B: '2' };
+      const remote = { A: '1-remote', C: '3' };
+      const base = snapshot({ A: '1', B: '2' });
+
+      const result = diffService.mergeWithSnapshot(diffService.compareSecrets(local, remote), base, salt);
+
+      expect(result.remote.added).toEqual({ C: '3' });
+      expect(result.remote.modified).toEqual({ A: { old: '1', new: '1-remote' } });
+      expect(result.remote.removed).toEqual({ B: '2' });
+      expect(result.local).toEqual([]);
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it('should keep changes made only on the local side', () => {
+      const local = { A: '1-local', NEW_LOCAL_KEY: 'x' };
+      const remote = { A: '1', B: '2' };
+      const base = snapshot({ A: '1', B: '2' });
+
+      const result = diffService.mergeWithSnapshot(diffService.compareSecrets(local, remote), base, salt);
+
+      expect(result.local.sort()).toEqual(['A', 'B', 'NEW_LOCAL_KEY']);
+      expect(result.remote.added).toEqual({});
+      expect(result.remote.modified).toEqual({});
+      expect(result.remote.removed).toEqual({});
+    });
+
+    it('should report keys changed on both sides as conflicts', () => {
+      const local = { A: '1-local', B: '2-local' };
+      const remote = { A: '1-remote' };
+      const base = snapshot({ A: '1', B: '2' });
+
+      const result = diffService.mergeWithSnapshot(diffService.compareSecrets(local, remote), base, salt);
+
+      expect(result.conflicts).toEqual([
+        { key: 'A', local: '1-local', remote: '1-remote' },
+        { key: 'B', local: '2-local' }
+      ]);
+    });
+
+    it('should carry local-only variables through', () => {
+      const diff = diffService.compareSecrets({ LOCAL_DB: 'x' }, {});
+
+      expect(diffService.mergeWithSnapshot(diff, {}, salt).remote.localOnly).toEqual({ LOCAL_DB: 'x' });
+    });
+  });
+
   describe('applyDiff', () => {
-    it('should apply diff correctly', async () => {
-      const mockFileService = {
-        readEnvFile: jest.fn().mockResolvedValue({
-          UNCHANGED: 'same',
-          MODIFIED: 'old',
-          REMOVED: 'gone',
-          LOCAL_VAR: 'local'
-        }),
-        writeEnvFile: jest.fn()
-      };
+    const diff: DiffResult = {
+      added: { ADDED: 'new-value' },
+      modified: { MODIFIED: { old: 'old', new: 'new' } },
+      removed: { REMOVED: 'gone' },
+      localOnly: { LOCAL_VAR: 'local' }
+    };
 
-      const diff: DiffResult = {
-        added: { ADDED: 'new-value' },
-        modified: { MODIFIED: { old: 'old', new: 'new' } },
-        removed: { REMOVED: 'gone' },
-        localOnly: { LOCAL_VAR: 'local' }
+    it('should update the file in place with only the changed keys', async () => {
+      const mockFileService = {
+        updateEnvFile: jest.fn()
       };
 
       await diffService.applyDiff('/path/to/.env', diff, mockFileService);
 
-      expect(mockFileService.writeEnvFile).toHaveBeenCalledWith(
+      expect(mockFileService.updateEnvFile).toHaveBeenCalledWith(
         '/path/to/.env',
         {
-          ADDED: 'new-value',
-          MODIFIED: 'new',
-          UNCHANGED: 'same',
-          LOCAL_VAR: 'local'
-        }
+          set: { ADDED: 'new-value', MODIFIED: 'new' },
+          remove: ['REMOVED']
+        },
+        {}
+      );
+    });
+
+    it('should pass through the removed-key mode', async () => {
+      const mockFileService = {
+        updateEnvFile: jest.fn()
+      };
+
+      await diffService.applyDiff('/path/to/.env', diff, mockFileService, { removed: 'delete' });
+
+      expect(mockFileService.updateEnvFile).toHaveBeenCalledWith(
+        '/path/to/.env',
+        expect.any(Object),
+        { removed: 'delete' }
       );
     });
   });
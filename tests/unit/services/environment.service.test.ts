@@ -106,6 +106,20 @@ describe('EnvironmentService', () => {
 
       await expect(environmentService.listEnvironments('invalid')).rejects.toThrow(CLIError);
     });
+
+    it('should retry once after refreshing an expired token', async () => {
+      mockAuthService.refreshToken = jest.fn().mockResolvedValue(true);
+      mockAuthService.getStoredToken
+        .mockResolvedValueOnce('test-token')
+        .mockResolvedValueOnce('fresh-token');
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 401 } as any)
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => [] } as any);
+
+      await expect(environmentService.listEnvironments('proj1')).resolves.toEqual([]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect((mockFetch.mock.calls[1][1] as any).headers.Authorization).toBe('Bearer fresh-token');
+    });
   });
 
   describe('resolveEnvironmentAlias', () => {
@@ -249,6 +263,80 @@ describe('EnvironmentService', () => {
     });
   });
 
+  describe('createEnvironment', () => {
+    it('should POST the environment for the project', async () => {
+      const created = { id: 'env3', project_id: 'proj1', name: 'preview' };
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify([created]),
+      } as any);
+
+      const result = await environmentService.createEnvironment('proj1', 'preview');
+
+      expect(result).toEqual(created);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test.supabase.co/rest/v1/environments',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ project_id: 'proj1', name: 'preview' }),
+        })
+      );
+    });
+
+    it('should report an existing environment name', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 409 } as any);
+
+      await expect(environmentService.createEnvironment('proj1', 'staging')).rejects.toMatchObject({
+        code: 'ALREADY_EXISTS',
+      });
+    });
+  });
+
+  describe('renameEnvironment', () => {
+    it('should PATCH the environment name', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify([{ id: 'env1', name: 'qa' }]),
+      } as any);
+
+      await environmentService.renameEnvironment('env1', 'qa');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test.supabase.co/rest/v1/environments?id=eq.env1',
+        expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ name: 'qa' }) })
+      );
+    });
+  });
+
+  describe('deleteEnvironment', () => {
+    it('should DELETE the environment', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify([{ id: 'env1' }]),
+      } as any);
+
+      await environmentService.deleteEnvironment('env1');
+
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({ method: 'DELETE' });
+    });
+
+    it('should map 403 to an access error', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 403 } as any);
+
+      await expect(environmentService.deleteEnvironment('env1')).rejects.toMatchObject({
+        code: 'ACCESS_DENIED',
+      });
+    });
+
+    it('should treat an empty result as not found', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, text: async () => '[]' } as any);
+
+      await expect(environmentService.deleteEnvironment('env1')).rejects.toMatchObject({
+        code: 'ENVIRONMENT_NOT_FOUND',
+      });
+    });
+  });
+
   describe('getSelectedEnvironment', () => {
     it('should return selected environment', async () => {
       const mockEnvironment = {
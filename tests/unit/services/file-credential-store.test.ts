@@ -0,0 +1,88 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileCredentialStore } from '../../../src/services/file-credential-store';
+
+describe('FileCredentialStore', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ezenv-store-'));
+    filePath = path.join(tempDir, '.ezenv', 'credentials.enc');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should persist credentials across store instances', async () => {
+    await new FileCredentialStore(tempDir).store('service', 'account', 'secret-token');
+
+    const store = new FileCredentialStore(tempDir);
+    expect(store.getPath()).toBe(filePath);
+    expect(await store.retrieve('service', 'account')).toBe('secret-token');
+    expect(await store.retrieve('service', 'other')).toBeNull();
+  });
+
+  it('should encrypt the file and restrict it to the owner', async () => {
+    await new FileCredentialStore(tempDir).store('service', 'account', 'secret-token');
+
+    const content = await fs.readFile(filePath, 'utf-8');
+    expect(content).not.toContain('secret-token');
+    expect(JSON.parse(content)).toMatchObject({ version: 1, keySource: 'machine' });
+    if (process.platform !== 'win32') {
+      expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it('should delete entries and report whether they existed', async () => {
+    const store = new FileCredentialStore(tempDir);
+    await store.store('service', 'account', 'secret-token');
+
+    expect(await store.delete('service', 'account')).toBe(true);
+    expect(await store.delete('service', 'account')).toBe(false);
+    expect(await store.retrieve('service', 'account')).toBeNull();
+  });
+
+  it('should keep every entry when several stores write at once', async () => {
+    const accounts = ['a', 'b', 'c', 'd', 'e'];
+
+    await Promise.all(accounts.map(account => new FileCredentialStore(tempDir).store('service', account, `token-${account}`)));
+
+    const store = new FileCredentialStore(tempDir);
+    for (const account of accounts) {
+      expect(await store.retrieve('service', account)).toBe(`token-${account}`);
+    }
+    expect(await fs.readdir(path.join(tempDir, '.ezenv', 'locks'))).toEqual([]);
+  });
+
+  it('should require the passphrase the file was written with', async () => {
+    await new FileCredentialStore(tempDir, 'correct horse').store('service', 'account', 'secret-token');
+
+    expect(await new FileCredentialStore(tempDir, 'correct horse').retrieve('service', 'account')).toBe('secret-token');
+    await expect(new FileCredentialStore(tempDir, 'wrong').retrieve('service', 'account'))
+      .rejects.toMatchObject({ code: 'CREDENTIAL_STORE_LOCKED' });
+    await expect(new FileCredentialStore(tempDir, undefined).retrieve('service', 'account'))
+      .rejects.toThrow('EZENV_STORE_PASSPHRASE');
+  });
+
+  it('should switch a machine-keyed file to a passphrase on the next write', async () => {
+    await new FileCredentialStore(tempDir).store('service', 'first', 'one');
+
+    const store = new FileCredentialStore(tempDir, 'passphrase');
+    await store.store('service', 'second', 'two');
+
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8')).keySource).toBe('passphrase');
+    expect(await store.retrieve('service', 'first')).toBe('one');
+    expect(await store.retrieve('service', 'second')).toBe('two');
+  });
+
+  it('should report a corrupted file', async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, 'not json');
+
+    await expect(new FileCredentialStore(tempDir).retrieve('service', 'account'))
+      .rejects.toMatchObject({ code: 'CREDENTIAL_STORE_CORRUPT' });
+  });
+});
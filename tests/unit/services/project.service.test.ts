@@ -282,6 +282,128 @@ describe('ProjectService', () => {
     });
   });
 
+  describe('listTeams', () => {
+    it('should return the teams the user belongs to with their role', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify([
+          { role: 'admin', team: { id: 'team-1', name: 'Test Team' } },
+          { role: 'member', team: null }
+        ])
+      } as any);
+
+      const teams = await projectService.listTeams();
+
+      expect(teams).toEqual([{ id: 'team-1', name: 'Test Team', role: 'admin' }]);
+      expect(mockFetch.mock.calls[0][0]).toContain('team_members?user_id=eq.user-123');
+    });
+  });
+
+  describe('createProject', () => {
+    it('should POST the project and carry over the team role', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify([{
+          id: 'proj-3',
+          name: 'New',
+          team_id: 'team-1',
+          created_at: '2024-01-03T00:00:00Z',
+          updated_at: '2024-01-03T00:00:00Z'
+        }])
+      } as any);
+
+      const project = await projectService.createProject('New', { id: 'team-1', name: 'Test Team', role: 'admin' });
+
+      expect(project).toMatchObject({ id: 'proj-3', user_role: 'admin', team: { id: 'team-1', name: 'Test Team' } });
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://test.supabase.co/rest/v1/projects');
+      expect(init).toMatchObject({
+        method: 'POST',
+        body: JSON.stringify({ name: 'New', team_id: 'team-1' })
+      });
+      expect((init as any).headers.Prefer).toBe('return=representation');
+    });
+
+    it('should report name conflicts', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 409 } as any);
+
+      await expect(
+        projectService.createProject('Taken', { id: 'team-1', name: 'Test Team', role: 'admin' })
+      ).rejects.toMatchObject({ code: 'ALREADY_EXISTS' });
+    });
+  });
+
+  describe('renameProject', () => {
+    it('should PATCH the project name', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => JSON.stringify([{ id: 'proj-1', name: 'Renamed' }])
+      } as any);
+
+      await projectService.renameProject('proj-1', 'Renamed');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test.supabase.co/rest/v1/projects?id=eq.proj-1',
+        expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ name: 'Renamed' }) })
+      );
+    });
+
+    it('should retry once after refreshing an expired token', async () => {
+      mockAuthService.refreshToken = jest.fn().mockResolvedValue(true);
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 401 } as any)
+        .mockResolvedValueOnce({ ok: true, text: async () => JSON.stringify([{ id: 'proj-1' }]) } as any);
+
+      await projectService.renameProject('proj-1', 'Renamed');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('deleteProject', () => {
+    it('should treat an empty result as not found', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, text: async () => '[]' } as any);
+
+      await expect(projectService.deleteProject('proj-1')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({ method: 'DELETE' });
+    });
+  });
+
+  describe('findProject', () => {
+    const projectId = '0f8fad5b-d9cb-469f-a165-70867728950e';
+    const rawProject = { ...mockProjects[1], team: { ...mockProjects[1].team, team_members: [{ role: 'member' }] } };
+
+    it('should look up UUIDs by ID', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [rawProject] } as any);
+
+      const project = await projectService.findProject(projectId);
+
+      expect(project.id).toBe('proj-2');
+      expect(mockFetch.mock.calls[0][0]).toContain(`projects?id=eq.${projectId}`);
+    });
+
+    it('should search names directly, as the id column rejects non-UUIDs', async () => {
+      mockFetch.mockImplementation(async (url) => {
+        if (String(url).includes('projects?id=eq.')) {
+          return {
+            ok: false,
+            status: 400,
+            headers: { get: () => null },
+            json: async () => ({ code: '22P02', message: 'invalid input syntax for type uuid: "test project 2"' }),
+            text: async () => '{"code":"22P02","message":"invalid input syntax for type uuid: \\"test project 2\\""}'
+          } as any;
+        }
+        return { ok: true, json: async () => [rawProject], headers: { get: () => null } } as any;
+      });
+
+      const project = await projectService.findProject('test project 2');
+
+      expect(project.id).toBe('proj-2');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).not.toContain('projects?id=eq.');
+    });
+  });
+
   describe('getSelectedProject', () => {
     it('should return selected project when configured', async () => {
       mockConfigService.getSelectedProject.mockReturnValue('proj-1');
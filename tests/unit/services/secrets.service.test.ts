@@ -181,4 +181,77 @@ describe('SecretsService', () => {
       expect(allLoggedValues).toContain('count');
     });
   });
+  describe('updateSecrets', () => {
+    it('should send upserts and deletes to the update-secrets function', async () => {
+      mockAuthService.getStoredToken.mockResolvedValue('test-token');
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => [{ id: 'project-123' }]
+        } as any)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => [{ id: 'env-456' }]
+        } as any)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({})
+        } as any);
+
+      await secretsService.updateSecrets('my-project', 'development', {
+        upsert: { API_KEY: 'sk-new' },
+        delete: ['OLD_KEY']
+      });
+
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        expect.stringContaining('/functions/v1/update-secrets'),
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({
+            projectId: 'project-123',
+            environmentId: 'env-456',
+            upsert: { API_KEY: 'sk-new' },
+            delete: ['OLD_KEY']
+          })
+        })
+      );
+
+      const allLoggedValues = JSON.stringify((logger.debug as jest.Mock).mock.calls);
+      expect(allLoggedValues).not.toContain('sk-new');
+    });
+
+    it('should refuse local-only variables', async () => {
+      await expect(
+        secretsService.updateSecrets('my-project', 'development', {
+          upsert: { LOCAL_DB: 'localhost' },
+          delete: []
+        })
+      ).rejects.toMatchObject({
+        code: 'LOCAL_ONLY_KEY',
+        details: { keys: ['LOCAL_DB'] }
+      });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should map access denied responses', async () => {
+      mockAuthService.getStoredToken.mockResolvedValue('test-token');
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        json: async () => ({})
+      } as any);
+
+      await expect(
+        secretsService.updateSecrets(
+          '0da1ae28-6ed3-4a00-a563-6b9facb4ed14',
+          '7cc5f608-575e-4748-ad6c-a2434198fe2b',
+          { upsert: { KEY: 'value' }, delete: [] }
+        )
+      ).rejects.toMatchObject({
+        status: 403,
+        code: 'ACCESS_DENIED'
+      });
+    });
+  });
 });
\ No newline at end of file
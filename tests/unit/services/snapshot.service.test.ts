@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { SnapshotService, hashSecretValue } from '../../../src/services/snapshot.service';
+
+describe('SnapshotService', () => {
+  let tempDir: string;
+  let snapshotService: SnapshotService;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ezenv-snapshot-'));
+    snapshotService = new SnapshotService(tempDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return null before the first sync', async () => {
+    expect(await snapshotService.load('project', 'env', '.env')).toBeNull();
+  });
+
+  it('should store salted value hashes rather than values', async () => {
+    await snapshotService.save('project', 'env', '.env', { API_KEY: 'sk-secret' });
+
+    const snapshot = await snapshotService.load('project', 'env', '.env');
+    expect(snapshot?.salt).toMatch(/^[0-9a-f]{32}$/);
+    expect(snapshot?.hashes).toEqual({ API_KEY: hashSecretValue('sk-secret', snapshot!.salt) });
+
+    const [file] = await fs.readdir(path.join(tempDir, '.ezenv', 'snapshots'));
+    const raw = await fs.readFile(path.join(tempDir, '.ezenv', 'snapshots', file), 'utf-8');
+    expect(raw).not.toContain('sk-secret');
+  });
+
+  it('should give the same value a different hash under a different salt', async () => {
+    expect(hashSecretValue('8080', 'salt-a')).not.toBe(hashSecretValue('8080', 'salt-b'));
+    expect(hashSecretValue('8080', 'salt-a')).toBe(hashSecretValue('8080', 'salt-a'));
+
+    await snapshotService.save('project', 'env', '.env', { PORT: '8080' });
+    const first = await snapshotService.load('project', 'env', '.env');
+    await snapshotService.save('project', 'env', '.env', { PORT: '8080' });
+    const second = await snapshotService.load('project', 'env', '.env');
+
+    expect(second?.salt).not.toBe(first?.salt);
+    expect(second?.hashes.PORT).not.toBe(first?.hashes.PORT);
+  });
+
+  it('should ignore snapshots written without a salt', async () => {
+    const snapshotPath = snapshotService.getSnapshotPath('project', 'env', '.env');
+    await fs.mkdir(path.dirname(snapshotPath), { recursive: true });
+    await fs.writeFile(snapshotPath, JSON.stringify({ hashes: { PORT: 'abc' } }));
+
+    expect(await snapshotService.load('project', 'env', '.env')).toBeNull();
+  });
+
+  it('should keep separate snapshots per environment and file', async () => {
+    await snapshotService.save('project', 'dev', '.env', { A: '1' });
+
+    expect(await snapshotService.load('project', 'prod', '.env')).toBeNull();
+    expect(await snapshotService.load('project', 'dev', 'other/.env')).toBeNull();
+  });
+
+  it('should keep separate snapshots per set of key rules', async () => {
+    await snapshotService.save('project', 'env', '.env', { VITE_API_URL: 'x' }, { only: ['NEXT_PUBLIC_*'], addPrefix: 'VITE_' });
+
+    expect(await snapshotService.load('project', 'env', '.env')).toBeNull();
+    expect(await snapshotService.load('project', 'env', '.env', { only: ['NEXT_PUBLIC_*'] })).toBeNull();
+    expect(await snapshotService.load('project', 'env', '.env', { addPrefix: 'VITE_', only: ['NEXT_PUBLIC_*'] }))
+      .toMatchObject({ hashes: { VITE_API_URL: expect.any(String) } });
+  });
+
+  it('should keep the snapshot of a sync without key rules where it was', () => {
+    expect(snapshotService.getSnapshotPath('project', 'env', '.env', { only: [], exclude: [] }))
+      .toBe(snapshotService.getSnapshotPath('project', 'env', '.env'));
+  });
+});
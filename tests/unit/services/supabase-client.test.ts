@@ -0,0 +1,239 @@
+import { SupabaseClient, parseRetryAfter } from '../../../src/services/supabase-client';
+import { AuthService } from '../../../src/services/auth.service';
+import { APIError, CLIError } from '../../../src/utils/errors';
+import fetch from 'node-fetch';
+
+jest.mock('node-fetch');
+
+const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
+
+const response = (status: number, body: unknown = [], headers: Record<string, string> = {}) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+  text: async () => (typeof body === 'string' ? body : JSON.stringify(body)),
+  headers: { get: (name: string) => headers[name.toLowerCase()] ?? null }
+}) as any;
+
+const networkError = (code: string) => Object.assign(new Error(`request failed, reason: ${code}`), { code });
+
+describe('SupabaseClient', () => {
+  let authService: { getStoredToken: jest.Mock; refreshToken: jest.Mock };
+  let client: SupabaseClient;
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    (SupabaseClient as any).RETRY_BASE_DELAY_MS = 0;
+    authService = {
+      getStoredToken: jest.fn().mockResolvedValue('token-1'),
+      refreshToken: jest.fn().mockResolvedValue(true)
+    };
+    client = new SupabaseClient(() => authService as unknown as AuthService);
+  });
+
+  afterAll(() => {
+    (SupabaseClient as any).RETRY_BASE_DELAY_MS = 500;
+  });
+
+  it('should send auth headers to the REST endpoint', async () => {
+    mockFetch.mockResolvedValueOnce(response(200, [{ id: 'p1' }]));
+
+    const res = await client.rest('GET', 'projects?select=id', { headers: { Prefer: 'count=exact' } });
+
+    expect(await res.json()).toEqual([{ id: 'p1' }]);
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://test.supabase.co/rest/v1/projects?select=id',
+      expect.objectContaining({
+        method: 'GET',
+        headers: {
+          Authorization: 'Bearer token-1',
+          apikey: 'test-anon-key',
+          'Content-Type': 'application/json',
+          Prefer: 'count=exact'
+        },
+        signal: expect.anything()
+      })
+    );
+  });
+
+  it('should POST a JSON body to edge functions', async () => {
+    mockFetch.mockResolvedValueOnce(response(200, { secrets: {} }));
+
+    await client.invoke('get-secrets', { projectId: 'p1' });
+
+    expect(mockFetch.mock.calls[0][0]).toBe('https://test.supabase.co/functions/v1/get-secrets');
+    expect(mockFetch.mock.calls[0][1]).toMatchObject({ method: 'POST', body: '{"projectId":"p1"}' });
+  });
+
+  it('should require a stored token', async () => {
+    authService.getStoredToken.mockResolvedValueOnce(null);
+
+    await expect(client.rest('GET', 'projects')).rejects.toMatchObject({ code: 'AUTH_REQUIRED' });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  describe('401 handling', () => {
+    it('should refresh the token and retry once', async () => {
+      authService.getStoredToken.mockResolvedValueOnce('token-1').mockResolvedValueOnce('token-2');
+      mockFetch.mockResolvedValueOnce(response(401)).mockResolvedValueOnce(response(200));
+
+      await client.rest('GET', 'projects');
+
+      expect(authService.refreshToken).toHaveBeenCalledTimes(1);
+      expect((mockFetch.mock.calls[1][1] as any).headers.Authorization).toBe('Bearer token-2');
+    });
+
+    it('should report an expired session when the refresh fails', async () => {
+      authService.refreshToken.mockResolvedValueOnce(false);
+      mockFetch.mockResolvedValueOnce(response(401));
+
+      await expect(client.rest('GET', 'projects')).rejects.toThrow(
+        new APIError(401, 'Authentication expired', 'AUTH_EXPIRED')
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not refresh a second time', async () => {
+      mockFetch.mockResolvedValue(response(401));
+
+      await expect(client.rest('GET', 'projects')).rejects.toMatchObject({ status: 401, code: 'AUTH_EXPIRED' });
+      expect(authService.refreshToken).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('retries', () => {
+    it('should back off and retry reads on 5xx', async () => {
+      mockFetch
+        .mockResolvedValueOnce(response(503))
+        .mockResolvedValueOnce(response(502))
+        .mockResolvedValueOnce(response(200, [{ id: 'p1' }]));
+
+      const res = await client.rest('GET', 'projects');
+
+      expect(await res.json()).toEqual([{ id: 'p1' }]);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after the retry budget', async () => {
+      mockFetch.mockResolvedValue(response(500, 'boom'));
+
+      await expect(client.rest('GET', 'projects', { action: 'fetch projects', retries: 2 })).rejects.toThrow(
+        new APIError(500, 'Failed to fetch projects: boom', 'FETCH_ERROR')
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not repeat a POST after a 5xx unless it is idempotent', async () => {
+      mockFetch.mockResolvedValue(response(500));
+
+      await expect(client.rest('POST', 'projects', { body: {} })).rejects.toMatchObject({ status: 500 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValueOnce(response(500)).mockResolvedValueOnce(response(200, { secrets: {} }));
+      await client.invoke('get-secrets', {}, { idempotent: true });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should honour Retry-After on 429', async () => {
+      const sleep = jest.spyOn(client as any, 'sleep');
+      mockFetch
+        .mockResolvedValueOnce(response(429, {}, { 'retry-after': '0' }))
+        .mockResolvedValueOnce(response(200));
+
+      await client.rest('POST', 'projects', { body: {} });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(sleep).toHaveBeenCalledWith(0);
+    });
+
+    it('should report rate limiting when Retry-After is too long to wait', async () => {
+      mockFetch.mockResolvedValueOnce(response(429, {}, { 'retry-after': '3600' }));
+
+      await expect(client.rest('GET', 'projects')).rejects.toMatchObject({
+        status: 429,
+        code: 'RATE_LIMITED',
+        details: { retryAfterSeconds: 3600 }
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry connection failures and then report a network error', async () => {
+      mockFetch.mockRejectedValue(networkError('ECONNREFUSED'));
+
+      await expect(client.rest('POST', 'projects', { body: {}, retries: 1 })).rejects.toMatchObject({
+        code: 'NETWORK_ERROR'
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not repeat a POST whose connection dropped mid-request', async () => {
+      mockFetch.mockRejectedValue(networkError('ECONNRESET'));
+
+      await expect(client.rest('POST', 'projects', { body: {} })).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rethrow unexpected errors untouched', async () => {
+      const error = new Error('bad things');
+      mockFetch.mockRejectedValue(error);
+
+      await expect(client.rest('GET', 'projects')).rejects.toBe(error);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should abort requests that exceed the timeout', async () => {
+    mockFetch.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      (init as any).signal.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    }));
+
+    const error = await client.rest('GET', 'projects', { timeoutMs: 10, retries: 0 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(CLIError);
+    expect(error.code).toBe('TIMEOUT');
+  });
+
+  describe('error mapping', () => {
+    it.each([
+      [403, 'ACCESS_DENIED'],
+      [404, 'NOT_FOUND'],
+      [409, 'ALREADY_EXISTS'],
+      [422, 'FETCH_ERROR']
+    ])('should map %i to %s', async (status, code) => {
+      mockFetch.mockResolvedValueOnce(response(status as number, {}));
+
+      await expect(client.rest('PATCH', 'projects', { body: {} })).rejects.toMatchObject({ status, code });
+    });
+
+    it('should use the error field of a 404 body', async () => {
+      mockFetch.mockResolvedValueOnce(response(404, { error: 'Environment not found' }));
+
+      await expect(client.invoke('get-secrets', {})).rejects.toThrow('Environment not found');
+    });
+
+    it('should apply per-status messages and the fallback code', async () => {
+      mockFetch.mockResolvedValueOnce(response(403)).mockResolvedValueOnce(response(400, 'invalid'));
+
+      await expect(
+        client.rest('GET', 'environments', { messages: { 403: 'You do not have access to this project' } })
+      ).rejects.toThrow('You do not have access to this project');
+      await expect(
+        client.invoke('update-secrets', {}, { action: 'update secrets', errorCode: 'UPDATE_ERROR' })
+      ).rejects.toMatchObject({ message: 'Failed to update secrets: invalid', code: 'UPDATE_ERROR' });
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should accept seconds and HTTP dates', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+
+      expect(parseRetryAfter('5', now)).toBe(5000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now)).toBe(30000);
+      expect(parseRetryAfter('Sun, 31 Dec 2023 00:00:00 GMT', now)).toBe(0);
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+});
@@ -35,7 +35,8 @@ describe('DiffService - Format with colors', () => {
 
     const result = diffService.formatDiff(diff, {
       format: 'inline',
-      colorize: true
+      colorize: true,
+      mask: { style: 'none' }
     });
 
     expect(result).toContain('[green]+ NEW_KEY=value[/green]');
@@ -60,7 +61,8 @@ describe('DiffService - Format with colors', () => {
 
     const result = diffService.formatDiff(diff, {
       format: 'inline',
-      colorize: false
+      colorize: false,
+      mask: { style: 'none' }
     });
 
     expect(result).toContain('+ SPECIAL_CHARS=value with spaces');
@@ -0,0 +1,257 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  parseDotenv,
+  parseDotenvEntries,
+  formatEnvValue,
+  applyDotenvChanges,
+  ADDED_SECTION_MARKER
+} from '../../../src/utils/dotenv';
+import { formatSecrets } from '../../../src/utils/formatters';
+import { FileService } from '../../../src/services/file.service';
+import { CLIError } from '../../../src/utils/errors';
+
+describe('parseDotenv', () => {
+  const tricky = {
+    SIMPLE: 'value',
+    EMPTY: '',
+    WITH_SPACES: 'value with spaces',
+    WITH_QUOTES: 'value "with" quotes',
+    SINGLE_QUOTE: "it's",
+    HASH: 'abc#def',
+    SPACED_HASH: 'abc #def',
+    EQUALS: 'a=b=c',
+    BACKSLASH: 'C:\\path\\to',
+    LITERAL_ESCAPE: 'line1\\nstill line1',
+    MULTI_LINE: '-----BEGIN CERT-----\nMIIB\n-----END CERT-----',
+    CRLF_VALUE: 'a\r\nb',
+    JSON_BLOB: '{"a": [1, 2], "b": "c d"}',
+    TRAILING_SPACE: 'value ',
+    LEADING_BACKTICK: '`cmd`',
+    SPECIAL_CHARS: 'value$with`special@chars#'
+  };
+
+  describe('basic syntax', () => {
+    it('should parse simple assignments', () => {
+      expect(parseDotenv('A=1\nB=two')).toEqual({ A: '1', B: 'two' });
+    });
+
+    it('should skip blank lines and comments', () => {
+      expect(parseDotenv('# comment\n\n  # indented\nA=1\n')).toEqual({ A: '1' });
+    });
+
+    it('should support export prefixes', () => {
+      expect(parseDotenv('export A=1\nexport   B="two"')).toEqual({ A: '1', B: 'two' });
+    });
+
+    it('should allow whitespace around the equals sign', () => {
+      expect(parseDotenv('A = 1')).toEqual({ A: '1' });
+    });
+
+    it('should let later assignments win', () => {
+      expect(parseDotenv('A=1\nA=2')).toEqual({ A: '2' });
+    });
+  });
+
+  describe('comments', () => {
+    it('should strip inline comments from unquoted values', () => {
+      expect(parseDotenv('A=value # comment')).toEqual({ A: 'value' });
+    });
+
+    it('should keep # that is not preceded by whitespace', () => {
+      expect(parseDotenv('A=abc#def\nB=#hash')).toEqual({ A: 'abc#def', B: '#hash' });
+    });
+
+    it('should treat a spaced # after = as an empty value', () => {
+      expect(parseDotenv('A= # comment')).toEqual({ A: '' });
+    });
+
+    it('should allow comments after quoted values', () => {
+      expect(parseDotenv('A="a # b" # comment')).toEqual({ A: 'a # b' });
+    });
+  });
+
+  describe('quoting', () => {
+    it('should expand escapes in double quotes', () => {
+      expect(parseDotenv('A="a\\nb\\t\\"c\\"\\\\"')).toEqual({ A: 'a\nb\t"c"\\' });
+    });
+
+    it('should keep single-quoted values literal', () => {
+      expect(parseDotenv("A='a\\nb $HOME'")).toEqual({ A: 'a\\nb $HOME' });
+    });
+
+    it('should keep backtick-quoted values literal', () => {
+      expect(parseDotenv('A=`it\'s "quoted"`')).toEqual({ A: 'it\'s "quoted"' });
+    });
+
+    it('should parse multi-line quoted values', () => {
+      const content = 'CERT="-----BEGIN-----\nabc\n-----END-----"\nNEXT=1';
+      expect(parseDotenv(content)).toEqual({
+        CERT: '-----BEGIN-----\nabc\n-----END-----',
+        NEXT: '1'
+      });
+    });
+
+    it('should report line ranges for multi-line entries', () => {
+      const entries = parseDotenvEntries('A=1\nB="x\ny"\nC=2');
+      expect(entries.map(e => [e.key, e.line, e.endLine])).toEqual([
+        ['A', 1, 1],
+        ['B', 2, 3],
+        ['C', 4, 4]
+      ]);
+    });
+  });
+
+  describe('encoding', () => {
+    it('should handle CRLF line endings', () => {
+      expect(parseDotenv('A=1\r\nB="two"\r\n')).toEqual({ A: '1', B: 'two' });
+    });
+
+    it('should strip a UTF-8 BOM', () => {
+      expect(parseDotenv('\uFEFFA=1')).toEqual({ A: '1' });
+    });
+  });
+
+  describe('errors', () => {
+    it('should report the line of a missing equals sign', () => {
+      expect(() => parseDotenv('A=1\nBROKEN', '.env.local')).toThrow(
+        'Invalid .env syntax in .env.local on line 2: expected KEY=VALUE'
+      );
+    });
+
+    it('should report unterminated quotes at the opening line', () => {
+      try {
+        parseDotenv('A=1\nB="open\nC=2');
+        fail('expected parse error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(CLIError);
+        expect((error as CLIError).code).toBe('ENV_PARSE_ERROR');
+        expect((error as CLIError).details).toEqual({ path: '.env', line: 2 });
+      }
+    });
+
+    it('should reject characters after a closing quote', () => {
+      expect(() => parseDotenv('A="x" y')).toThrow('on line 1');
+    });
+
+    it('should reject invalid variable names', () => {
+      expect(() => parseDotenv('1A=x')).toThrow('invalid variable name');
+    });
+  });
+
+  describe('round-trip', () => {
+    it('should read back every value written by formatEnvValue', () => {
+      for (const [key, value] of Object.entries(tricky)) {
+        expect(parseDotenv(`${key}=${formatEnvValue(value)}`)).toEqual({ [key]: value });
+      }
+    });
+
+    it('should read back formatSecrets env output', () => {
+      expect(parseDotenv(formatSecrets(tricky, 'env'))).toEqual(tricky);
+    });
+
+    it('should read back files written by FileService', async () => {
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ezenv-dotenv-'));
+      const envPath = path.join(tempDir, '.env');
+      const fileService = new FileService();
+
+      try {
+        await fileService.writeEnvFile(envPath, { ...tricky, LOCAL_DB: 'localhost' });
+        expect(await fileService.readEnvFile(envPath)).toEqual({ ...tricky, LOCAL_DB: 'localhost' });
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
+
+describe('applyDotenvChanges', () => {
+  const original = [
+    '# Synced from EzEnv on 2024-01-01T00:00:00.000Z',
+    '',
+    '# Database',
+    'export DB_HOST = "db.internal" # primary',
+    "DB_USER='app'",
+    'LOCAL_DB=localhost',
+    '',
+    '# Feature flags',
+    'FLAG_A=on',
+    'OLD_KEY=gone',
+    ''
+  ].join('\n');
+
+  it('should leave content untouched when there are no changes', () => {
+    expect(applyDotenvChanges(original, { set: {}, remove: [] })).toBe(original);
+  });
+
+  it('should rewrite changed keys in place keeping prefix, quotes and comments', () => {
+    const result = applyDotenvChanges(original, {
+      set: { DB_HOST: 'db.example.com', DB_USER: 'admin' },
+      remove: []
+    });
+
+    expect(result).toBe(original
+      .replace('"db.internal"', '"db.example.com"')
+      .replace("'app'", "'admin'"));
+  });
+
+  it('should comment out removed keys by default', () => {
+    const result = applyDotenvChanges(original, { set: {}, remove: ['OLD_KEY'] });
+
+    expect(result).toBe(original.replace('OLD_KEY=gone', '# OLD_KEY=gone'));
+    expect(parseDotenv(result)).not.toHaveProperty('OLD_KEY');
+  });
+
+  it('should delete removed keys when configured', () => {
+    const result = applyDotenvChanges(original, { set: {}, remove: ['OLD_KEY'] }, { removed: 'delete' });
+
+    expect(result).toBe(original.replace('OLD_KEY=gone\n', ''));
+  });
+
+  it('should append new keys in a marked section', () => {
+    const result = applyDotenvChanges(original, { set: { NEW_KEY: 'a b' }, remove: [] });
+
+    expect(result).toBe(`${original}\n${ADDED_SECTION_MARKER}\nNEW_KEY="a b"\n`);
+  });
+
+  it('should extend an existing marked section', () => {
+    const first = applyDotenvChanges(original, { set: { NEW_A: '1' }, remove: [] });
+    const second = applyDotenvChanges(first + '\n# Trailing notes\n', { set: { NEW_B: '2' }, remove: [] });
+
+    expect(second).toBe(
+      `${original}\n${ADDED_SECTION_MARKER}\nNEW_A=1\nNEW_B=2\n\n# Trailing notes\n`
+    );
+  });
+
+  it('should replace and comment out every line of a multi-line value', () => {
+    const content = 'A=1\nCERT="line1\nline2"\nB=2\n';
+
+    expect(applyDotenvChanges(content, { set: { CERT: 'x' }, remove: [] })).toBe('A=1\nCERT="x"\nB=2\n');
+    expect(applyDotenvChanges(content, { set: {}, remove: ['CERT'] })).toBe(
+      'A=1\n# CERT="line1\n# line2"\nB=2\n'
+    );
+  });
+
+  it('should preserve CRLF line endings and a BOM', () => {
+    const content = '\uFEFFA=1\r\nB=2\r\n';
+    const result = applyDotenvChanges(content, { set: { A: '3', C: '4' }, remove: [] });
+
+    expect(result).toBe(`\uFEFFA=3\r\nB=2\r\n\r\n${ADDED_SECTION_MARKER}\r\nC=4\r\n`);
+  });
+
+  it('should produce content that parses to the new values', () => {
+    const result = applyDotenvChanges(original, {
+      set: { FLAG_A: 'value with "quotes"', DB_USER: "it's", ADDED: '#hash' },
+      remove: ['OLD_KEY']
+    });
+
+    expect(parseDotenv(result)).toEqual({
+      DB_HOST: 'db.internal',
+      DB_USER: "it's",
+      LOCAL_DB: 'localhost',
+      FLAG_A: 'value with "quotes"',
+      ADDED: '#hash'
+    });
+  });
+});
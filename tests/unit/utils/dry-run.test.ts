@@ -0,0 +1,60 @@
+import * as path from 'path';
+import { describeEnvChanges, planFileWrite, printDryRun } from '../../../src/utils/dry-run';
+
+describe('dry-run', () => {
+  describe('planFileWrite', () => {
+    it('should plan creating a missing file', () => {
+      expect(planFileWrite('/app/.env', undefined, 'A=1\nB=2')).toEqual({
+        path: '/app/.env',
+        action: 'create',
+        details: ['2 line(s)']
+      });
+    });
+
+    it('should see identical content as unchanged', () => {
+      expect(planFileWrite('/app/.env', 'A=1', 'A=1').action).toBe('unchanged');
+    });
+
+    it('should describe .env updates key by key', () => {
+      const plan = planFileWrite('/app/.env', '# header\nA=1\nB=2\nC=3\n', '# header\nA=1\nB=changed\nD=4\n');
+
+      expect(plan.action).toBe('update');
+      expect(plan.details).toEqual(['~ B (line 3)', '+ D', '- C (line 4)']);
+    });
+
+    it('should fall back to line counts for other formats', () => {
+      const plan = planFileWrite('/app/secrets.json', '{\n  "A": "1"\n}', '{\n  "A": "2"\n}');
+
+      expect(plan.details).toEqual(['3 line(s), 1 new and 1 no longer present']);
+    });
+  });
+
+  describe('describeEnvChanges', () => {
+    it('should report formatting-only changes', () => {
+      expect(describeEnvChanges('A=1\n', 'A="1"\n')).toEqual(['formatting only, no values change']);
+    });
+
+    it('should never include values', () => {
+      const details = describeEnvChanges('SECRET=old-secret\n', 'SECRET=new-secret\n');
+
+      expect(details?.join('\n')).not.toMatch(/secret/);
+    });
+  });
+
+  describe('printDryRun', () => {
+    it('should print paths relative to the working directory', () => {
+      const log = jest.fn();
+
+      printDryRun([
+        { path: path.join(process.cwd(), '.env'), action: 'update', details: ['+ D'] },
+        { path: '/elsewhere/snapshot.json', action: 'create', details: [] }
+      ], log);
+
+      const output = log.mock.calls.map(call => call[0]).join('\n');
+      expect(output).toContain('nothing was written');
+      expect(output).toMatch(/~ \.env .*update/);
+      expect(output).toContain('      + D');
+      expect(output).toMatch(/\+ \/elsewhere\/snapshot\.json .*create/);
+    });
+  });
+});
@@ -1,4 +1,92 @@
-import { formatSecrets, OutputFormat } from '../../../src/utils/formatters';
+import { execFileSync } from 'child_process';
+import { formatSecrets, OutputFormat, resolveShellFormat } from '../../../src/utils/formatters';
+
+// Minimal readers for each format, enough to check that output parses back to the input
+
+function parseDocker(text: string): Record<string, string> {
+  return Object.fromEntries(text.split('\n').filter(Boolean).map(line => {
+    const index = line.indexOf('=');
+    return [line.slice(0, index), line.slice(index + 1)];
+  }));
+}
+
+function parseKubernetes(text: string, base64: boolean): Record<string, string> {
+  const data = text.slice(text.indexOf('\ndata:\n') + '\ndata:\n'.length);
+  return Object.fromEntries(data.split('\n').map(line => {
+    const [, key, value] = line.match(/^ {2}("(?:[^"\\]|\\.)*"): (".*")$/) as string[];
+    const decoded = JSON.parse(value) as string;
+    return [JSON.parse(key), base64 ? Buffer.from(decoded, 'base64').toString('utf8') : decoded];
+  }));
+}
+
+/** Double-quoted strings with JSON-style escapes (HCL and TOML basic strings) */
+function unescapeQuoted(body: string): string {
+  const simple: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' };
+  return body.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_match, escape: string) =>
+    escape.length > 1 ? String.fromCharCode(parseInt(escape.slice(1), 16)) : simple[escape]);
+}
+
+function parseAssignments(text: string, unquote: (body: string) => string): Record<string, string> {
+  return Object.fromEntries(text.split('\n').map(line => {
+    const [, key, value] = line.match(/^("(?:[^"\\]|\\.)*"|[^ ]+) = "(.*)"$/) as string[];
+    return [key.startsWith('"') ? unescapeQuoted(key.slice(1, -1)) : key, unquote(value)];
+  }));
+}
+
+function parseTfvars(text: string): Record<string, string> {
+  return parseAssignments(text, body => unescapeQuoted(body).replace(/([$%])\1\{/g, '$1{'));
+}
+
+function parseSystemd(text: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  const pattern = /^([A-Za-z_][A-Za-z0-9_]*)="((?:[^"\\]|\\.)*)"$/gm;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    result[match[1]] = match[2].replace(/\\(.)/g, '$1');
+  }
+  return result;
+}
+
+function parseProperties(text: string): Record<string, string> {
+  const simple: Record<string, string> = { t: '\t', n: '\n', r: '\r', f: '\f' };
+  const unescape = (value: string) => value.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_match, escape: string) =>
+    escape.length > 1 ? String.fromCharCode(parseInt(escape.slice(1), 16)) : simple[escape] ?? escape);
+  return Object.fromEntries(text.split('\n').map(line => {
+    const [, key, value] = line.match(/^((?:[^\\=]|\\.)*)=(.*)$/) as string[];
+    return [unescape(key), unescape(value)];
+  }));
+}
+
+/** Statements in eval output may span lines; reads them one match at a time */
+function splitStatements(text: string, statement: RegExp): string[][] {
+  const results: string[][] = [];
+  let rest = text;
+  while (rest) {
+    const match = rest.match(statement);
+    if (!match) {
+      throw new Error(`Unparsable output: ${rest}`);
+    }
+    results.push(match.slice(1));
+    rest = rest.slice(match[0].length).replace(/^\n/, '');
+  }
+  return results;
+}
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [[]];
+  const pattern = /("(?:[^"]|"")*"|[^,\n]*)(,|\n|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const [, field, separator] = match;
+    rows[rows.length - 1].push(field.startsWith('"') ? field.slice(1, -1).replace(/""/g, '"') : field);
+    if (separator === '\n') {
+      rows.push([]);
+    } else if (separator === '') {
+      break;
+    }
+  }
+  return rows;
+}
 
 describe('formatSecrets', () => {
   const testSecrets = {
@@ -11,6 +99,21 @@ describe('formatSecrets', () => {
     SPECIAL_CHARS: 'value$with`special@chars#'
   };
 
+  // Values that trip up naive escaping in at least one format
+  const trickySecrets = {
+    PLAIN: 'value',
+    EMPTY: '',
+    SPACES: '  padded  ',
+    QUOTES: 'say "hi" and \'bye\'',
+    BACKSLASH: 'C:\\path\\to\\file',
+    SHELL: '$HOME `whoami` $(id) %PATH%',
+    TEMPLATE: '${var.name} %{ if x } $${kept}',
+    SEPARATORS: 'a=b:c#d!e,f',
+    MULTI_LINE: 'line1\nline2\r\nline3',
+    CONTROL: 'tab\there\u0001\u007f',
+    UNICODE: 'héllo wörld ✓ 🚀'
+  };
+
   describe('env format', () => {
     it('should format simple key-value pairs', () => {
       const result = formatSecrets({ DEBUG: 'true' }, 'env');
@@ -99,17 +202,17 @@ describe('formatSecrets', () => {
   describe('export format', () => {
     it('should format as shell export commands', () => {
       const result = formatSecrets({ KEY: 'value' }, 'export');
-      expect(result).toBe('export KEY="value"');
+      expect(result).toBe("export KEY='value'");
     });
 
-    it('should escape shell special characters', () => {
-      const result = formatSecrets({ KEY: 'value$with`special' }, 'export');
-      expect(result).toBe('export KEY="value\\$with\\`special"');
+    it('should leave shell special characters alone inside single quotes', () => {
+      const result = formatSecrets({ KEY: 'value$with`special "quotes"' }, 'export');
+      expect(result).toBe("export KEY='value$with`special \"quotes\"'");
     });
 
-    it('should escape quotes', () => {
-      const result = formatSecrets({ KEY: 'value "with" quotes' }, 'export');
-      expect(result).toBe('export KEY="value \\"with\\" quotes"');
+    it('should escape single quotes', () => {
+      const result = formatSecrets({ KEY: "it's" }, 'export');
+      expect(result).toBe("export KEY='it'\\''s'");
     });
 
     it('should handle multiple exports', () => {
@@ -117,13 +220,267 @@ describe('formatSecrets', () => {
         KEY1: 'value1',
         KEY2: 'value2'
       }, 'export');
-      expect(result).toBe('export KEY1="value1"\nexport KEY2="value2"');
+      expect(result).toBe("export KEY1='value1'\nexport KEY2='value2'");
     });
 
     it('should handle empty object', () => {
       const result = formatSecrets({}, 'export');
       expect(result).toBe('');
     });
+
+    (process.platform === 'win32' ? it.skip : it)('should round-trip any value through eval in sh', () => {
+      const script = `${formatSecrets(trickySecrets, 'export')}\nnode -e 'process.stdout.write(JSON.stringify(process.env))'`;
+      const env = JSON.parse(execFileSync('sh', ['-c', script], { encoding: 'utf8' }));
+      for (const [key, value] of Object.entries(trickySecrets)) {
+        expect(env[key]).toBe(value);
+      }
+    });
+
+    it('should reject keys that are not variable names', () => {
+      expect(() => formatSecrets({ 'A;rm -rf /': 'v' }, 'export'))
+        .toThrow(expect.objectContaining({ code: 'UNSUPPORTED_KEY' }));
+    });
+  });
+
+  describe('fish format', () => {
+    it('should set global exported variables', () => {
+      const result = formatSecrets({ KEY: 'value $HOME' }, 'fish');
+      expect(result).toBe("set -gx KEY 'value $HOME'");
+    });
+
+    it('should escape quotes and backslashes', () => {
+      const result = formatSecrets({ KEY: "it's C:\\dir" }, 'fish');
+      expect(result).toBe("set -gx KEY 'it\\'s C:\\\\dir'");
+    });
+
+    it('should round-trip any value', () => {
+      const parsed = Object.fromEntries(splitStatements(formatSecrets(trickySecrets, 'fish'), /^set -gx (\w+) '((?:[^'\\]|\\.)*)'/)
+        .map(([key, body]) => [key, body.replace(/\\(['\\])/g, '$1')]));
+      expect(parsed).toEqual(trickySecrets);
+    });
+  });
+
+  describe('powershell format', () => {
+    it('should assign $env: variables', () => {
+      const result = formatSecrets({ KEY: 'value $HOME `n' }, 'powershell');
+      expect(result).toBe("$env:KEY = 'value $HOME `n'");
+    });
+
+    it('should double single and typographic quotes', () => {
+      const result = formatSecrets({ KEY: "it's \u2019quoted\u2019" }, 'powershell');
+      expect(result).toBe("$env:KEY = 'it''s \u2019\u2019quoted\u2019\u2019'");
+    });
+
+    it('should round-trip any value', () => {
+      const parsed = Object.fromEntries(splitStatements(formatSecrets(trickySecrets, 'powershell'), /^\$env:(\w+) = '((?:[^'\u2018-\u201b]|(['\u2018-\u201b])\3)*)'/)
+        .map(([key, body]) => [key, body.replace(/(['\u2018-\u201b])\1/g, '$1')]));
+      expect(parsed).toEqual(trickySecrets);
+    });
+  });
+
+  describe('nushell format', () => {
+    it('should assign $env. variables', () => {
+      const result = formatSecrets({ KEY: 'value $HOME "x"' }, 'nushell');
+      expect(result).toBe("$env.KEY = 'value $HOME \"x\"'");
+    });
+
+    it('should use raw strings for values with single quotes', () => {
+      expect(formatSecrets({ KEY: "it's" }, 'nushell')).toBe("$env.KEY = r#'it's'#");
+      expect(formatSecrets({ KEY: "a'#b" }, 'nushell')).toBe("$env.KEY = r##'a'#b'##");
+    });
+
+    it('should round-trip any value', () => {
+      const parsed = Object.fromEntries(splitStatements(formatSecrets(trickySecrets, 'nushell'), /^\$env\.(\w+) = (?:'([^']*)'|r(#+)'([\s\S]*?)'\3)/)
+        .map(([key, plain, , raw]) => [key, plain ?? raw]));
+      expect(parsed).toEqual(trickySecrets);
+    });
+  });
+
+  describe('resolveShellFormat', () => {
+    it('should map shells to formats', () => {
+      expect(resolveShellFormat('zsh')).toBe('export');
+      expect(resolveShellFormat('fish')).toBe('fish');
+      expect(resolveShellFormat('pwsh')).toBe('powershell');
+      expect(resolveShellFormat('nu')).toBe('nushell');
+    });
+
+    it('should detect the shell from $SHELL for auto', () => {
+      expect(resolveShellFormat('auto', { SHELL: '/usr/local/bin/fish' }, 'darwin')).toBe('fish');
+      expect(resolveShellFormat('auto', { SHELL: '/opt/homebrew/bin/nu' }, 'darwin')).toBe('nushell');
+      expect(resolveShellFormat('auto', { SHELL: '/bin/bash' }, 'linux')).toBe('export');
+      expect(resolveShellFormat('auto', { SHELL: '/bin/tcsh' }, 'linux')).toBe('export');
+    });
+
+    it('should fall back to PowerShell on Windows and POSIX elsewhere', () => {
+      expect(resolveShellFormat('auto', {}, 'win32')).toBe('powershell');
+      expect(resolveShellFormat('auto', {}, 'linux')).toBe('export');
+    });
+
+    it('should reject unknown shells', () => {
+      expect(() => resolveShellFormat('cmd')).toThrow(expect.objectContaining({ code: 'INVALID_SHELL' }));
+    });
+  });
+
+  describe('docker format', () => {
+    it('should write values unquoted for --env-file', () => {
+      const result = formatSecrets({ KEY: 'value with "quotes" and spaces', URL: 'a=b' }, 'docker');
+      expect(result).toBe('KEY=value with "quotes" and spaces\nURL=a=b');
+    });
+
+    it('should round-trip single-line values', () => {
+      const { MULTI_LINE: _multiLine, ...singleLine } = trickySecrets;
+      expect(parseDocker(formatSecrets(singleLine, 'docker'))).toEqual(singleLine);
+    });
+
+    it('should reject values with line breaks', () => {
+      expect(() => formatSecrets({ OK: 'x', PEM: 'a\nb' }, 'docker'))
+        .toThrow(expect.objectContaining({ code: 'UNSUPPORTED_VALUE', details: { keys: ['PEM'] } }));
+    });
+
+    it('should reject keys with whitespace or =', () => {
+      expect(() => formatSecrets({ 'MY KEY': 'x' }, 'docker')).toThrow(/MY KEY/);
+    });
+  });
+
+  describe('k8s-secret format', () => {
+    it('should write a Secret manifest with base64 data', () => {
+      const result = formatSecrets({ API_KEY: 'secret' }, 'k8s-secret', { name: 'my-app', namespace: 'prod' });
+      expect(result).toBe([
+        'apiVersion: v1',
+        'kind: Secret',
+        'metadata:',
+        '  name: my-app',
+        '  namespace: prod',
+        'type: Opaque',
+        'data:',
+        '  "API_KEY": "c2VjcmV0"'
+      ].join('\n'));
+    });
+
+    it('should omit the namespace when not given', () => {
+      const result = formatSecrets({ KEY: 'v' }, 'k8s-secret', { name: 'my-app' });
+      expect(result).not.toContain('namespace');
+    });
+
+    it('should round-trip any value', () => {
+      const result = formatSecrets(trickySecrets, 'k8s-secret', { name: 'my-app' });
+      expect(parseKubernetes(result, true)).toEqual(trickySecrets);
+    });
+
+    it('should write empty data as {}', () => {
+      expect(formatSecrets({}, 'k8s-secret', { name: 'my-app' })).toMatch(/\ndata: \{\}$/);
+    });
+
+    it('should reject invalid names and keys', () => {
+      expect(() => formatSecrets({ KEY: 'v' }, 'k8s-secret', { name: 'My_App' }))
+        .toThrow(expect.objectContaining({ code: 'INVALID_OPTION' }));
+      expect(() => formatSecrets({ 'MY KEY': 'v' }, 'k8s-secret', { name: 'my-app' }))
+        .toThrow(expect.objectContaining({ code: 'UNSUPPORTED_KEY' }));
+    });
+  });
+
+  describe('k8s-configmap format', () => {
+    it('should write a ConfigMap manifest with plain data', () => {
+      const result = formatSecrets({ LOG_LEVEL: 'debug' }, 'k8s-configmap', { name: 'my-app', namespace: 'prod' });
+      expect(result).toBe([
+        'apiVersion: v1',
+        'kind: ConfigMap',
+        'metadata:',
+        '  name: my-app',
+        '  namespace: prod',
+        'data:',
+        '  "LOG_LEVEL": "debug"'
+      ].join('\n'));
+    });
+
+    it('should round-trip any value', () => {
+      const result = formatSecrets(trickySecrets, 'k8s-configmap', { name: 'my-app' });
+      expect(parseKubernetes(result, false)).toEqual(trickySecrets);
+    });
+  });
+
+  describe('tfvars format', () => {
+    it('should write HCL string assignments', () => {
+      const result = formatSecrets({ db_url: 'postgres://x', KEY: 'a "b"' }, 'tfvars');
+      expect(result).toBe('db_url = "postgres://x"\nKEY = "a \\"b\\""');
+    });
+
+    it('should escape template sequences', () => {
+      const result = formatSecrets({ KEY: '${var} %{ if } $5' }, 'tfvars');
+      expect(result).toBe('KEY = "$${var} %%{ if } $5"');
+    });
+
+    it('should round-trip any value', () => {
+      expect(parseTfvars(formatSecrets(trickySecrets, 'tfvars'))).toEqual(trickySecrets);
+    });
+
+    it('should reject keys that are not identifiers', () => {
+      expect(() => formatSecrets({ '1KEY': 'v', 'A.B': 'v' }, 'tfvars'))
+        .toThrow(expect.objectContaining({ details: { keys: ['1KEY', 'A.B'] } }));
+    });
+  });
+
+  describe('systemd format', () => {
+    it('should double-quote and escape values', () => {
+      const result = formatSecrets({ KEY: 'a "b" $HOME \\ `x`' }, 'systemd');
+      expect(result).toBe('KEY="a \\"b\\" \\$HOME \\\\ \\`x\\`"');
+    });
+
+    it('should keep line breaks inside quotes', () => {
+      expect(formatSecrets({ KEY: 'line1\nline2' }, 'systemd')).toBe('KEY="line1\nline2"');
+    });
+
+    it('should round-trip any value', () => {
+      expect(parseSystemd(formatSecrets(trickySecrets, 'systemd'))).toEqual(trickySecrets);
+    });
+
+    it('should reject keys that are not variable names', () => {
+      expect(() => formatSecrets({ 'MY-KEY': 'v' }, 'systemd')).toThrow(/MY-KEY/);
+    });
+  });
+
+  describe('properties format', () => {
+    it('should escape separators, comments and leading spaces', () => {
+      const result = formatSecrets({ 'my key': ' a=b:c#d!e' }, 'properties');
+      expect(result).toBe('my\\ key=\\ a\\=b\\:c\\#d\\!e');
+    });
+
+    it('should use \\u escapes outside printable ASCII', () => {
+      expect(formatSecrets({ KEY: 'é\n' }, 'properties')).toBe('KEY=\\u00E9\\n');
+    });
+
+    it('should round-trip any value', () => {
+      expect(parseProperties(formatSecrets(trickySecrets, 'properties'))).toEqual(trickySecrets);
+    });
+  });
+
+  describe('toml format', () => {
+    it('should write basic strings and quote non-bare keys', () => {
+      const result = formatSecrets({ KEY: 'a "b"\n', 'dotted.key': 'v' }, 'toml');
+      expect(result).toBe('KEY = "a \\"b\\"\\n"\n"dotted.key" = "v"');
+    });
+
+    it('should round-trip any value', () => {
+      const secrets = { ...trickySecrets, 'with space': 'v' };
+      expect(parseAssignments(formatSecrets(secrets, 'toml'), unescapeQuoted)).toEqual(secrets);
+    });
+  });
+
+  describe('csv format', () => {
+    it('should write a header and quote fields when needed', () => {
+      const result = formatSecrets({ A: 'plain', B: 'x,y', C: 'say "hi"' }, 'csv');
+      expect(result).toBe('key,value\nA,plain\nB,"x,y"\nC,"say ""hi"""');
+    });
+
+    it('should round-trip any value', () => {
+      const [header, ...rows] = parseCsv(formatSecrets(trickySecrets, 'csv'));
+      expect(header).toEqual(['key', 'value']);
+      expect(Object.fromEntries(rows)).toEqual(trickySecrets);
+    });
+
+    it('should write only the header for no secrets', () => {
+      expect(formatSecrets({}, 'csv')).toBe('key,value');
+    });
   });
 
   describe('error handling', () => {
@@ -0,0 +1,29 @@
+import { collectOption, globToRegExp, matchesAnyGlob, parseGlobList } from '../../../src/utils/glob';
+
+describe('glob', () => {
+  it('should match * and ? wildcards against whole keys', () => {
+    expect(globToRegExp('API_*').test('API_KEY')).toBe(true);
+    expect(globToRegExp('API_*').test('MY_API_KEY')).toBe(false);
+    expect(globToRegExp('DB_?').test('DB_1')).toBe(true);
+    expect(globToRegExp('DB_?').test('DB_10')).toBe(false);
+  });
+
+  it('should treat other characters literally', () => {
+    expect(globToRegExp('a.b').test('a.b')).toBe(true);
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+  });
+
+  it('should match any of several patterns', () => {
+    expect(matchesAnyGlob('STRIPE_KEY', ['API_*', 'STRIPE_*'])).toBe(true);
+    expect(matchesAnyGlob('OTHER', ['API_*', 'STRIPE_*'])).toBe(false);
+  });
+
+  it('should split repeated and comma-separated options', () => {
+    expect(parseGlobList(['API_*,DB_*', ' STRIPE_* '])).toEqual(['API_*', 'DB_*', 'STRIPE_*']);
+    expect(parseGlobList(undefined)).toEqual([]);
+  });
+
+  it('should collect repeated option values', () => {
+    expect(collectOption('STRIPE_*', collectOption('API_*'))).toEqual(['API_*', 'STRIPE_*']);
+  });
+});
@@ -0,0 +1,72 @@
+import { applyKeyRules, describeKeyRules, resolveKeyRules, selectLocalKeys } from '../../../src/utils/key-rules';
+
+describe('key-rules', () => {
+  const remote = {
+    NEXT_PUBLIC_API_URL: 'https://api.example.com',
+    NEXT_PUBLIC_SITE_NAME: 'Example',
+    STRIPE_SECRET_KEY: 'sk_live_123',
+    DATABASE_URL: 'postgres://db'
+  };
+
+  describe('applyKeyRules', () => {
+    it('should keep only matching keys and let exclude win', () => {
+      expect(Object.keys(applyKeyRules(remote, { only: ['NEXT_PUBLIC_*'] })))
+        .toEqual(['NEXT_PUBLIC_API_URL', 'NEXT_PUBLIC_SITE_NAME']);
+      expect(Object.keys(applyKeyRules(remote, { only: ['*'], exclude: ['STRIPE_*', 'NEXT_PUBLIC_SITE_?AME'] })))
+        .toEqual(['NEXT_PUBLIC_API_URL', 'DATABASE_URL']);
+    });
+
+    it('should strip and add prefixes after filtering', () => {
+      expect(applyKeyRules(remote, { only: ['NEXT_PUBLIC_*'], stripPrefix: 'NEXT_PUBLIC_', addPrefix: 'VITE_' })).toEqual({
+        VITE_API_URL: 'https://api.example.com',
+        VITE_SITE_NAME: 'Example'
+      });
+      expect(applyKeyRules({ NEXT_PUBLIC_: 'x' }, { stripPrefix: 'NEXT_PUBLIC_' })).toEqual({ NEXT_PUBLIC_: 'x' });
+    });
+
+    it('should refuse rules that map two keys to one name', () => {
+      expect(() => applyKeyRules({ NEXT_PUBLIC_API_URL: 'a', API_URL: 'b' }, { stripPrefix: 'NEXT_PUBLIC_' }))
+        .toThrow(expect.objectContaining({
+          code: 'KEY_COLLISION',
+          details: { key: 'API_URL', sources: ['NEXT_PUBLIC_API_URL', 'API_URL'] }
+        }));
+    });
+  });
+
+  describe('selectLocalKeys', () => {
+    it('should keep only local keys the rules could have produced', () => {
+      const local = { API_URL: '1', SITE_NAME: '2', LOCAL_DEBUG: '3', VITE_API_URL: '4' };
+
+      expect(selectLocalKeys(local, { only: ['NEXT_PUBLIC_*_URL'], stripPrefix: 'NEXT_PUBLIC_' }))
+        .toEqual({ API_URL: '1', VITE_API_URL: '4' });
+      expect(selectLocalKeys(local, { stripPrefix: 'NEXT_PUBLIC_', addPrefix: 'VITE_', exclude: ['*_URL'] }))
+        .toEqual({});
+      expect(selectLocalKeys(local, { exclude: ['STRIPE_*'] })).toEqual(local);
+    });
+
+    it('should leave every key in scope without rules', () => {
+      const local = { A: '1' };
+
+      expect(selectLocalKeys(local, {})).toBe(local);
+    });
+  });
+
+  describe('resolveKeyRules', () => {
+    it('should let each flag replace the persisted rule of the same name', () => {
+      const persisted = { only: ['NEXT_PUBLIC_*'], exclude: ['*_SECRET'], stripPrefix: 'NEXT_PUBLIC_' };
+
+      expect(resolveKeyRules({ only: ['PUBLIC_*,VITE_*'], addPrefix: 'APP_' }, persisted)).toEqual({
+        only: ['PUBLIC_*', 'VITE_*'],
+        exclude: ['*_SECRET'],
+        stripPrefix: 'NEXT_PUBLIC_',
+        addPrefix: 'APP_'
+      });
+      expect(resolveKeyRules({})).toEqual({});
+    });
+  });
+
+  it('should describe the rules in effect', () => {
+    expect(describeKeyRules({ only: ['NEXT_PUBLIC_*'], exclude: ['STRIPE_*'], stripPrefix: 'NEXT_PUBLIC_' }))
+      .toBe('only NEXT_PUBLIC_*; excluding STRIPE_*; strip NEXT_PUBLIC_');
+  });
+});
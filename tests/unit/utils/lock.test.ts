@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { withFileLock } from '../../../src/utils/lock';
+
+describe('withFileLock', () => {
+  let tempDir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ezenv-lock-'));
+    lockPath = path.join(tempDir, 'locks', 'test.lock');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should hold the lock while running and release it afterwards', async () => {
+    const result = await withFileLock(lockPath, async () => {
+      expect(await fs.readFile(lockPath, 'utf-8')).toMatch(new RegExp(`^${process.pid}:`));
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    await expect(fs.stat(lockPath)).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('should release the lock when the callback throws', async () => {
+    await expect(withFileLock(lockPath, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    await expect(fs.stat(lockPath)).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('should run holders one at a time', async () => {
+    const events: string[] = [];
+    const holder = (name: string) => withFileLock(lockPath, async () => {
+      events.push(`${name}:start`);
+      await new Promise(resolve => setTimeout(resolve, 30));
+      events.push(`${name}:end`);
+    }, { retryMs: 5 });
+
+    await Promise.all([holder('a'), holder('b')]);
+
+    expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+  });
+
+  it('should take over a lock left by a process that no longer exists', async () => {
+    await fs.mkdir(path.dirname(lockPath), { recursive: true });
+    await fs.writeFile(lockPath, '999999999');
+
+    await expect(withFileLock(lockPath, async () => 'taken')).resolves.toBe('taken');
+  });
+
+  it('should let only one waiter take over a stale lock', async () => {
+    await fs.mkdir(path.dirname(lockPath), { recursive: true });
+    await fs.writeFile(lockPath, '999999999');
+    let active = 0;
+    let maxActive = 0;
+
+    const holder = () => withFileLock(lockPath, async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      active--;
+    }, { retryMs: 1 });
+
+    await Promise.all([holder(), holder(), holder(), holder()]);
+
+    expect(maxActive).toBe(1);
+    expect(await fs.readdir(path.dirname(lockPath))).toEqual([]);
+  });
+
+  it('should not delete a lock that was taken over while it ran', async () => {
+    await withFileLock(lockPath, async () => {
+      // Another process decided this lock was stale and replaced it
+      await fs.writeFile(lockPath, '12345:other-owner');
+    });
+
+    expect(await fs.readFile(lockPath, 'utf-8')).toBe('12345:other-owner');
+  });
+
+  it('should time out while another live process holds the lock', async () => {
+    await fs.mkdir(path.dirname(lockPath), { recursive: true });
+    await fs.writeFile(lockPath, String(process.pid));
+
+    await expect(withFileLock(lockPath, async () => 'never', { timeoutMs: 50, retryMs: 10 }))
+      .rejects.toMatchObject({ code: 'LOCK_TIMEOUT' });
+  });
+});
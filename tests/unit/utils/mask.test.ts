@@ -0,0 +1,58 @@
+import { createHash } from 'crypto';
+import { maskValue, describeChange, resolveMaskOptions } from '../../../src/utils/mask';
+
+describe('maskValue', () => {
+  it('should hide the value and its length by default', () => {
+    expect(maskValue('a')).toBe(maskValue('a much longer secret value'));
+    expect(maskValue('secret')).not.toContain('secret');
+  });
+
+  it('should show the value with style none', () => {
+    expect(maskValue('secret', { style: 'none' })).toBe('secret');
+  });
+
+  it('should reveal the first and last characters with style partial', () => {
+    expect(maskValue('sk-live-abcdef123456', { style: 'partial', reveal: 4 })).toBe('sk-l…3456');
+  });
+
+  it('should fully mask values too short for a partial reveal', () => {
+    expect(maskValue('hunter2', { style: 'partial', reveal: 2 })).toBe(maskValue('hunter2'));
+  });
+
+  it('should produce stable short hashes that differ between values', () => {
+    const first = maskValue('value-1', { style: 'hash' });
+
+    expect(first).toMatch(/^hmac:[0-9a-f]{8}$/);
+    expect(maskValue('value-1', { style: 'hash' })).toBe(first);
+    expect(maskValue('value-2', { style: 'hash' })).not.toBe(first);
+  });
+
+  it('should key hashes per run so they cannot be matched against a plain SHA-256', () => {
+    const plain = createHash('sha256').update('hunter2').digest('hex').slice(0, 8);
+
+    expect(maskValue('hunter2', { style: 'hash' })).not.toContain(plain);
+  });
+});
+
+describe('describeChange', () => {
+  it('should report length changes and the changed span', () => {
+    expect(describeChange('postgres://db:5432', 'postgres://db:6543')).toBe('length 18, 4 chars changed');
+    expect(describeChange('abc', 'abcd')).toBe('length 3 → 4, 1 char changed');
+    expect(describeChange('', 'new')).toBe('length 0 → 3, 3 chars changed');
+  });
+});
+
+describe('resolveMaskOptions', () => {
+  it('should default to full masking', () => {
+    expect(resolveMaskOptions({})).toEqual({ style: 'full', reveal: 3 });
+  });
+
+  it('should let --show-values win', () => {
+    expect(resolveMaskOptions({ mask: 'hash', showValues: true })).toEqual({ style: 'none' });
+  });
+
+  it('should reject unknown styles and invalid reveal counts', () => {
+    expect(() => resolveMaskOptions({ mask: 'blur' })).toThrow('Invalid mask style: blur');
+    expect(() => resolveMaskOptions({ mask: 'partial', reveal: '-1' })).toThrow('Invalid --reveal value');
+  });
+});
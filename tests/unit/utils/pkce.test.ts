@@ -0,0 +1,18 @@
+import { createPkcePair, pkceChallenge } from '../../../src/utils/pkce';
+
+describe('pkce', () => {
+  it('should derive the S256 challenge from RFC 7636 appendix B', () => {
+    expect(pkceChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')).toBe(
+      'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM'
+    );
+  });
+
+  it('should create a fresh URL-safe verifier each time', () => {
+    const first = createPkcePair();
+    const second = createPkcePair();
+
+    expect(first.verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(first.verifier).not.toBe(second.verifier);
+    expect(first.challenge).toBe(pkceChallenge(first.verifier));
+  });
+});
@@ -0,0 +1,25 @@
+import { hasRole, requireRole } from '../../../src/utils/roles';
+
+describe('hasRole', () => {
+  it('should rank admin above manager above member', () => {
+    expect(hasRole('admin', 'manager')).toBe(true);
+    expect(hasRole('manager', 'manager')).toBe(true);
+    expect(hasRole('member', 'manager')).toBe(false);
+    expect(hasRole(undefined, 'member')).toBe(true);
+  });
+});
+
+describe('requireRole', () => {
+  it('should explain which role is missing', () => {
+    expect(() => requireRole('manager', 'admin', 'delete it', 'project "web"')).toThrow(
+      'You must be an admin of project "web" to delete it (your role: manager)'
+    );
+    expect(() => requireRole('member', 'manager', 'create environments', 'project "web"')).toThrow(
+      'You must be a manager or admin of project "web" to create environments (your role: member)'
+    );
+  });
+
+  it('should pass when the role is sufficient', () => {
+    expect(() => requireRole('admin', 'admin', 'delete it', 'project "web"')).not.toThrow();
+  });
+});